@@ -0,0 +1,168 @@
+import { ConsumptionApi, type ConsumptionUtil } from "@514labs/moose-lib";
+import { whereAll } from "./hubspotDealQuery";
+import { resolveReportingCurrency } from "./hubspotReportingCurrency";
+
+// This file provides the account rollup API: won revenue, open pipeline and last activity per company
+
+interface HubSpotAccountRollupQueryParams {
+  companyId?: string; // Exact company ID
+  companyName?: string; // Case-insensitive substring of the company name
+  industry?: string;
+  country?: string;
+  ownerId?: string; // Company owner
+  includeWithoutDeals?: boolean; // Also list companies that are no deal's primary company (default: false)
+  sort?: "wonRevenue" | "openPipeline" | "lastActivity" | "companyName"; // Default: wonRevenue
+  order?: "asc" | "desc"; // Default: desc
+  reportingCurrency?: string; // Currency of the amounts (default: the home currency)
+  limit?: number; // Maximum number of accounts
+}
+
+interface HubSpotAccountRollup {
+  companyId: string;
+  companyName: string;
+  domain?: string;
+  industry?: string;
+  country?: string;
+  ownerId?: string;
+  wonDeals: number;
+  wonRevenue: number; // Total amount of won deals
+  lastWonDate?: string; // Latest close date of a won deal
+  openDeals: number;
+  openPipeline: number; // Total amount of open deals
+  weightedPipeline: number; // Open amount × stage probability
+  lastActivityAt?: string; // Latest note, call, email, meeting or task on the company
+  daysSinceLastActivity?: number;
+}
+
+interface HubSpotAccountRollupData {
+  reportingCurrency: string;
+  accounts: HubSpotAccountRollup[];
+}
+
+interface AccountRow {
+  companyId: string;
+  companyName: string;
+  domain: string | null;
+  industry: string | null;
+  country: string | null;
+  ownerId: string | null;
+  wonDeals: number | string;
+  wonRevenue: number;
+  lastWonDate: string | null;
+  openDeals: number | string;
+  openPipeline: number;
+  weightedPipeline: number;
+  lastActivityAt: string | null;
+  daysSinceLastActivity: number | string | null;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function accountOrder(sql: ConsumptionUtil["sql"], sort: HubSpotAccountRollupQueryParams["sort"], order: "asc" | "desc") {
+  const direction = order === "asc" ? sql`ASC` : sql`DESC`;
+  switch (sort) {
+    case "openPipeline":
+      return sql`openPipeline ${direction}, companyId`;
+    case "lastActivity":
+      return sql`lastActivityAt ${direction} NULLS LAST, companyId`;
+    case "companyName":
+      return sql`companyName ${direction}, companyId`;
+    default:
+      return sql`wonRevenue ${direction}, openPipeline ${direction}, companyId`;
+  }
+}
+
+// HubSpot Account Rollup API
+export const HubSpotAccountRollupApi = new ConsumptionApi<
+  HubSpotAccountRollupQueryParams,
+  HubSpotAccountRollupData
+>("hubspot-account-rollup", async (
+  { companyId, companyName, industry, country, ownerId, includeWithoutDeals = false, sort, order = "desc", reportingCurrency, limit = 50 },
+  { client, sql },
+): Promise<HubSpotAccountRollupData> => {
+  const fx = await resolveReportingCurrency({ client, sql }, reportingCurrency);
+
+  const companyWhere = whereAll(sql, [
+    sql`NOT isArchived`,
+    companyId ? sql`id = ${companyId}` : undefined,
+    companyName ? sql`name ILIKE ${`%${companyName}%`}` : undefined,
+    industry ? sql`industry = ${industry}` : undefined,
+    country ? sql`country = ${country}` : undefined,
+    ownerId ? sql`ownerId = ${ownerId}` : undefined,
+  ]);
+
+  // Deals roll up to their primary company (HubSpot's Primary association label), as in HubSpotDealEnriched, so none counts twice
+  const query = sql`
+    SELECT
+      companies.id as companyId,
+      companies.name as companyName,
+      companies.domain as domain,
+      companies.industry as industry,
+      companies.country as country,
+      companies.ownerId as ownerId,
+      ifNull(deals.wonDeals, 0) as wonDeals,
+      ifNull(deals.wonAmountHome, 0) * ${fx.rate} as wonRevenue,
+      toString(deals.lastWonDate) as lastWonDate,
+      ifNull(deals.openDeals, 0) as openDeals,
+      ifNull(deals.openAmountHome, 0) * ${fx.rate} as openPipeline,
+      ifNull(deals.weightedAmountHome, 0) * ${fx.rate} as weightedPipeline,
+      toString(activity.lastActivityAt) as lastActivityAt,
+      dateDiff('day', activity.lastActivityAt, now()) as daysSinceLastActivity
+    FROM (SELECT * FROM HubSpotCompany FINAL WHERE ${companyWhere}) AS companies
+    LEFT JOIN (
+      SELECT
+        primaryCompanyId as companyKey,
+        countIf(isWon) as wonDeals,
+        sumIf(amountHome, isWon) as wonAmountHome,
+        maxIf(toDate(closeDate), isWon) as lastWonDate,
+        countIf(NOT isClosed) as openDeals,
+        sumIf(amountHome, NOT isClosed) as openAmountHome,
+        sumIf(amountHome * stageProbability, NOT isClosed) as weightedAmountHome
+      FROM HubSpotDeal FINAL
+      WHERE NOT isDeleted AND primaryCompanyId != ''
+      GROUP BY companyKey
+    ) AS deals ON deals.companyKey = companies.id
+    LEFT JOIN (
+      SELECT companyKey, max(timestamp) as lastActivityAt
+      FROM (
+        SELECT arrayJoin(associatedCompanies) as companyKey, timestamp FROM HubSpotNote FINAL WHERE NOT isArchived
+        UNION ALL
+        SELECT arrayJoin(associatedCompanies) as companyKey, timestamp FROM HubSpotCall FINAL WHERE NOT isArchived
+        UNION ALL
+        SELECT arrayJoin(associatedCompanies) as companyKey, timestamp FROM HubSpotEmail FINAL WHERE NOT isArchived
+        UNION ALL
+        SELECT arrayJoin(associatedCompanies) as companyKey, timestamp FROM HubSpotMeeting FINAL WHERE NOT isArchived
+        UNION ALL
+        SELECT arrayJoin(associatedCompanies) as companyKey, timestamp FROM HubSpotTask FINAL WHERE NOT isArchived
+      )
+      WHERE timestamp <= now() -- Tasks due later are not activity yet
+      GROUP BY companyKey
+    ) AS activity ON activity.companyKey = companies.id
+    WHERE ${includeWithoutDeals} OR deals.companyKey IS NOT NULL
+    ORDER BY ${accountOrder(sql, sort, order)}
+    LIMIT ${limit}
+    SETTINGS join_use_nulls = 1
+  `;
+  const rows = await client.query.execute<AccountRow>(query).then((r) => r.json() as Promise<AccountRow[]>);
+
+  return {
+    reportingCurrency: fx.currency,
+    accounts: rows.map((row) => ({
+      companyId: row.companyId,
+      companyName: row.companyName,
+      domain: row.domain ?? undefined,
+      industry: row.industry ?? undefined,
+      country: row.country ?? undefined,
+      ownerId: row.ownerId ?? undefined,
+      wonDeals: Number(row.wonDeals),
+      wonRevenue: round2(row.wonRevenue),
+      // maxIf over no won deals is 1970-01-01
+      lastWonDate: row.lastWonDate && row.lastWonDate !== "1970-01-01" ? row.lastWonDate : undefined,
+      openDeals: Number(row.openDeals),
+      openPipeline: round2(row.openPipeline),
+      weightedPipeline: round2(row.weightedPipeline),
+      lastActivityAt: row.lastActivityAt ?? undefined,
+      daysSinceLastActivity: row.daysSinceLastActivity === null ? undefined : Number(row.daysSinceLastActivity),
+    })),
+  };
+});
@@ -0,0 +1,154 @@
+import { ConsumptionApi } from "@514labs/moose-lib";
+import { tags } from "typia";
+import { dealConditions, whereAll } from "./hubspotDealQuery";
+import { resolveReportingCurrency } from "./hubspotReportingCurrency";
+
+// This file provides the deal cohort API: deals grouped by creation month, with win and loss rates by deal age
+
+interface HubSpotDealCohortsQueryParams {
+  createdFrom?: string & tags.Format<"date">; // First cohort is this date's month (default: 11 months before createdTo)
+  createdTo?: string & tags.Format<"date">; // Last cohort is this date's month (default: today)
+  pipeline?: string; // Limit to one pipeline ID
+  ownerId?: string; // Limit to one owner
+  dealType?: string; // Limit to one deal type (e.g. newbusiness)
+  reportingCurrency?: string; // Currency of the deal sizes (default: the home currency)
+}
+
+// Cumulative share of the cohort's deals closed within each age; null until every deal in the cohort is that old
+interface CohortRates {
+  days30: number | null;
+  days60: number | null;
+  days90Plus: number | null; // Closed at any age, once the cohort is 90 days old
+  toDate: number; // Closed so far, however young the cohort
+}
+
+interface HubSpotDealCohort {
+  cohortMonth: string; // "2024-03"
+  deals: number;
+  openDeals: number;
+  wonDeals: number;
+  lostDeals: number;
+  winRate: CohortRates; // % of the cohort won
+  lossRate: CohortRates; // % of the cohort lost
+  closedWinRate?: number; // wonDeals / closed deals (%), unaffected by deals still open
+  medianDaysToClose?: number; // Over closed deals
+  p90DaysToClose?: number;
+  avgDealSize?: number; // Over all deals in the cohort
+  avgWonDealSize?: number;
+}
+
+interface HubSpotDealCohortsData {
+  reportingCurrency: string;
+  cohorts: HubSpotDealCohort[];
+}
+
+interface CohortRow {
+  cohortMonth: string;
+  deals: number | string;
+  openDeals: number | string;
+  wonDeals: number | string;
+  lostDeals: number | string;
+  won30: number | string;
+  won60: number | string;
+  lost30: number | string;
+  lost60: number | string;
+  medianDaysToClose: number | null;
+  p90DaysToClose: number | null;
+  avgDealSize: number | null;
+  avgWonDealSize: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const percent = (part: number, whole: number) => (whole > 0 ? round2((part * 100) / whole) : 0);
+// Empty aggregates come back as null (or NaN for quantiles)
+const optional = (value: number | null) => (value === null || isNaN(Number(value)) ? undefined : round2(Number(value)));
+
+/** Whether every deal created in `cohortMonth` is at least `days` old */
+function windowElapsed(cohortMonth: string, days: number): boolean {
+  const [year, month] = cohortMonth.split("-").map(Number);
+  const lastCreated = Date.UTC(year, month, 1); // Start of the following month
+  return lastCreated + days * DAY_MS <= Date.now();
+}
+
+// HubSpot Deal Cohorts API
+export const HubSpotDealCohortsApi = new ConsumptionApi<
+  HubSpotDealCohortsQueryParams,
+  HubSpotDealCohortsData
+>("hubspot-deal-cohorts", async (
+  { createdFrom, createdTo, pipeline, ownerId, dealType, reportingCurrency },
+  { client, sql },
+): Promise<HubSpotDealCohortsData> => {
+  const end = createdTo ?? new Date().toISOString().slice(0, 10);
+  const endDay = new Date(end);
+  const start = createdFrom
+    ?? new Date(Date.UTC(endDay.getUTCFullYear(), endDay.getUTCMonth() - 11, 1)).toISOString().slice(0, 10);
+  const fx = await resolveReportingCurrency({ client, sql }, reportingCurrency);
+
+  // Whole months: the first and last cohorts are not cut short by mid-month dates
+  const where = whereAll(sql, dealConditions(sql, {
+    pipeline,
+    ownerId,
+    dealType,
+    createdFrom: `${start.slice(0, 7)}-01`,
+    createdTo: new Date(Date.UTC(endDay.getUTCFullYear(), endDay.getUTCMonth() + 1, 0)).toISOString().slice(0, 10),
+  }));
+
+  const query = sql`
+    SELECT
+      formatDateTime(toStartOfMonth(toDate(createdAt)), '%Y-%m') as cohortMonth,
+      count() as deals,
+      countIf(NOT isClosed) as openDeals,
+      countIf(isWon) as wonDeals,
+      countIf(isClosed AND NOT isWon) as lostDeals,
+      countIf(isWon AND daysToClose <= 30) as won30,
+      countIf(isWon AND daysToClose <= 60) as won60,
+      countIf(isClosed AND NOT isWon AND daysToClose <= 30) as lost30,
+      countIf(isClosed AND NOT isWon AND daysToClose <= 60) as lost60,
+      quantileExactIf(0.5)(daysToClose, isClosed) as medianDaysToClose,
+      quantileExactIf(0.9)(daysToClose, isClosed) as p90DaysToClose,
+      avg(amountHome) * ${fx.rate} as avgDealSize,
+      avgIf(amountHome, isWon) * ${fx.rate} as avgWonDealSize
+    FROM HubSpotDeal FINAL
+    WHERE ${where}
+    GROUP BY cohortMonth
+    ORDER BY cohortMonth
+  `;
+  const rows = await client.query.execute<CohortRow>(query).then((r) => r.json() as Promise<CohortRow[]>);
+
+  return {
+    reportingCurrency: fx.currency,
+    cohorts: rows.map((row) => {
+      const deals = Number(row.deals);
+      const wonDeals = Number(row.wonDeals);
+      const lostDeals = Number(row.lostDeals);
+      const within = (count: number | string, days: number) =>
+        windowElapsed(row.cohortMonth, days) ? percent(Number(count), deals) : null;
+      return {
+        cohortMonth: row.cohortMonth,
+        deals,
+        openDeals: Number(row.openDeals),
+        wonDeals,
+        lostDeals,
+        winRate: {
+          days30: within(row.won30, 30),
+          days60: within(row.won60, 60),
+          days90Plus: within(wonDeals, 90),
+          toDate: percent(wonDeals, deals),
+        },
+        lossRate: {
+          days30: within(row.lost30, 30),
+          days60: within(row.lost60, 60),
+          days90Plus: within(lostDeals, 90),
+          toDate: percent(lostDeals, deals),
+        },
+        closedWinRate: wonDeals + lostDeals > 0 ? percent(wonDeals, wonDeals + lostDeals) : undefined,
+        medianDaysToClose: optional(row.medianDaysToClose),
+        p90DaysToClose: optional(row.p90DaysToClose),
+        avgDealSize: optional(row.avgDealSize),
+        avgWonDealSize: optional(row.avgWonDealSize),
+      };
+    }),
+  };
+});
@@ -0,0 +1,308 @@
+import { ConsumptionApi } from "@514labs/moose-lib";
+import { tags } from "typia";
+import { dealConditions, whereAll } from "./hubspotDealQuery";
+import { resolveReportingCurrency } from "./hubspotReportingCurrency";
+
+// This file provides the revenue forecast API: deals bucketed by close month or quarter, with quota attainment
+
+interface HubSpotDealForecastQueryParams {
+  period?: "month" | "quarter"; // Bucket size (default: quarter)
+  startDate?: string & tags.Format<"date">; // First bucket is the period containing this date (default: today)
+  periods?: number & tags.Type<"uint32"> & tags.Minimum<1> & tags.Maximum<24>; // Number of buckets (default: 4)
+  pipeline?: string; // Limit to one pipeline ID
+  ownerId?: string; // Limit to one owner
+  groupByOwner?: boolean; // One row per owner and period instead of one per period
+  commitProbability?: number; // Stage probability treated as commit when hs_forecast_category is empty (default: 0.9)
+  bestCaseProbability?: number; // Stage probability treated as best case when hs_forecast_category is empty (default: 0.5)
+  reportingCurrency?: string; // Currency of the amounts (default: the home currency)
+  limit?: number; // Maximum slipped deals listed (largest first)
+}
+
+interface HubSpotForecastBucket {
+  period: string; // "2024-Q1" or "2024-03"
+  periodStart: string;
+  periodEnd: string;
+  ownerId?: string; // With groupByOwner
+  ownerName?: string;
+  openDeals: number; // Open deals closing in the period, excluding OMIT ("not forecasted")
+  pipelineAmount: number; // Their total amount
+  weightedAmount: number; // Their amount × stage probability
+  commitAmount: number; // Won + open commit deals
+  bestCaseAmount: number; // Commit + open best case deals
+  wonDeals: number;
+  wonAmount: number; // Won to date, by close date
+  quota?: number; // From HubSpotQuota, prorated by day when a quota overlaps the period
+  attainment?: number; // wonAmount / quota (%)
+  gapToQuota?: number; // quota - wonAmount (0 once reached)
+  slippedDeals: number; // Still open with a close date before today
+  slippedAmount: number;
+}
+
+interface HubSpotSlippedDeal {
+  dealId: string;
+  dealName: string;
+  ownerId?: string;
+  pipelineLabel: string;
+  stageLabel: string;
+  closeDate: string;
+  daysSlipped: number;
+  amount: number;
+  forecastCategory: string; // Effective category (from hs_forecast_category or the stage probability)
+}
+
+interface HubSpotDealForecastData {
+  period: "month" | "quarter";
+  reportingCurrency: string; // Currency of every amount below
+  buckets: HubSpotForecastBucket[];
+  totals: Omit<HubSpotForecastBucket, "period" | "periodStart" | "periodEnd" | "ownerId" | "ownerName">;
+  slippedDeals: HubSpotSlippedDeal[]; // Every slipped deal matching pipeline/owner, not only those in the buckets
+}
+
+interface ForecastRow {
+  periodStart: string;
+  ownerKey: string; // '' unless groupByOwner
+  ownerName: string | null;
+  openDeals: number | string;
+  pipelineAmount: number;
+  weightedAmount: number;
+  openCommit: number;
+  openBestCase: number;
+  wonDeals: number | string;
+  wonAmount: number;
+  slippedDeals: number | string;
+  slippedAmount: number;
+}
+
+interface QuotaRow {
+  ownerId: string;
+  period: string;
+  quotaAmount: number;
+}
+
+type SlippedRow = Omit<HubSpotSlippedDeal, "ownerId" | "closeDate" | "amount" | "forecastCategory" | "daysSlipped"> & {
+  ownerId: string | null;
+  closeDay: string;
+  amountReporting: number;
+  effectiveCategory: string;
+  daysSlipped: number | string;
+};
+
+interface Period {
+  key: string;
+  start: string;
+  end: string;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+// Days from `start` to `end` (ISO dates), both included; 0 when `end` is earlier
+const dayCount = (start: string, end: string) => Math.max((Date.parse(end) - Date.parse(start)) / (24 * 60 * 60 * 1000) + 1, 0);
+
+/** The `count` month or quarter periods starting with the one containing `date` */
+function periodsFrom(date: string, period: "month" | "quarter", count: number): Period[] {
+  const day = new Date(date);
+  const months = period === "quarter" ? 3 : 1;
+  const firstMonth = Math.floor(day.getUTCMonth() / months) * months;
+  return Array.from({ length: count }, (_, i) => {
+    const start = new Date(Date.UTC(day.getUTCFullYear(), firstMonth + i * months, 1));
+    const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 0));
+    const key = period === "quarter"
+      ? `${start.getUTCFullYear()}-Q${start.getUTCMonth() / 3 + 1}`
+      : isoDate(start).slice(0, 7);
+    return { key, start: isoDate(start), end: isoDate(end) };
+  });
+}
+
+/** Date range of a quota period ("2024-Q1" or "2024-03"); undefined when malformed */
+function quotaRange(period: string): { start: string; end: string } | undefined {
+  const quarter = /^(\d{4})-Q([1-4])$/i.exec(period);
+  if (quarter) return periodsFrom(`${quarter[1]}-${String((Number(quarter[2]) - 1) * 3 + 1).padStart(2, "0")}-01`, "quarter", 1)[0];
+  const month = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(period);
+  if (month) return periodsFrom(`${period}-01`, "month", 1)[0];
+  return undefined;
+}
+
+// HubSpot Deal Forecast API
+export const HubSpotDealForecastApi = new ConsumptionApi<
+  HubSpotDealForecastQueryParams,
+  HubSpotDealForecastData
+>("hubspot-deal-forecast", async (
+  {
+    period = "quarter",
+    startDate,
+    periods = 4,
+    pipeline,
+    ownerId,
+    groupByOwner = false,
+    commitProbability = 0.9,
+    bestCaseProbability = 0.5,
+    reportingCurrency,
+    limit = 50,
+  },
+  { client, sql },
+): Promise<HubSpotDealForecastData> => {
+  const buckets = periodsFrom(startDate ?? isoDate(new Date()), period, periods);
+  const fx = await resolveReportingCurrency({ client, sql }, reportingCurrency);
+
+  const bucketStartExpr = period === "quarter" ? sql`toStartOfQuarter(toDate(closeDate))` : sql`toStartOfMonth(toDate(closeDate))`;
+  const owner = groupByOwner ? sql`coalesce(ownerId, '')` : sql`''`;
+  // hs_forecast_category where the rep set one, otherwise from the stage probability
+  const category = sql`multiIf(
+    ifNull(forecastCategory, '') != '', upper(forecastCategory),
+    stageProbability >= ${commitProbability}, 'COMMIT',
+    stageProbability >= ${bestCaseProbability}, 'BEST_CASE',
+    'PIPELINE'
+  )`;
+  const filters = { pipeline, ownerId };
+  const forecastWhere = whereAll(sql, dealConditions(sql, {
+    ...filters,
+    closeDateFrom: buckets[0].start,
+    closeDateTo: buckets[buckets.length - 1].end,
+  }));
+
+  const forecastQuery = sql`
+    SELECT
+      toString(bucketStart) as periodStart,
+      ownerKey,
+      nullIf(any(owners.fullName), '') as ownerName,
+      countIf(isOpen) as openDeals,
+      sumIf(amountHome, isOpen) * ${fx.rate} as pipelineAmount,
+      sumIf(amountHome * stageProbability, isOpen) * ${fx.rate} as weightedAmount,
+      sumIf(amountHome, isOpen AND category = 'COMMIT') * ${fx.rate} as openCommit,
+      sumIf(amountHome, isOpen AND category = 'BEST_CASE') * ${fx.rate} as openBestCase,
+      countIf(isWon) as wonDeals,
+      sumIf(amountHome, isWon) * ${fx.rate} as wonAmount,
+      countIf(isOpen AND toDate(closeDate) < today()) as slippedDeals,
+      sumIf(amountHome, isOpen AND toDate(closeDate) < today()) * ${fx.rate} as slippedAmount
+    FROM (
+      SELECT
+        *,
+        ${bucketStartExpr} as bucketStart,
+        ${owner} as ownerKey,
+        ${category} as category,
+        NOT isClosed AND category != 'OMIT' as isOpen
+      FROM HubSpotDeal FINAL
+      WHERE ${forecastWhere}
+    ) AS deals
+    LEFT JOIN (SELECT id AS ownerRef, fullName FROM HubSpotOwner FINAL) AS owners ON deals.ownerKey = owners.ownerRef
+    GROUP BY bucketStart, ownerKey
+    ORDER BY bucketStart, ownerKey
+  `;
+
+  const quotaQuery = sql`
+    SELECT ownerId, period, amount * ${fx.rate} as quotaAmount
+    FROM HubSpotQuota FINAL
+    WHERE ${whereAll(sql, [ownerId ? sql`ownerId = ${ownerId}` : undefined])}
+  `;
+
+  const slippedQuery = sql`
+    SELECT
+      id as dealId, dealName, ownerId, pipelineLabel, stageLabel,
+      toString(toDate(closeDate)) as closeDay,
+      dateDiff('day', toDate(closeDate), today()) as daysSlipped,
+      amountHome * ${fx.rate} as amountReporting,
+      ${category} as effectiveCategory
+    FROM HubSpotDeal FINAL
+    WHERE ${whereAll(sql, [
+      ...dealConditions(sql, { ...filters, isClosed: false }),
+      sql`toDate(closeDate) < today()`,
+      sql`ifNull(upper(forecastCategory), '') != 'OMIT'`,
+    ])}
+    ORDER BY amountReporting DESC, dealId
+    LIMIT ${limit}
+  `;
+
+  const [rows, quotas, slipped] = await Promise.all([
+    client.query.execute<ForecastRow>(forecastQuery).then((r) => r.json() as Promise<ForecastRow[]>),
+    client.query.execute<QuotaRow>(quotaQuery).then((r) => r.json() as Promise<QuotaRow[]>),
+    client.query.execute<SlippedRow>(slippedQuery).then((r) => r.json() as Promise<SlippedRow[]>),
+  ]);
+
+  // Quotas count toward every bucket they overlap, prorated by day: monthly quotas add up to a quarter, and a
+  // month carries its days' share of a quarterly quota
+  const quotaFor = (bucket: Period, owner?: string) => {
+    let total: number | undefined;
+    for (const quota of quotas) {
+      const range = quotaRange(quota.period);
+      if (!range || (owner !== undefined && quota.ownerId !== owner)) continue;
+      const overlap = dayCount(range.start > bucket.start ? range.start : bucket.start, range.end < bucket.end ? range.end : bucket.end);
+      if (overlap > 0) total = (total ?? 0) + (quota.quotaAmount * overlap) / dayCount(range.start, range.end);
+    }
+    return total;
+  };
+
+  const toBucket = (bucket: Period, row: ForecastRow | undefined, owner?: { ownerId: string; ownerName?: string }): HubSpotForecastBucket => {
+    const wonAmount = row?.wonAmount ?? 0;
+    const commitAmount = wonAmount + (row?.openCommit ?? 0);
+    const quota = quotaFor(bucket, owner?.ownerId);
+    return {
+      period: bucket.key,
+      periodStart: bucket.start,
+      periodEnd: bucket.end,
+      ...(owner ? { ownerId: owner.ownerId || undefined, ownerName: owner.ownerName } : {}),
+      openDeals: Number(row?.openDeals ?? 0),
+      pipelineAmount: round2(row?.pipelineAmount ?? 0),
+      weightedAmount: round2(row?.weightedAmount ?? 0),
+      commitAmount: round2(commitAmount),
+      bestCaseAmount: round2(commitAmount + (row?.openBestCase ?? 0)),
+      wonDeals: Number(row?.wonDeals ?? 0),
+      wonAmount: round2(wonAmount),
+      quota: quota === undefined ? undefined : round2(quota),
+      attainment: quota ? round2((wonAmount / quota) * 100) : undefined,
+      gapToQuota: quota === undefined ? undefined : round2(Math.max(quota - wonAmount, 0)),
+      slippedDeals: Number(row?.slippedDeals ?? 0),
+      slippedAmount: round2(row?.slippedAmount ?? 0),
+    };
+  };
+
+  const result: HubSpotForecastBucket[] = [];
+  for (const bucket of buckets) {
+    const bucketRows = rows.filter((row) => row.periodStart === bucket.start);
+    if (!groupByOwner) {
+      result.push(toBucket(bucket, bucketRows[0]));
+      continue;
+    }
+    // Owners with deals in the period, plus owners with only a quota for it
+    const owners = new Map<string, ForecastRow | undefined>();
+    bucketRows.forEach((row) => owners.set(row.ownerKey, row));
+    quotas
+      .filter((quota) => !owners.has(quota.ownerId) && quotaFor(bucket, quota.ownerId) !== undefined)
+      .forEach((quota) => owners.set(quota.ownerId, undefined));
+    owners.forEach((row, owner) => {
+      result.push(toBucket(bucket, row, { ownerId: owner, ownerName: row?.ownerName ?? undefined }));
+    });
+  }
+
+  const sum = (field: keyof HubSpotDealForecastData["totals"]) =>
+    round2(result.reduce((total, bucket) => total + ((bucket[field] as number | undefined) ?? 0), 0));
+  const quotaTotal = result.some((bucket) => bucket.quota !== undefined) ? sum("quota") : undefined;
+  const wonTotal = sum("wonAmount");
+
+  return {
+    period,
+    reportingCurrency: fx.currency,
+    buckets: result,
+    totals: {
+      openDeals: sum("openDeals"),
+      pipelineAmount: sum("pipelineAmount"),
+      weightedAmount: sum("weightedAmount"),
+      commitAmount: sum("commitAmount"),
+      bestCaseAmount: sum("bestCaseAmount"),
+      wonDeals: sum("wonDeals"),
+      wonAmount: wonTotal,
+      quota: quotaTotal,
+      attainment: quotaTotal ? round2((wonTotal / quotaTotal) * 100) : undefined,
+      gapToQuota: quotaTotal === undefined ? undefined : round2(Math.max(quotaTotal - wonTotal, 0)),
+      slippedDeals: sum("slippedDeals"),
+      slippedAmount: sum("slippedAmount"),
+    },
+    slippedDeals: slipped.map(({ closeDay, amountReporting, effectiveCategory, ...deal }) => ({
+      ...deal,
+      ownerId: deal.ownerId ?? undefined,
+      closeDate: closeDay,
+      daysSlipped: Number(deal.daysSlipped),
+      amount: round2(amountReporting),
+      forecastCategory: effectiveCategory,
+    })),
+  };
+});
@@ -0,0 +1,122 @@
+import type { ConsumptionUtil } from "@514labs/moose-lib";
+import { tags } from "typia";
+
+// Composable WHERE / ORDER BY / keyset cursor fragments over the moose `sql` tag, shared by the deal APIs
+
+type SqlTag = ConsumptionUtil["sql"];
+export type SqlFragment = ReturnType<SqlTag>;
+
+/** Deal filters accepted by the deal APIs; every one is optional and they combine with AND */
+export interface HubSpotDealFilterParams {
+  dealId?: string; // Exact deal ID
+  dealName?: string; // Case-insensitive substring of the deal name
+  ownerId?: string;
+  stage?: string; // Stage ID
+  pipeline?: string; // Pipeline ID
+  dealType?: string; // HubSpot deal type (e.g. newbusiness, existingbusiness)
+  currency?: string; // Deal currency
+  companyId?: string; // Deals associated with this company
+  createdFrom?: string & tags.Format<"date">; // Created on or after
+  createdTo?: string & tags.Format<"date">; // Created on or before
+  closeDateFrom?: string & tags.Format<"date">; // Closing on or after
+  closeDateTo?: string & tags.Format<"date">; // Closing on or before
+  minAmount?: number; // Amount at least this, in the reporting currency
+  maxAmount?: number; // Amount at most this, in the reporting currency
+  isWon?: boolean;
+  isClosed?: boolean;
+  archived?: "exclude" | "include" | "only"; // Deleted deals, with their last known data (default: exclude)
+}
+
+type Condition = SqlFragment | undefined;
+
+/** Joins conditions with AND; no conditions matches every row */
+export function whereAll(sql: SqlTag, conditions: Condition[]): SqlFragment {
+  const present = conditions.filter((condition): condition is SqlFragment => condition !== undefined);
+  if (present.length === 0) return sql`1 = 1`;
+  return present.slice(1).reduce((clause, condition) => sql`${clause} AND ${condition}`, present[0]);
+}
+
+/** Conditions for `filters`; `reportingRate` converts amountHome into the currency of minAmount/maxAmount */
+export function dealConditions(sql: SqlTag, filters: HubSpotDealFilterParams, reportingRate = 1): Condition[] {
+  const { archived = "exclude" } = filters;
+  return [
+    archived === "only" ? sql`isDeleted` : archived === "exclude" ? sql`NOT isDeleted` : undefined,
+    // Merge markers carry no deal data: the merged deal's amount lives on in the surviving deal
+    archived === "exclude" ? undefined : sql`mergedIntoId IS NULL`,
+    filters.dealId ? sql`id = ${filters.dealId}` : undefined,
+    filters.dealName ? sql`dealName ILIKE ${`%${filters.dealName}%`}` : undefined,
+    filters.ownerId ? sql`ownerId = ${filters.ownerId}` : undefined,
+    filters.stage ? sql`stage = ${filters.stage}` : undefined,
+    filters.pipeline ? sql`pipeline = ${filters.pipeline}` : undefined,
+    filters.dealType ? sql`dealType = ${filters.dealType}` : undefined,
+    filters.currency ? sql`currency = ${filters.currency}` : undefined,
+    filters.companyId ? sql`has(associatedCompanies, ${filters.companyId})` : undefined,
+    filters.createdFrom ? sql`toDate(createdAt) >= toDate(${filters.createdFrom})` : undefined,
+    filters.createdTo ? sql`toDate(createdAt) <= toDate(${filters.createdTo})` : undefined,
+    filters.closeDateFrom ? sql`toDate(closeDate) >= toDate(${filters.closeDateFrom})` : undefined,
+    filters.closeDateTo ? sql`toDate(closeDate) <= toDate(${filters.closeDateTo})` : undefined,
+    filters.minAmount !== undefined ? sql`amountHome * ${reportingRate} >= ${filters.minAmount}` : undefined,
+    filters.maxAmount !== undefined ? sql`amountHome * ${reportingRate} <= ${filters.maxAmount}` : undefined,
+    filters.isWon !== undefined ? sql`isWon = ${filters.isWon}` : undefined,
+    filters.isClosed !== undefined ? sql`isClosed = ${filters.isClosed}` : undefined,
+  ];
+}
+
+export type DealSort = "lastModified" | "created" | "closeDate" | "amount" | "dealName";
+export type SortOrder = "asc" | "desc";
+
+/** Sort key per option; dates sort as epoch seconds so the key round-trips through a cursor */
+function sortKey(sql: SqlTag, sort: DealSort): SqlFragment {
+  switch (sort) {
+    case "created":
+      return sql`toFloat64(createdAt)`;
+    case "closeDate":
+      return sql`ifNull(toFloat64(closeDate), 0)`; // Deals without a close date sort as oldest
+    case "amount":
+      return sql`amountHome`;
+    case "dealName":
+      return sql`dealName`;
+    default:
+      return sql`toFloat64(lastModifiedAt)`;
+  }
+}
+
+interface DealCursor {
+  sort: DealSort;
+  order: SortOrder;
+  key: number | string; // Sort key of the last row returned
+  id: string; // Tie-breaker
+}
+
+export function encodeDealCursor(cursor: DealCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeDealCursor(cursor: string, sort: DealSort, order: SortOrder): DealCursor {
+  let decoded: DealCursor;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  if (decoded?.sort !== sort || decoded.order !== order || typeof decoded.id !== "string") {
+    throw new Error("Cursor does not match the requested sort; restart without a cursor");
+  }
+  return decoded;
+}
+
+/**
+ * Keyset page over (sort key, id): `key` selects the sort key as `sortKey`,
+ * `orderBy` orders by it, and `after` is the condition for rows following
+ * `cursor` (undefined on the first page).
+ */
+export function dealKeyset(sql: SqlTag, sort: DealSort, order: SortOrder, cursor?: string) {
+  const key = sortKey(sql, sort);
+  const orderBy = order === "asc" ? sql`${key} ASC, id ASC` : sql`${key} DESC, id DESC`;
+  let after: Condition;
+  if (cursor) {
+    const last = decodeDealCursor(cursor, sort, order);
+    after = order === "asc" ? sql`(${key}, id) > (${last.key}, ${last.id})` : sql`(${key}, id) < (${last.key}, ${last.id})`;
+  }
+  return { key, orderBy, after };
+}
@@ -0,0 +1,235 @@
+import { ConsumptionApi } from "@514labs/moose-lib";
+import { tags } from "typia";
+
+// This file provides the deal velocity API (time in stage, stage conversion, funnel) over HubSpotDealStageTransition
+
+interface HubSpotDealVelocityQueryParams {
+  pipeline?: string; // Limit to one pipeline ID
+  startDate?: string & tags.Format<"date">; // First day of stage entries to include (default: 90 days before endDate)
+  endDate?: string & tags.Format<"date">; // Last day of stage entries to include (default: today)
+}
+
+interface HubSpotStageVelocity {
+  stage: string; // Stage ID
+  stageLabel: string; // Human readable stage
+  stageOrder?: number; // Display order within the pipeline
+  isWonStage: boolean;
+  isLostStage: boolean; // Closed, not won; kept out of the funnel progression
+  entered: number; // Deals that entered the stage in the range
+  exited: number; // Of those, deals that have since left it (entered - currentlyInStage)
+  currentlyInStage: number; // Of those, deals still in it
+  avgDaysInStage?: number; // Completed stays only
+  medianDaysInStage?: number;
+  p90DaysInStage?: number;
+  avgDaysInStageCurrent?: number; // Age of stays still open: where deals stall
+  reached: number; // Funnel: deals that reached this stage or a later one (lost stages: entered)
+  funnelConversionRate?: number; // reached / deals in the funnel (%)
+  stepConversionRate?: number; // reached / reached at the previous funnel stage (%)
+}
+
+interface HubSpotStageConversion {
+  fromStage: string;
+  fromStageLabel: string;
+  toStage: string;
+  toStageLabel: string;
+  transitions: number; // Moves from `fromStage` to `toStage` in the range
+  conversionRate: number; // Share of all moves out of `fromStage` (%)
+}
+
+interface HubSpotDealVelocityData {
+  pipeline: string;
+  pipelineLabel: string;
+  startDate: string;
+  endDate: string;
+  deals: number; // Deals with a stage entry in the range
+  stages: HubSpotStageVelocity[]; // Pipeline order
+  conversions: HubSpotStageConversion[];
+}
+
+interface StageRow {
+  pipeline: string;
+  pipelineLabel: string;
+  stage: string;
+  stageLabel: string;
+  stageOrder: number | null;
+  isWonStage: boolean | number;
+  isClosedStage: boolean | number;
+  entered: number | string;
+  exited: number | string;
+  currentlyInStage: number | string;
+  avgDaysInStage: number | null;
+  medianDaysInStage: number | null;
+  p90DaysInStage: number | null;
+  avgDaysInStageCurrent: number | null;
+}
+
+interface ConversionRow {
+  pipeline: string;
+  fromStage: string;
+  fromStageLabel: string;
+  toStage: string;
+  toStageLabel: string;
+  transitions: number | string;
+}
+
+interface FunnelRow {
+  pipeline: string;
+  maxOrder: number;
+  deals: number | string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ClickHouse returns 64-bit counts as strings and empty averages as null/NaN
+const toNumber = (value: number | string | null | undefined): number | undefined => {
+  if (value === null || value === undefined) return undefined;
+  const n = Number(value);
+  return isFinite(n) ? n : undefined;
+};
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part * 10000) / whole) / 100 : undefined);
+
+// HubSpot Deal Velocity API
+export const HubSpotDealVelocityApi = new ConsumptionApi<
+  HubSpotDealVelocityQueryParams,
+  HubSpotDealVelocityData[]
+>("hubspot-deal-velocity", async (
+  { pipeline = "", startDate, endDate },
+  { client, sql },
+): Promise<HubSpotDealVelocityData[]> => {
+  const end = endDate ?? new Date().toISOString().slice(0, 10);
+  const start = startDate ?? new Date(Date.parse(end) - 90 * DAY_MS).toISOString().slice(0, 10);
+
+  // Stage entries in the range, for live (not deleted or merged) deals; an empty pipeline matches all
+  const stageQuery = sql`
+    SELECT
+      pipeline,
+      any(pipelineLabel) as pipelineLabel,
+      toStage as stage,
+      any(toStageLabel) as stageLabel,
+      min(toStageOrder) as stageOrder,
+      max(isWonStage) as isWonStage,
+      max(isClosedStage) as isClosedStage,
+      uniqExact(dealId) as entered,
+      -- Deals, not stays: a deal that re-entered the stage counts once, as current if it still is in it
+      uniqExact(dealId) - uniqExactIf(dealId, isCurrent) as exited,
+      uniqExactIf(dealId, isCurrent) as currentlyInStage,
+      round(avgIf(secondsInStage, NOT isCurrent) / 86400, 2) as avgDaysInStage,
+      round(quantileIf(0.5)(secondsInStage, NOT isCurrent) / 86400, 2) as medianDaysInStage,
+      round(quantileIf(0.9)(secondsInStage, NOT isCurrent) / 86400, 2) as p90DaysInStage,
+      round(avgIf(dateDiff('second', enteredAt, now()), isCurrent) / 86400, 2) as avgDaysInStageCurrent
+    FROM HubSpotDealStageTransition FINAL
+    WHERE toDate(enteredAt) BETWEEN toDate(${start}) AND toDate(${end})
+      AND (${pipeline} = '' OR pipeline = ${pipeline})
+      AND dealId NOT IN (SELECT id FROM HubSpotDeal FINAL WHERE isDeleted)
+    GROUP BY pipeline, toStage
+    ORDER BY pipeline, stageOrder, stage
+  `;
+
+  const conversionQuery = sql`
+    SELECT
+      pipeline,
+      fromStage,
+      any(fromStageLabel) as fromStageLabel,
+      toStage,
+      any(toStageLabel) as toStageLabel,
+      count(*) as transitions
+    FROM HubSpotDealStageTransition FINAL
+    WHERE fromStage IS NOT NULL
+      AND toDate(enteredAt) BETWEEN toDate(${start}) AND toDate(${end})
+      AND (${pipeline} = '' OR pipeline = ${pipeline})
+      AND dealId NOT IN (SELECT id FROM HubSpotDeal FINAL WHERE isDeleted)
+    GROUP BY pipeline, fromStage, toStage
+    ORDER BY pipeline, transitions DESC
+  `;
+
+  // Furthest non-lost stage each deal reached; deals only seen entering a lost stage count at order 0
+  const funnelQuery = sql`
+    SELECT pipeline, maxOrder, count(*) as deals
+    FROM (
+      SELECT pipeline, dealId, maxIf(coalesce(toStageOrder, 0), NOT (isClosedStage AND NOT isWonStage)) as maxOrder
+      FROM HubSpotDealStageTransition FINAL
+      WHERE toDate(enteredAt) BETWEEN toDate(${start}) AND toDate(${end})
+        AND (${pipeline} = '' OR pipeline = ${pipeline})
+        AND dealId NOT IN (SELECT id FROM HubSpotDeal FINAL WHERE isDeleted)
+      GROUP BY pipeline, dealId
+    )
+    GROUP BY pipeline, maxOrder
+  `;
+
+  const [stageRows, conversionRows, funnelRows] = await Promise.all([
+    client.query.execute<StageRow>(stageQuery).then((r) => r.json() as Promise<StageRow[]>),
+    client.query.execute<ConversionRow>(conversionQuery).then((r) => r.json() as Promise<ConversionRow[]>),
+    client.query.execute<FunnelRow>(funnelQuery).then((r) => r.json() as Promise<FunnelRow[]>),
+  ]);
+
+  const pipelines = new Map<string, HubSpotDealVelocityData>();
+  for (const row of stageRows) {
+    if (!pipelines.has(row.pipeline)) {
+      pipelines.set(row.pipeline, {
+        pipeline: row.pipeline,
+        pipelineLabel: row.pipelineLabel,
+        startDate: start,
+        endDate: end,
+        deals: 0,
+        stages: [],
+        conversions: [],
+      });
+    }
+    const isClosed = Boolean(Number(row.isClosedStage));
+    const isWon = Boolean(Number(row.isWonStage));
+    const entered = toNumber(row.entered) ?? 0;
+    pipelines.get(row.pipeline)!.stages.push({
+      stage: row.stage,
+      stageLabel: row.stageLabel,
+      stageOrder: toNumber(row.stageOrder),
+      isWonStage: isWon,
+      isLostStage: isClosed && !isWon,
+      entered,
+      exited: toNumber(row.exited) ?? 0,
+      currentlyInStage: toNumber(row.currentlyInStage) ?? 0,
+      avgDaysInStage: toNumber(row.avgDaysInStage),
+      medianDaysInStage: toNumber(row.medianDaysInStage),
+      p90DaysInStage: toNumber(row.p90DaysInStage),
+      avgDaysInStageCurrent: toNumber(row.avgDaysInStageCurrent),
+      reached: entered,
+    });
+  }
+
+  // Funnel: a deal counts for every non-lost stage up to the furthest one it reached
+  for (const data of Array.from(pipelines.values())) {
+    const reachedOrders = funnelRows
+      .filter((row) => row.pipeline === data.pipeline)
+      .map((row) => ({ maxOrder: Number(row.maxOrder), deals: toNumber(row.deals) ?? 0 }));
+    data.deals = reachedOrders.reduce((sum, row) => sum + row.deals, 0);
+
+    let previous: number | undefined;
+    for (const stage of data.stages) {
+      if (stage.isLostStage) continue;
+      const order = stage.stageOrder ?? 0;
+      stage.reached = reachedOrders.filter((row) => row.maxOrder >= order).reduce((sum, row) => sum + row.deals, 0);
+      stage.funnelConversionRate = percent(stage.reached, data.deals);
+      stage.stepConversionRate = previous === undefined ? undefined : percent(stage.reached, previous);
+      previous = stage.reached;
+    }
+
+    const conversions = conversionRows.filter((row) => row.pipeline === data.pipeline);
+    const exitsByStage = new Map<string, number>();
+    for (const row of conversions) {
+      exitsByStage.set(row.fromStage, (exitsByStage.get(row.fromStage) ?? 0) + (toNumber(row.transitions) ?? 0));
+    }
+    data.conversions = conversions.map((row) => {
+      const transitions = toNumber(row.transitions) ?? 0;
+      return {
+        fromStage: row.fromStage,
+        fromStageLabel: row.fromStageLabel,
+        toStage: row.toStage,
+        toStageLabel: row.toStageLabel,
+        transitions,
+        conversionRate: percent(transitions, exitsByStage.get(row.fromStage) ?? 0) ?? 0,
+      };
+    });
+  }
+
+  return Array.from(pipelines.values());
+});
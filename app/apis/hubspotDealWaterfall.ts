@@ -0,0 +1,250 @@
+import { ConsumptionApi } from "@514labs/moose-lib";
+import { tags } from "typia";
+import { resolveReportingCurrency } from "./hubspotReportingCurrency";
+
+// This file provides the pipeline waterfall API: how the open pipeline moved between two HubSpotDealSnapshot days
+
+interface HubSpotDealWaterfallQueryParams {
+  fromDate?: string & tags.Format<"date">; // Start of the comparison (latest snapshot on or before; default: 7 days before toDate)
+  toDate?: string & tags.Format<"date">; // End of the comparison (latest snapshot on or before; default: today)
+  closeDateFrom?: string & tags.Format<"date">; // Forecast period start (default: first day of toDate's quarter)
+  closeDateTo?: string & tags.Format<"date">; // Forecast period end (default: last day of toDate's quarter)
+  pipeline?: string; // Limit to one pipeline ID
+  ownerId?: string; // Limit to one owner
+  reportingCurrency?: string; // Currency of the amounts (default: the home currency)
+  limit?: number; // Maximum deal movements listed (largest first)
+}
+
+type WaterfallCategory =
+  | "new" // Entered the period's pipeline without being an open deal before (created or reopened)
+  | "pulledIn" // Open deal whose close date moved into the period
+  | "increased" // Stayed in the pipeline with a higher amount
+  | "decreased" // Stayed in the pipeline with a lower amount
+  | "pushedOut" // Still open, close date moved out of the period
+  | "won"
+  | "lost"
+  | "removed" // Deleted, merged away, or moved out of the filtered pipeline/owner
+  | "unchanged"; // Same amount (the forecast may still move with the stage)
+
+interface WaterfallTotals {
+  deals: number;
+  amount: number;
+  forecastAmount: number;
+}
+
+// amount and forecastAmount are the signed change the category made to the pipeline
+interface WaterfallStep extends WaterfallTotals {
+  category: WaterfallCategory;
+}
+
+interface WaterfallDealMovement {
+  dealId: string;
+  dealName: string;
+  ownerId?: string;
+  pipelineLabel: string;
+  category: WaterfallCategory;
+  amountChange: number;
+  startAmount?: number;
+  endAmount?: number;
+  startStage?: string;
+  endStage?: string;
+  startCloseDate?: string;
+  endCloseDate?: string;
+}
+
+interface HubSpotDealWaterfallData {
+  fromSnapshot: string; // Snapshot days actually compared
+  toSnapshot: string;
+  closeDateFrom: string;
+  closeDateTo: string;
+  reportingCurrency: string; // Currency of every amount below
+  startingPipeline: WaterfallTotals; // Open deals closing in the period, on fromSnapshot
+  steps: WaterfallStep[]; // starting + Σ steps = ending
+  endingPipeline: WaterfallTotals;
+  movements: WaterfallDealMovement[];
+}
+
+interface WaterfallRow {
+  dealId: string;
+  dealName: string;
+  ownerId: string | null;
+  pipelineLabel: string;
+  inStartSnapshot: number | boolean;
+  inEndSnapshot: number | boolean;
+  startInPipeline: number | boolean;
+  endInPipeline: number | boolean;
+  startClosed: number | boolean | null;
+  endClosed: number | boolean | null;
+  endWon: number | boolean | null;
+  startAmount: number | null;
+  endAmount: number | null;
+  startForecast: number | null;
+  endForecast: number | null;
+  startStage: string | null;
+  endStage: string | null;
+  startCloseDate: string | null;
+  endCloseDate: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STEP_ORDER: WaterfallCategory[] = ["new", "pulledIn", "increased", "decreased", "pushedOut", "won", "lost", "removed", "unchanged"];
+
+const flag = (value: number | boolean | null) => Boolean(Number(value));
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function classify(row: WaterfallRow): WaterfallCategory {
+  if (flag(row.startInPipeline)) {
+    if (!flag(row.inEndSnapshot)) return "removed";
+    if (flag(row.endWon)) return "won";
+    if (flag(row.endClosed)) return "lost";
+    if (!flag(row.endInPipeline)) return "pushedOut";
+    const delta = (row.endAmount ?? 0) - (row.startAmount ?? 0);
+    return delta > 0 ? "increased" : delta < 0 ? "decreased" : "unchanged";
+  }
+  return flag(row.inStartSnapshot) && !flag(row.startClosed) ? "pulledIn" : "new";
+}
+
+// HubSpot Deal Waterfall API
+export const HubSpotDealWaterfallApi = new ConsumptionApi<
+  HubSpotDealWaterfallQueryParams,
+  HubSpotDealWaterfallData
+>("hubspot-deal-waterfall", async (
+  { fromDate, toDate, closeDateFrom, closeDateTo, pipeline = "", ownerId = "", reportingCurrency, limit = 50 },
+  { client, sql },
+): Promise<HubSpotDealWaterfallData> => {
+  const end = toDate ?? new Date().toISOString().slice(0, 10);
+  const start = fromDate ?? new Date(Date.parse(end) - 7 * DAY_MS).toISOString().slice(0, 10);
+  const endDay = new Date(end);
+  const quarterMonth = Math.floor(endDay.getUTCMonth() / 3) * 3;
+  const periodStart = closeDateFrom ?? new Date(Date.UTC(endDay.getUTCFullYear(), quarterMonth, 1)).toISOString().slice(0, 10);
+  const periodEnd = closeDateTo ?? new Date(Date.UTC(endDay.getUTCFullYear(), quarterMonth + 3, 0)).toISOString().slice(0, 10);
+
+  // Latest snapshot day on or before each date (1970-01-01 when there is none)
+  const snapshotQuery = sql`
+    SELECT
+      toString(maxIf(toDate(snapshotDate), toDate(snapshotDate) <= toDate(${start}))) as fromSnapshot,
+      toString(maxIf(toDate(snapshotDate), toDate(snapshotDate) <= toDate(${end}))) as toSnapshot
+    FROM HubSpotDealSnapshot
+  `;
+  const [snapshots] = await client.query
+    .execute<{ fromSnapshot: string; toSnapshot: string }>(snapshotQuery)
+    .then((r) => r.json() as Promise<{ fromSnapshot: string; toSnapshot: string }[]>);
+  if (!snapshots || snapshots.fromSnapshot === "1970-01-01") {
+    throw new Error(`No deal snapshot on or before ${start}; run the hubspotDealSnapshot workflow first`);
+  }
+  const { fromSnapshot, toSnapshot } = snapshots;
+  // Each day's home currency amounts (at that day's rates), converted at today's reporting rate
+  const fx = await resolveReportingCurrency({ client, sql }, reportingCurrency);
+
+  // Deals in the period's open pipeline on either day, with both days' state side by side
+  const waterfallQuery = sql`
+    SELECT
+      coalesce(b.dealId, a.dealId) as dealId,
+      coalesce(b.dealName, a.dealName) as dealName,
+      coalesce(b.ownerId, a.ownerId) as ownerId,
+      coalesce(b.pipelineLabel, a.pipelineLabel) as pipelineLabel,
+      a.dealId IS NOT NULL as inStartSnapshot,
+      b.dealId IS NOT NULL as inEndSnapshot,
+      ifNull(a.inPipeline, 0) as startInPipeline,
+      ifNull(b.inPipeline, 0) as endInPipeline,
+      a.isClosed as startClosed,
+      b.isClosed as endClosed,
+      b.isWon as endWon,
+      a.amountHome * ${fx.rate} as startAmount,
+      b.amountHome * ${fx.rate} as endAmount,
+      a.forecastAmountHome * ${fx.rate} as startForecast,
+      b.forecastAmountHome * ${fx.rate} as endForecast,
+      a.stageLabel as startStage,
+      b.stageLabel as endStage,
+      toString(toDate(a.closeDate)) as startCloseDate,
+      toString(toDate(b.closeDate)) as endCloseDate
+    FROM (
+      SELECT *, ifNull(NOT isClosed AND toDate(closeDate) BETWEEN toDate(${periodStart}) AND toDate(${periodEnd}), 0) as inPipeline
+      FROM HubSpotDealSnapshot FINAL
+      WHERE toDate(snapshotDate) = toDate(${fromSnapshot})
+        AND (${pipeline} = '' OR pipeline = ${pipeline})
+        AND (${ownerId} = '' OR ownerId = ${ownerId})
+    ) a
+    FULL OUTER JOIN (
+      SELECT *, ifNull(NOT isClosed AND toDate(closeDate) BETWEEN toDate(${periodStart}) AND toDate(${periodEnd}), 0) as inPipeline
+      FROM HubSpotDealSnapshot FINAL
+      WHERE toDate(snapshotDate) = toDate(${toSnapshot})
+        AND (${pipeline} = '' OR pipeline = ${pipeline})
+        AND (${ownerId} = '' OR ownerId = ${ownerId})
+    ) b ON a.dealId = b.dealId
+    WHERE ifNull(a.inPipeline, 0) OR ifNull(b.inPipeline, 0)
+    SETTINGS join_use_nulls = 1
+  `;
+  const rows = await client.query
+    .execute<WaterfallRow>(waterfallQuery)
+    .then((r) => r.json() as Promise<WaterfallRow[]>);
+
+  const startingPipeline: WaterfallTotals = { deals: 0, amount: 0, forecastAmount: 0 };
+  const endingPipeline: WaterfallTotals = { deals: 0, amount: 0, forecastAmount: 0 };
+  const steps = new Map<WaterfallCategory, WaterfallStep>(
+    STEP_ORDER.map((category) => [category, { category, deals: 0, amount: 0, forecastAmount: 0 }]),
+  );
+  const movements: WaterfallDealMovement[] = [];
+
+  for (const row of rows) {
+    const inStart = flag(row.startInPipeline);
+    const inEnd = flag(row.endInPipeline);
+    // Each side counts only while the deal is in that day's pipeline
+    const startAmount = inStart ? row.startAmount ?? 0 : 0;
+    const endAmount = inEnd ? row.endAmount ?? 0 : 0;
+    const startForecast = inStart ? row.startForecast ?? 0 : 0;
+    const endForecast = inEnd ? row.endForecast ?? 0 : 0;
+
+    if (inStart) {
+      startingPipeline.deals++;
+      startingPipeline.amount += startAmount;
+      startingPipeline.forecastAmount += startForecast;
+    }
+    if (inEnd) {
+      endingPipeline.deals++;
+      endingPipeline.amount += endAmount;
+      endingPipeline.forecastAmount += endForecast;
+    }
+
+    const category = classify(row);
+    const step = steps.get(category)!;
+    step.deals++;
+    step.amount += endAmount - startAmount;
+    step.forecastAmount += endForecast - startForecast;
+
+    if (category !== "unchanged") {
+      movements.push({
+        dealId: row.dealId,
+        dealName: row.dealName,
+        ownerId: row.ownerId ?? undefined,
+        pipelineLabel: row.pipelineLabel,
+        category,
+        amountChange: round2(endAmount - startAmount),
+        startAmount: row.startAmount === null ? undefined : round2(row.startAmount),
+        endAmount: row.endAmount === null ? undefined : round2(row.endAmount),
+        startStage: row.startStage ?? undefined,
+        endStage: row.endStage ?? undefined,
+        startCloseDate: row.startCloseDate ?? undefined,
+        endCloseDate: row.endCloseDate ?? undefined,
+      });
+    }
+  }
+
+  const rounded = (totals: WaterfallTotals) => ({ ...totals, amount: round2(totals.amount), forecastAmount: round2(totals.forecastAmount) });
+  return {
+    fromSnapshot,
+    toSnapshot,
+    closeDateFrom: periodStart,
+    closeDateTo: periodEnd,
+    reportingCurrency: fx.currency,
+    startingPipeline: rounded(startingPipeline),
+    steps: STEP_ORDER.map((category) => {
+      const step = steps.get(category)!;
+      return { ...rounded(step), category };
+    }),
+    endingPipeline: rounded(endingPipeline),
+    movements: movements
+      .sort((x, y) => Math.abs(y.amountChange) - Math.abs(x.amountChange))
+      .slice(0, limit),
+  };
+});
@@ -1,18 +1,61 @@
-import { ConsumptionApi } from "@514labs/moose-lib";
+import { ConsumptionApi, type ConsumptionUtil } from "@514labs/moose-lib";
 import { tags } from "typia";
+import { resolveReportingCurrency } from "./hubspotReportingCurrency";
+import {
+  dealConditions,
+  dealKeyset,
+  encodeDealCursor,
+  whereAll,
+  type DealSort,
+  type HubSpotDealFilterParams,
+  type SortOrder,
+} from "./hubspotDealQuery";
 
 // This file provides consumption APIs for HubSpot deals analytics
 
-interface HubSpotDealsAnalyticsQueryParams {
-  groupBy?: "stage" | "pipeline" | "month"; // How to group the results
+// Company and contact groupings read the deal's primary company/contact from HubSpotDealEnriched
+type HubSpotDealGroupBy =
+  | "stage"
+  | "pipeline"
+  | "month"
+  | "owner"
+  | "industry"
+  | "country"
+  | "employeeBand"
+  | "revenueBand"
+  | "lifecycleStage";
+
+/** HubSpotDealEnriched column for a company/contact grouping; undefined for the others */
+function enrichedColumn(sql: ConsumptionUtil["sql"], groupBy: HubSpotDealGroupBy) {
+  switch (groupBy) {
+    case "industry":
+      return sql`enriched.industry`;
+    case "country":
+      return sql`enriched.country`;
+    case "employeeBand":
+      return sql`enriched.employeeBand`;
+    case "revenueBand":
+      return sql`enriched.revenueBand`;
+    case "lifecycleStage":
+      return sql`enriched.contactLifecycleStage`;
+    default:
+      return undefined;
+  }
+}
+
+interface HubSpotDealsAnalyticsQueryParams extends HubSpotDealFilterParams {
+  groupBy?: HubSpotDealGroupBy; // How to group the results ("owner" is a won-amount leaderboard)
+  sort?: "totalAmount" | "wonAmount" | "dealCount" | "winRate" | "group"; // Default: per groupBy (month: newest first)
+  order?: "asc" | "desc"; // Default: desc
   limit?: number; // Maximum number of results
-  includeArchived?: boolean; // Include archived deals
-  currency?: string; // Filter by currency
+  includeArchived?: boolean; // Same as archived=include
+  reportingCurrency?: string; // Currency of the amounts (default: the currency filter, else the home currency)
 }
 
 interface HubSpotDealAnalyticsData {
   groupField: string; // The grouping field value
   groupLabel: string; // Human readable label
+  reportingCurrency: string; // Currency of the amounts
   dealCount: number; // Number of deals
   totalAmount: number; // Total deal value
   avgAmount: number; // Average deal size
@@ -22,19 +65,21 @@ interface HubSpotDealAnalyticsData {
   avgDaysToClose?: number; // Average days to close
 }
 
-interface HubSpotDealLookupQueryParams {
-  dealId?: string; // Look up by deal ID
-  dealName?: string; // Search by deal name
-  ownerId?: string; // Filter by owner
-  stage?: string; // Filter by stage
-  limit?: number; // Maximum results
+interface HubSpotDealLookupQueryParams extends HubSpotDealFilterParams {
+  sort?: DealSort; // Default: lastModified
+  order?: SortOrder; // Default: desc
+  cursor?: string; // `nextCursor` of the previous page
+  reportingCurrency?: string; // Currency of reportingAmount and minAmount/maxAmount (default: the home currency)
+  limit?: number; // Page size
 }
 
 interface HubSpotDealData {
   id: string;
   dealName: string;
-  amount: number;
+  amount: number; // In the deal's currency
   currency: string;
+  reportingAmount: number; // Amount in reportingCurrency
+  reportingCurrency: string;
   stage: string;
   stageLabel: string;
   pipeline: string;
@@ -42,6 +87,7 @@ interface HubSpotDealData {
   closeDate?: string;
   createdAt: string;
   ownerId?: string;
+  ownerName?: string; // From the HubSpotOwner dimension
   isWon: boolean;
   isClosed: boolean;
   contactCount: number;
@@ -49,265 +95,133 @@ interface HubSpotDealData {
   associatedCompanies: string[];
 }
 
+interface HubSpotDealLookupPage {
+  deals: HubSpotDealData[];
+  nextCursor?: string; // Pass as `cursor` for the next page; absent on the last page
+}
+
 // HubSpot Deals Analytics API
 export const HubSpotDealsAnalyticsApi = new ConsumptionApi<
   HubSpotDealsAnalyticsQueryParams,
   HubSpotDealAnalyticsData[]
 >("hubspot-deals-analytics", async (
-  { groupBy = "stage", limit = 10, includeArchived = false, currency },
+  { groupBy = "stage", sort, order = "desc", limit = 10, includeArchived = false, reportingCurrency, ...filters },
   { client, sql },
 ) => {
+  // Amounts are summed in the home currency, then converted
+  const fx = await resolveReportingCurrency({ client, sql }, reportingCurrency ?? filters.currency);
+  const where = whereAll(sql, dealConditions(sql, { ...filters, archived: includeArchived ? "include" : filters.archived }, fx.rate));
 
+  // Grouping expressions; the owner leaderboard is labeled from the HubSpotOwner dimension
+  const enriched = enrichedColumn(sql, groupBy);
+  const grouping = enriched
+    ? {
+        // Deals without a (synced) primary company or contact group under "Unknown"
+        field: sql`if(${enriched} = '', 'Unknown', ${enriched})`,
+        label: sql`if(${enriched} = '', 'Unknown', ${enriched})`,
+        join: sql`LEFT JOIN (
+          SELECT dealId, industry, country, employeeBand, revenueBand, contactLifecycleStage
+          FROM HubSpotDealEnriched FINAL
+        ) AS enriched ON id = enriched.dealId`,
+        defaultSort: "totalAmount",
+      }
+    : groupBy === "pipeline"
+      ? { field: sql`pipeline`, label: sql`pipelineLabel`, join: sql``, defaultSort: "totalAmount" }
+      : groupBy === "month"
+        ? { field: sql`toYYYYMM(createdAt)`, label: sql`formatDateTime(createdAt, '%Y-%m')`, join: sql``, defaultSort: "group" }
+        : groupBy === "owner"
+          ? {
+              field: sql`coalesce(ownerId, '')`,
+              label: sql`if(owners.fullName = '', coalesce(ownerId, 'Unassigned'), owners.fullName)`,
+              join: sql`LEFT JOIN (SELECT id AS ownerKey, fullName FROM HubSpotOwner FINAL) AS owners ON ownerId = owners.ownerKey`,
+              defaultSort: "wonAmount",
+            }
+          : { field: sql`stage`, label: sql`stageLabel`, join: sql``, defaultSort: "totalAmount" };
 
-  // Build query based on groupBy parameter
-  let query;
-  
-  if (groupBy === "pipeline") {
-    if (currency) {
-      query = sql`
-        SELECT 
-          pipeline as groupField,
-          pipelineLabel as groupLabel,
-          count(*) as dealCount,
-          sum(amount) as totalAmount,
-          avg(amount) as avgAmount,
-          sum(case when isWon then amount else 0 end) as wonAmount,
-          count(case when isWon then 1 end) as wonCount,
-          round(count(case when isWon then 1 end) * 100.0 / count(*), 2) as winRate,
-          avg(daysToClose) as avgDaysToClose
-        FROM HubSpotDeal FINAL
-        WHERE isArchived = ${includeArchived} AND currency = ${currency}
-        GROUP BY pipeline, pipelineLabel
-        ORDER BY totalAmount DESC
-        LIMIT ${limit}
-      `;
-    } else {
-      query = sql`
-        SELECT 
-          pipeline as groupField,
-          pipelineLabel as groupLabel,
-          count(*) as dealCount,
-          sum(amount) as totalAmount,
-          avg(amount) as avgAmount,
-          sum(case when isWon then amount else 0 end) as wonAmount,
-          count(case when isWon then 1 end) as wonCount,
-          round(count(case when isWon then 1 end) * 100.0 / count(*), 2) as winRate,
-          avg(daysToClose) as avgDaysToClose
-        FROM HubSpotDeal FINAL
-        WHERE isArchived = ${includeArchived}
-        GROUP BY pipeline, pipelineLabel
-        ORDER BY totalAmount DESC
-        LIMIT ${limit}
-      `;
-    }
-  } else if (groupBy === "month") {
-    if (currency) {
-      query = sql`
-        SELECT 
-          toYYYYMM(createdAt) as groupField,
-          formatDateTime(createdAt, '%Y-%m') as groupLabel,
-          count(*) as dealCount,
-          sum(amount) as totalAmount,
-          avg(amount) as avgAmount,
-          sum(case when isWon then amount else 0 end) as wonAmount,
-          count(case when isWon then 1 end) as wonCount,
-          round(count(case when isWon then 1 end) * 100.0 / count(*), 2) as winRate,
-          avg(daysToClose) as avgDaysToClose
-        FROM HubSpotDeal FINAL
-        WHERE isArchived = ${includeArchived} AND currency = ${currency}
-        GROUP BY toYYYYMM(createdAt), formatDateTime(createdAt, '%Y-%m')
-        ORDER BY groupField DESC
-        LIMIT ${limit}
-      `;
-    } else {
-      query = sql`
-        SELECT 
-          toYYYYMM(createdAt) as groupField,
-          formatDateTime(createdAt, '%Y-%m') as groupLabel,
-          count(*) as dealCount,
-          sum(amount) as totalAmount,
-          avg(amount) as avgAmount,
-          sum(case when isWon then amount else 0 end) as wonAmount,
-          count(case when isWon then 1 end) as wonCount,
-          round(count(case when isWon then 1 end) * 100.0 / count(*), 2) as winRate,
-          avg(daysToClose) as avgDaysToClose
-        FROM HubSpotDeal FINAL
-        WHERE isArchived = ${includeArchived}
-        GROUP BY toYYYYMM(createdAt), formatDateTime(createdAt, '%Y-%m')
-        ORDER BY groupField DESC
-        LIMIT ${limit}
-      `;
+  const direction = order === "asc" ? sql`ASC` : sql`DESC`;
+  const orderBy = (() => {
+    switch (sort ?? grouping.defaultSort) {
+      case "group":
+        return sql`groupField ${direction}`;
+      case "wonAmount":
+        return sql`wonAmount ${direction}, totalAmount ${direction}`;
+      case "dealCount":
+        return sql`dealCount ${direction}`;
+      case "winRate":
+        return sql`winRate ${direction}`;
+      default:
+        return sql`totalAmount ${direction}`;
     }
-  } else {
-    if (currency) {
-      query = sql`
-        SELECT 
-          stage as groupField,
-          stageLabel as groupLabel,
-          count(*) as dealCount,
-          sum(amount) as totalAmount,
-          avg(amount) as avgAmount,
-          sum(case when isWon then amount else 0 end) as wonAmount,
-          count(case when isWon then 1 end) as wonCount,
-          round(count(case when isWon then 1 end) * 100.0 / count(*), 2) as winRate,
-          avg(daysToClose) as avgDaysToClose
-        FROM HubSpotDeal FINAL
-        WHERE isArchived = ${includeArchived} AND currency = ${currency}
-        GROUP BY stage, stageLabel
-        ORDER BY totalAmount DESC
-        LIMIT ${limit}
-      `;
-    } else {
-      query = sql`
-        SELECT 
-          stage as groupField,
-          stageLabel as groupLabel,
-          count(*) as dealCount,
-          sum(amount) as totalAmount,
-          avg(amount) as avgAmount,
-          sum(case when isWon then amount else 0 end) as wonAmount,
-          count(case when isWon then 1 end) as wonCount,
-          round(count(case when isWon then 1 end) * 100.0 / count(*), 2) as winRate,
-          avg(daysToClose) as avgDaysToClose
-        FROM HubSpotDeal FINAL
-        WHERE isArchived = ${includeArchived}
-        GROUP BY stage, stageLabel
-        ORDER BY totalAmount DESC
-        LIMIT ${limit}
-      `;
-    }
-  }
+  })();
+
+  const query = sql`
+    SELECT 
+      ${grouping.field} as groupField,
+      ${grouping.label} as groupLabel,
+      count(*) as dealCount,
+      round(sum(amountHome) * ${fx.rate}, 2) as totalAmount,
+      round(avg(amountHome) * ${fx.rate}, 2) as avgAmount,
+      round(sum(case when isWon then amountHome else 0 end) * ${fx.rate}, 2) as wonAmount,
+      count(case when isWon then 1 end) as wonCount,
+      round(count(case when isWon then 1 end) * 100.0 / count(*), 2) as winRate,
+      avg(daysToClose) as avgDaysToClose
+    FROM HubSpotDeal FINAL
+    ${grouping.join}
+    WHERE ${where}
+    GROUP BY groupField, groupLabel
+    ORDER BY ${orderBy}
+    LIMIT ${limit}
+  `;
 
   const data = await client.query.execute<HubSpotDealAnalyticsData>(query);
   const result: HubSpotDealAnalyticsData[] = await data.json();
 
-  return result;
+  return result.map((row) => ({ ...row, reportingCurrency: fx.currency }));
 });
 
 // HubSpot Deal Lookup API
 export const HubSpotDealLookupApi = new ConsumptionApi<
   HubSpotDealLookupQueryParams,
-  HubSpotDealData[]
+  HubSpotDealLookupPage
 >("hubspot-deal-lookup", async (
-  { dealId, dealName, ownerId, stage, limit = 20 },
+  { sort = "lastModified", order = "desc", cursor, reportingCurrency, limit = 20, ...filters },
   { client, sql },
-) => {
-
-
-  // Build query with dynamic WHERE conditions
-  let query;
-  
-  if (dealId) {
-    query = sql`
-      SELECT 
-        id, dealName, amount, currency, stage, stageLabel, pipeline, pipelineLabel,
-        closeDate, createdAt, ownerId, isWon, isClosed, contactCount,
-        associatedContacts, associatedCompanies
-      FROM HubSpotDeal FINAL
-      WHERE id = ${dealId}
-      ORDER BY lastModifiedAt DESC
-      LIMIT ${limit}
-    `;
-  } else if (dealName && ownerId && stage) {
-    query = sql`
-      SELECT 
-        id, dealName, amount, currency, stage, stageLabel, pipeline, pipelineLabel,
-        closeDate, createdAt, ownerId, isWon, isClosed, contactCount,
-        associatedContacts, associatedCompanies
-      FROM HubSpotDeal FINAL
-      WHERE dealName ILIKE ${`%${dealName}%`} AND ownerId = ${ownerId} AND stage = ${stage}
-      ORDER BY lastModifiedAt DESC
-      LIMIT ${limit}
-    `;
-  } else if (dealName && ownerId) {
-    query = sql`
-      SELECT 
-        id, dealName, amount, currency, stage, stageLabel, pipeline, pipelineLabel,
-        closeDate, createdAt, ownerId, isWon, isClosed, contactCount,
-        associatedContacts, associatedCompanies
-      FROM HubSpotDeal FINAL
-      WHERE dealName ILIKE ${`%${dealName}%`} AND ownerId = ${ownerId}
-      ORDER BY lastModifiedAt DESC
-      LIMIT ${limit}
-    `;
-  } else if (dealName && stage) {
-    query = sql`
-      SELECT 
-        id, dealName, amount, currency, stage, stageLabel, pipeline, pipelineLabel,
-        closeDate, createdAt, ownerId, isWon, isClosed, contactCount,
-        associatedContacts, associatedCompanies
-      FROM HubSpotDeal FINAL
-      WHERE dealName ILIKE ${`%${dealName}%`} AND stage = ${stage}
-      ORDER BY lastModifiedAt DESC
-      LIMIT ${limit}
-    `;
-  } else if (dealName) {
-    query = sql`
-      SELECT 
-        id, dealName, amount, currency, stage, stageLabel, pipeline, pipelineLabel,
-        closeDate, createdAt, ownerId, isWon, isClosed, contactCount,
-        associatedContacts, associatedCompanies
-      FROM HubSpotDeal FINAL
-      WHERE dealName ILIKE ${`%${dealName}%`}
-      ORDER BY lastModifiedAt DESC
-      LIMIT ${limit}
-    `;
-  } else if (ownerId && stage) {
-    query = sql`
-      SELECT 
-        id, dealName, amount, currency, stage, stageLabel, pipeline, pipelineLabel,
-        closeDate, createdAt, ownerId, isWon, isClosed, contactCount,
-        associatedContacts, associatedCompanies
-      FROM HubSpotDeal FINAL
-      WHERE ownerId = ${ownerId} AND stage = ${stage}
-      ORDER BY lastModifiedAt DESC
-      LIMIT ${limit}
-    `;
-  } else if (ownerId) {
-    query = sql`
-      SELECT 
-        id, dealName, amount, currency, stage, stageLabel, pipeline, pipelineLabel,
-        closeDate, createdAt, ownerId, isWon, isClosed, contactCount,
-        associatedContacts, associatedCompanies
-      FROM HubSpotDeal FINAL
-      WHERE ownerId = ${ownerId}
-      ORDER BY lastModifiedAt DESC
-      LIMIT ${limit}
-    `;
-  } else if (stage) {
-    query = sql`
-      SELECT 
-        id, dealName, amount, currency, stage, stageLabel, pipeline, pipelineLabel,
-        closeDate, createdAt, ownerId, isWon, isClosed, contactCount,
-        associatedContacts, associatedCompanies
-      FROM HubSpotDeal FINAL
-      WHERE stage = ${stage}
-      ORDER BY lastModifiedAt DESC
-      LIMIT ${limit}
-    `;
-  } else {
-    query = sql`
-      SELECT 
-        id, dealName, amount, currency, stage, stageLabel, pipeline, pipelineLabel,
-        closeDate, createdAt, ownerId, isWon, isClosed, contactCount,
-        associatedContacts, associatedCompanies
-      FROM HubSpotDeal FINAL
-      ORDER BY lastModifiedAt DESC
-      LIMIT ${limit}
-    `;
-  }
-
-  const data = await client.query.execute<HubSpotDealData>(query);
-  const result: HubSpotDealData[] = await data.json();
+): Promise<HubSpotDealLookupPage> => {
+  const fx = await resolveReportingCurrency({ client, sql }, reportingCurrency);
+  const keyset = dealKeyset(sql, sort, order, cursor);
+  const where = whereAll(sql, [...dealConditions(sql, filters, fx.rate), keyset.after]);
 
+  // One extra row tells whether another page follows
+  const query = sql`
+    SELECT 
+      id, dealName, amount, currency,
+      round(amountHome * ${fx.rate}, 2) as reportingAmount, ${fx.currency} as reportingCurrency,
+      stage, stageLabel, pipeline, pipelineLabel,
+      closeDate, createdAt, ownerId, nullIf(owners.fullName, '') as ownerName, isWon, isClosed, contactCount,
+      associatedContacts, associatedCompanies,
+      ${keyset.key} as sortKey
+    FROM HubSpotDeal FINAL
+    LEFT JOIN (SELECT id AS ownerKey, fullName FROM HubSpotOwner FINAL) AS owners ON ownerId = owners.ownerKey
+    WHERE ${where}
+    ORDER BY ${keyset.orderBy}
+    LIMIT ${limit + 1}
+  `;
 
+  const data = await client.query.execute<HubSpotDealData & { sortKey: number | string }>(query);
+  const rows: (HubSpotDealData & { sortKey: number | string })[] = await data.json();
 
-  return result;
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    deals: page.map(({ sortKey, ...deal }) => deal),
+    nextCursor: rows.length > limit && last ? encodeDealCursor({ sort, order, key: last.sortKey, id: last.id }) : undefined,
+  };
 });
 
 interface HubSpotPipelinePerformanceData {
   pipeline: string;
   pipelineLabel: string;
+  reportingCurrency: string; // Currency of totalValue and wonValue
   totalDeals: number;
   totalValue: number;
   wonDeals: number;
@@ -319,27 +233,29 @@ interface HubSpotPipelinePerformanceData {
 
 // HubSpot Deal Pipeline Performance API
 export const HubSpotDealPipelineApi = new ConsumptionApi<
-  { daysBack?: number; limit?: number },
+  { daysBack?: number; limit?: number; reportingCurrency?: string },
   HubSpotPipelinePerformanceData[]
 >("hubspot-deal-pipeline", async (
-  { daysBack = 30, limit = 10 },
+  { daysBack = 30, limit = 10, reportingCurrency },
   { client, sql },
 ): Promise<HubSpotPipelinePerformanceData[]> => {
+  const fx = await resolveReportingCurrency({ client, sql }, reportingCurrency);
 
 
   const query = sql`
     SELECT 
       pipeline,
       pipelineLabel,
+      ${fx.currency} as reportingCurrency,
       count(*) as totalDeals,
-      sum(amount) as totalValue,
+      round(sum(amountHome) * ${fx.rate}, 2) as totalValue,
       sum(case when isWon then 1 else 0 end) as wonDeals,
-      sum(case when isWon then amount else 0 end) as wonValue,
+      round(sum(case when isWon then amountHome else 0 end) * ${fx.rate}, 2) as wonValue,
       sum(case when isClosed and not isWon then 1 else 0 end) as lostDeals,
       avg(case when isClosed then daysToClose end) as avgDaysToClose,
       round(sum(case when isWon then 1 else 0 end) * 100.0 / count(*), 2) as conversionRate
     FROM HubSpotDeal FINAL
-    WHERE createdAt >= subtractDays(now(), ${daysBack})
+    WHERE NOT isDeleted AND createdAt >= subtractDays(now(), ${daysBack})
     GROUP BY pipeline, pipelineLabel
     ORDER BY totalValue DESC
     LIMIT ${limit}
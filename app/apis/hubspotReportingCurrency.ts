@@ -0,0 +1,44 @@
+import type { ConsumptionUtil } from "@514labs/moose-lib";
+
+// Converts home currency amounts (HubSpotDeal.amountHome) into a requested reporting currency for the deal APIs
+
+export interface ReportingCurrency {
+  currency: string; // Currency the API reports amounts in
+  rate: number; // Reporting currency units per home currency unit (multiply amountHome by it)
+}
+
+interface RateRow {
+  homeCurrency: string;
+  rateToHome: number | null;
+  found: number | string;
+}
+
+/**
+ * Resolves `reportingCurrency` (default: the home currency) against the
+ * latest rate in force in the HubSpotExchangeRate dimension. Throws for a
+ * currency without a rate, rather than mixing currencies in a total.
+ */
+export async function resolveReportingCurrency(
+  { client, sql }: Pick<ConsumptionUtil, "client" | "sql">,
+  reportingCurrency?: string,
+): Promise<ReportingCurrency> {
+  const requested = (reportingCurrency ?? "").toUpperCase();
+  const query = sql`
+    SELECT
+      any(homeCurrency) as homeCurrency,
+      argMaxIf(rateToHome, effectiveAt, currency = ${requested}) as rateToHome,
+      countIf(currency = ${requested}) as found
+    FROM HubSpotExchangeRate FINAL
+    WHERE effectiveAt <= now()
+  `;
+  const [row] = await client.query.execute<RateRow>(query).then((r) => r.json() as Promise<RateRow[]>);
+  const homeCurrency = row?.homeCurrency || process.env.HUBSPOT_HOME_CURRENCY || "USD";
+
+  if (!requested || requested === homeCurrency) {
+    return { currency: homeCurrency, rate: 1 };
+  }
+  if (!row || !Number(row.found) || !row.rateToHome) {
+    throw new Error(`No exchange rate for reporting currency ${requested} (home currency ${homeCurrency})`);
+  }
+  return { currency: requested, rate: 1 / row.rateToHome };
+}
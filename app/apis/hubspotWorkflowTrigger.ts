@@ -4,6 +4,7 @@ import { ConsumptionApi } from "@514labs/moose-lib";
 interface WorkflowTriggerParams {
   workflowName?: string; // Optional workflow name, defaults to "hubspotDataSync"
   force?: boolean; // Force execution even if workflow is already running
+  fullResync?: boolean; // Ignore the incremental sync cursor and re-extract every deal
 }
 
 // Interface for workflow execution response
@@ -29,7 +30,8 @@ export const HubSpotWorkflowTriggerApi = new ConsumptionApi<
 >("hubspot-workflow-trigger", async (
   { 
     workflowName = "hubspotDataSync", 
-    force = false
+    force = false,
+    fullResync = false
   },
   { client }
 ) => {
@@ -51,7 +53,7 @@ export const HubSpotWorkflowTriggerApi = new ConsumptionApi<
     }
     
     // Fire and forget - trigger the workflow asynchronously
-    client.workflow.execute(workflowName, {}).then(result => {
+    client.workflow.execute(workflowName, { fullResync }).then(result => {
       console.log(`✅ Background workflow ${workflowName} completed with status ${result.status}`);
     }).catch(error => {
       console.error(`❌ Background workflow ${workflowName} failed:`, error);
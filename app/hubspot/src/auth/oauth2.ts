@@ -0,0 +1,132 @@
+/**
+ * OAuth2 token manager (refresh-token grant)
+ *
+ * Role in architecture:
+ * - Owns the access token for `auth.type === "oauth2"` connectors
+ * - Mints a token on first use and refreshes it shortly before `expiresAt`
+ * - Serializes refreshes: concurrent callers share one in-flight token request
+ * - Notifies `onTokenRefreshed` so callers can persist the rotated refresh token
+ *
+ * The token endpoint is called through a bare `HttpClient` (no auth, no hooks)
+ * so user hooks never observe client secrets and auth cannot recurse.
+ */
+import type { ConnectorAuthConfig, ConnectorConfig, OAuth2TokenSet } from "../types/config";
+import { ConnectorError } from "../types/errors";
+import { HttpClient } from "../client/http-client";
+
+const DEFAULT_TOKEN_URL = "https://api.hubapi.com/oauth/v1/token";
+const DEFAULT_REFRESH_SKEW_SECONDS = 60;
+
+interface TokenEndpointResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  status?: string;
+  message?: string;
+}
+
+export class OAuth2TokenManager {
+  private oauth: NonNullable<ConnectorAuthConfig["oauth2"]>;
+  private http: HttpClient;
+  private accessToken?: string;
+  private refreshToken: string;
+  private expiresAt?: number;
+  private inFlight?: Promise<string>;
+
+  constructor(config: ConnectorConfig) {
+    const oauth = config.auth.oauth2;
+    if (!oauth?.clientId || !oauth.clientSecret || !oauth.refreshToken) {
+      throw new ConnectorError({
+        message: "OAuth2 auth requires clientId, clientSecret and refreshToken",
+        code: "INVALID_CONFIG",
+        source: "auth",
+      });
+    }
+    this.oauth = oauth;
+    this.accessToken = oauth.accessToken;
+    this.refreshToken = oauth.refreshToken;
+    this.expiresAt = oauth.expiresAt;
+    this.http = new HttpClient({ ...config, hooks: {}, defaultQueryParams: {} });
+  }
+
+  private isFresh(): boolean {
+    if (!this.accessToken) return false;
+    if (this.expiresAt === undefined) return true;
+    const skew = this.oauth.refreshSkewSeconds ?? DEFAULT_REFRESH_SKEW_SECONDS;
+    return Date.now() / 1000 < this.expiresAt - skew;
+  }
+
+  /** Returns a valid access token, refreshing first when missing or about to expire. */
+  async getAccessToken(): Promise<string> {
+    if (this.isFresh()) return this.accessToken!;
+    return this.refresh();
+  }
+
+  /**
+   * Forces a refresh (e.g. after a 401). Concurrent calls join the same request
+   * instead of burning the refresh token multiple times.
+   */
+  refresh(): Promise<string> {
+    if (!this.inFlight) {
+      this.inFlight = this.requestToken().finally(() => {
+        this.inFlight = undefined;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async requestToken(): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: "refresh_token",
+      client_id: this.oauth.clientId,
+      client_secret: this.oauth.clientSecret,
+      refresh_token: this.refreshToken,
+    }).toString();
+
+    let res;
+    try {
+      res = await this.http.request<TokenEndpointResponse>({
+        method: "POST",
+        path: this.oauth.tokenUrl ?? DEFAULT_TOKEN_URL,
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body,
+        operation: "oauth2.refresh",
+        // Token endpoint errors are mapped below with auth-specific codes
+        throwOnHttpError: false,
+      });
+    } catch (err: any) {
+      throw new ConnectorError({
+        message: `OAuth2 token refresh failed: ${String(err?.message ?? err)}`,
+        code: "TOKEN_REFRESH_FAILED",
+        source: "auth",
+        retryable: err instanceof ConnectorError ? err.retryable : true,
+        details: err,
+      });
+    }
+
+    const data = res.data ?? {};
+    if (res.status < 200 || res.status >= 300 || !data.access_token) {
+      throw new ConnectorError({
+        message: `OAuth2 token refresh failed: ${data.message ?? `HTTP ${res.status}`}`,
+        code: res.status === 400 || res.status === 401 ? "UNAUTHORIZED" : "TOKEN_REFRESH_FAILED",
+        statusCode: res.status,
+        source: "auth",
+        retryable: res.status >= 500,
+        requestId: res.meta?.requestId,
+        details: data,
+      });
+    }
+
+    const token: OAuth2TokenSet = {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token ?? this.refreshToken,
+      expiresAt: Math.floor(Date.now() / 1000) + (data.expires_in ?? 1800),
+    };
+    this.accessToken = token.accessToken;
+    this.refreshToken = token.refreshToken;
+    this.expiresAt = token.expiresAt;
+
+    if (this.oauth.onTokenRefreshed) await this.oauth.onTokenRefreshed(token);
+    return token.accessToken;
+  }
+}
@@ -0,0 +1,40 @@
+import type { CacheEntry, CacheStore } from "./response-cache";
+
+/**
+ * Default in-memory `CacheStore`: least-recently-used eviction over a Map
+ * (insertion order = recency). Expiry is decided by `ResponseCache`, so stale
+ * entries stay available for conditional revalidation until evicted.
+ */
+export class LruCacheStore implements CacheStore {
+  private readonly maxEntries: number;
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(params: { maxEntries?: number } = {}) {
+    this.maxEntries = Math.max(1, params.maxEntries ?? 500);
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+}
@@ -0,0 +1,124 @@
+import type { CacheConfig, CacheRule } from "../types/config";
+import { LruCacheStore } from "./lru-store";
+
+/** A cached GET response, stored before `afterResponse` hooks run. */
+export interface CacheEntry {
+  data: unknown;
+  status: number;
+  headers: Record<string, string>;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number; // epoch ms
+  expiresAt: number; // epoch ms; stale entries are revalidated when they carry a validator
+}
+
+/** Pluggable storage (e.g. Redis); methods may be sync or async. */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined> | CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+  keys(): Promise<string[]> | string[];
+}
+
+/**
+ * Metadata changes rarely; pages streamed by `paginate` are read once and
+ * would only crowd out lookups. User rules are checked first.
+ */
+const DEFAULT_RULES: CacheRule[] = [
+  { operation: "paginate", ttlMs: 0 },
+  { path: /^\/crm\/v3\/(properties|pipelines|owners)\b/, ttlMs: 10 * 60 * 1000 },
+  { path: /^\/crm\/v4\/associations\/[^/]+\/[^/]+\/labels/, ttlMs: 10 * 60 * 1000 },
+  { path: /^\/settings\/v3\/currencies\b/, ttlMs: 10 * 60 * 1000 },
+];
+
+const pathOf = (key: string) => new URL(key.slice(key.indexOf(" ") + 1)).pathname;
+
+/**
+ * Opt-in GET response cache (`ConnectorConfig.cache`).
+ *
+ * - Keys are `GET <url>` (auth is applied per connector, so one cache per portal)
+ * - TTL comes from the first matching rule (`operation` name or `path` prefix /
+ *   RegExp), else `defaultTtlMs`; a TTL of 0 bypasses the cache
+ * - Successful writes drop every cached GET for the same object type
+ */
+export class ResponseCache {
+  private readonly store: CacheStore;
+  private readonly rules: CacheRule[];
+  private readonly defaultTtlMs: number;
+
+  constructor(config: CacheConfig) {
+    this.store = config.store ?? new LruCacheStore({ maxEntries: config.maxEntries });
+    this.rules = [...(config.rules ?? []), ...DEFAULT_RULES];
+    this.defaultTtlMs = config.defaultTtlMs ?? 60 * 1000;
+  }
+
+  key(method: string, url: string): string | undefined {
+    return method === "GET" ? `GET ${url}` : undefined;
+  }
+
+  ttlFor(operation: string | undefined, path: string): number {
+    const rule = this.rules.find((r) => {
+      if (r.operation !== undefined && r.operation !== operation) return false;
+      if (r.path !== undefined && !(typeof r.path === "string" ? path.startsWith(r.path) : r.path.test(path))) return false;
+      return r.operation !== undefined || r.path !== undefined;
+    });
+    return rule ? rule.ttlMs : this.defaultTtlMs;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.store.get(key);
+  }
+
+  async set(key: string, response: { data: unknown; status: number; headers: Record<string, string> }, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    await this.store.set(key, {
+      data: response.data,
+      status: response.status,
+      headers: response.headers,
+      etag: response.headers["etag"],
+      lastModified: response.headers["last-modified"],
+      storedAt: now,
+      expiresAt: now + ttlMs,
+    });
+  }
+
+  /** Drops cached GETs whose path starts with `prefix` (or matches it); everything when omitted. */
+  async invalidate(prefix?: string | RegExp): Promise<number> {
+    const keys = await this.store.keys();
+    const matches = keys.filter((k) => {
+      if (prefix === undefined) return true;
+      const path = pathOf(k);
+      return typeof prefix === "string" ? path.startsWith(prefix) : prefix.test(path);
+    });
+    for (const k of matches) await this.store.delete(k);
+    return matches.length;
+  }
+
+  /**
+   * Called after a successful non-GET. Reads sent as POST (search, batch
+   * read) change nothing; any other write invalidates the object type it
+   * touched (both ends for association writes), across `objects` and
+   * `associations` since inline associations are part of object responses,
+   * or within the same metadata kind.
+   */
+  async invalidateAfterWrite(method: string, path: string): Promise<void> {
+    if (method === "GET" || /\/(search|batch\/read)$/.test(path)) return;
+    const segments = path.split("/");
+    const [, crm, , kind, objectType] = segments;
+    if (crm !== "crm" || !kind || !objectType) {
+      await this.invalidate();
+      return;
+    }
+    if (kind !== "objects" && kind !== "associations") {
+      await this.invalidate(new RegExp(`^/crm/v\\d+/${kind}/${objectType}(/|$)`));
+      return;
+    }
+    // An association write changes both ends: `/objects/{from}/{id}/associations/{to}/..` (`associations/default/{to}/..`
+    // for unlabeled ones) or `/associations/{from}/{to}/..`
+    const objectsTarget = segments[7] === "default" ? segments[8] : segments[7];
+    const toObjectType = kind === "associations" ? segments[5] : segments[6] === "associations" ? objectsTarget : undefined;
+    for (const type of toObjectType ? [objectType, toObjectType] : [objectType]) {
+      await this.invalidate(new RegExp(`^/crm/v\\d+/(objects|associations)/${type}(/|$)`));
+    }
+  }
+}
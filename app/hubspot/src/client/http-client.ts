@@ -1,23 +1,85 @@
 import type { ConnectorConfig } from "../types/config";
 import type { HttpResponseEnvelope } from "../types/envelopes";
-import { ConnectorError } from "../types/errors";
+import { ConnectorError, type ConnectorErrorSource, type HubSpotErrorDetails } from "../types/errors";
+import type { HookRequest, HttpMethod, RequestUpdates, SyntheticResponse } from "../types/hooks";
+import type { CacheEntry, ResponseCache } from "../cache/response-cache";
 import { applyHookPipeline } from "./middleware/hook-middleware";
 import http from "node:http";
 import https from "node:https";
 import { URL } from "node:url";
 
 export interface HttpRequestOptions {
-  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  method: HttpMethod;
   path: string;
   query?: Record<string, string | number | boolean | undefined>;
   headers?: Record<string, string>;
   body?: unknown;
   timeoutMs?: number;
   operation?: string;
+  /** Overrides `ConnectorConfig.throwOnHttpError` for this call; `false` returns non-2xx envelopes as-is. */
+  throwOnHttpError?: boolean;
+}
+
+const STATUS_CODES: Record<number, { code: string; source: ConnectorErrorSource }> = {
+  400: { code: "VALIDATION_ERROR", source: "api" },
+  401: { code: "UNAUTHORIZED", source: "auth" },
+  403: { code: "FORBIDDEN", source: "auth" },
+  404: { code: "NOT_FOUND", source: "api" },
+  408: { code: "TIMEOUT", source: "transport" },
+  409: { code: "CONFLICT", source: "api" },
+  415: { code: "UNSUPPORTED_MEDIA_TYPE", source: "api" },
+  422: { code: "VALIDATION_ERROR", source: "api" },
+  429: { code: "RATE_LIMITED", source: "rateLimit" },
+};
+
+/** Maps a non-2xx response (after any retries) to a typed error carrying HubSpot's error body. */
+function httpError(envelope: HttpResponseEnvelope<any>, retryable: number[]): ConnectorError {
+  const { status, data } = envelope;
+  const body = data && typeof data === "object" ? data : {};
+  const mapped = STATUS_CODES[status] ?? (status >= 500 ? { code: "SERVER_ERROR", source: "api" as const } : { code: "HTTP_ERROR", source: "api" as const });
+  const details: HubSpotErrorDetails = {
+    category: body.category,
+    subCategory: body.subCategory,
+    correlationId: body.correlationId,
+    errors: body.errors,
+    context: body.context,
+    body: data,
+  };
+  return new ConnectorError({
+    message: `HubSpot ${status} ${mapped.code}: ${body.message ?? (typeof data === "string" && data ? data : `HTTP ${status}`)}`,
+    code: mapped.code,
+    statusCode: status,
+    source: mapped.source,
+    retryable: retryable.includes(status),
+    requestId: envelope.meta?.requestId ?? body.correlationId,
+    details,
+  });
+}
+
+/** Shallow merge where an `undefined` value removes the key. */
+function mergeDefined<V>(base: Record<string, V>, updates: Record<string, V | undefined>): Record<string, V> {
+  const merged = { ...base };
+  for (const [k, v] of Object.entries(updates)) {
+    if (v === undefined) delete merged[k];
+    else merged[k] = v;
+  }
+  return merged;
 }
 
 export interface HttpClientOptions {
-  applyAuth?: (req: { headers: Record<string, string> }) => void;
+  applyAuth?: (req: { headers: Record<string, string> }) => void | Promise<void>;
+  /** Called once per request on a 401; resolve `true` to re-apply auth and replay the request. */
+  onUnauthorized?: () => Promise<boolean>;
+  /** Called with every HTTP response, including ones that are retried (feeds adaptive rate limiting). */
+  onResponse?: (res: { status: number; headers: Record<string, string> }) => void;
+  /** Opt-in GET response cache; writes invalidate it. */
+  cache?: ResponseCache;
+  /**
+   * Waits for rate limit and concurrency capacity before the first network
+   * attempt; resolves with a release called once the request settles (the
+   * slot is held across retries). Not called for cache hits or hook responses.
+   */
+  acquireSlot?: () => Promise<() => void>;
 }
 
 export class HttpClient {
@@ -46,6 +108,15 @@ export class HttpClient {
     return Math.floor(jitter);
   }
 
+  private fromCache<T>(entry: CacheEntry, start: number, cache: "hit" | "revalidated"): HttpResponseEnvelope<T> {
+    return {
+      data: structuredClone(entry.data) as T,
+      status: entry.status,
+      headers: { ...entry.headers },
+      meta: { timestamp: new Date().toISOString(), durationMs: Date.now() - start, retryCount: 0, cache },
+    };
+  }
+
   private shouldRetry(status: number, attempt: number): boolean {
     const retryables = this.config.retry?.retryableStatusCodes ?? [408, 425, 429, 500, 502, 503, 504];
     const withinAttempts = attempt < (this.config.retry?.maxAttempts ?? 3);
@@ -54,129 +125,222 @@ export class HttpClient {
 
   async request<T = any>(opts: HttpRequestOptions): Promise<HttpResponseEnvelope<T>> {
     const start = Date.now();
-    const path = opts.path.startsWith("/") ? opts.path : `/${opts.path}`;
-    const url = this.buildUrl(path, opts.query);
+    const normalizePath = (p: string) => (p.startsWith("/") || p.startsWith("http") ? p : `/${p}`);
 
-    const headers: Record<string, string> = {
-      ...(this.config.defaultHeaders ?? {}),
-      ...(opts.headers ?? {}),
-    };
-
-    // Apply connector-provided auth (provider-specific)
-    if (this.options.applyAuth) {
-      this.options.applyAuth({ headers });
-    }
-
-    const req: { method: HttpRequestOptions["method"]; url: string; headers: Record<string, string>; body?: unknown } = {
+    // Hooks edit this draft through `modifyRequest`; the URL, body encoding and auth are derived from it per attempt
+    const req: HookRequest = {
       method: opts.method,
-      url,
-      headers,
+      path: normalizePath(opts.path),
+      url: "",
+      query: { ...(opts.query ?? {}) },
+      headers: { ...(this.config.defaultHeaders ?? {}), ...(opts.headers ?? {}) },
       body: opts.body,
     };
+    req.url = this.buildUrl(req.path, req.query);
+
+    const modifyRequest = (updates: RequestUpdates) => {
+      if (updates.method) req.method = updates.method;
+      if (updates.path) req.path = normalizePath(updates.path);
+      if (updates.query) req.query = mergeDefined(req.query, updates.query);
+      if (updates.headers) req.headers = mergeDefined(req.headers, updates.headers);
+      if ("body" in updates) req.body = updates.body;
+      req.url = this.buildUrl(req.path, req.query);
+    };
 
     let aborted = false;
     let abortReason: string | undefined;
+    let synthetic: SyntheticResponse | undefined;
     const hooks = applyHookPipeline(this.config.hooks ?? {}, opts.operation ?? opts.method, (type) => ({
       type,
       operation: opts.operation,
       request: req,
+      modifyRequest: type === "beforeRequest" || type === "onRetry" ? modifyRequest : undefined,
+      respondWith:
+        type === "beforeRequest"
+          ? (response: SyntheticResponse) => {
+              synthetic = response;
+            }
+          : undefined,
       abort: (reason?: string) => {
         aborted = true;
         abortReason = reason ?? "Aborted by hook";
       },
     }));
 
+    const isError = (status: number) => !(status >= 200 && status < 300);
+    const throwOnHttpError = opts.throwOnHttpError ?? this.config.throwOnHttpError ?? true;
+
     await hooks.beforeRequest();
     if (aborted) {
       throw new ConnectorError({ message: abortReason || "Aborted", code: "CANCELLED", source: "userHook" });
     }
 
+    const response = synthetic as SyntheticResponse | undefined;
+    if (response) {
+      // Short-circuited by a hook: no network call, but the response still flows through error mapping and afterResponse
+      const envelope: HttpResponseEnvelope<T> = {
+        data: response.data as T,
+        status: response.status ?? 200,
+        headers: response.headers ?? {},
+        meta: { timestamp: new Date().toISOString(), durationMs: Date.now() - start, retryCount: 0, synthetic: true },
+      };
+      if (isError(envelope.status) && throwOnHttpError) {
+        throw httpError(envelope, this.config.retry?.retryableStatusCodes ?? [408, 425, 429, 500, 502, 503, 504]);
+      }
+      await hooks.afterResponse(envelope);
+      return envelope;
+    }
+
+    // GET cache: fresh entries skip the network; stale ones are revalidated when they carry an ETag/Last-Modified
+    const cache = this.options.cache;
+    const cacheKey = cache?.key(req.method, req.url);
+    const ttlMs = cache && cacheKey ? cache.ttlFor(opts.operation, new URL(req.url).pathname) : 0;
+    const cached = cache && cacheKey && ttlMs > 0 ? await cache.get(cacheKey) : undefined;
+    if (cached && cached.expiresAt > Date.now()) {
+      const envelope = this.fromCache<T>(cached, start, "hit");
+      await hooks.afterResponse(envelope);
+      return envelope;
+    }
+
     const timeoutMs = opts.timeoutMs ?? this.config.timeoutMs ?? 30000;
 
     let attempt = 0;
+    let authReplayed = false;
+    let retriesExhausted = false;
     let lastError: unknown;
     const retryBudget = this.config.retry?.retryBudgetMs ?? 60000;
-    const budgetDeadline = start + retryBudget;
-
-    while (true) {
-      attempt += 1;
-      try {
-        const { status, headers: resHeaders, text } = await this.nodeHttpRequest(req.url, {
-          method: req.method,
-          headers: req.headers,
-          body: req.body ? (typeof req.body === "string" ? req.body : JSON.stringify(req.body)) : undefined,
-          timeoutMs,
-        });
-
-        const hdrs: Record<string, string> = {};
-        for (const [k, v] of Object.entries(resHeaders)) {
-          const value = Array.isArray(v) ? v.join(", ") : (v ?? "");
-          hdrs[k.toLowerCase()] = value as string;
-        }
-        let data: any = undefined;
+
+    // Rate limits and the concurrency cap apply to network calls only: hook responses and fresh cache hits returned above
+    const release = this.options.acquireSlot ? await this.options.acquireSlot() : undefined;
+    // The retry budget starts once the request holds a slot, so queueing behind the limiters does not spend it
+    const budgetDeadline = Date.now() + retryBudget;
+    try {
+      while (true) {
+        attempt += 1;
         try {
-          data = text ? JSON.parse(text) : undefined;
-        } catch (e) {
-          throw new ConnectorError({ message: "Failed to parse JSON", code: "PARSING_ERROR", source: "deserialize" });
-        }
+          const headers = { ...req.headers };
+          // JSON-encoded bodies must be labelled or HubSpot rejects them with 415
+          if (req.body !== undefined && typeof req.body !== "string" && !Object.keys(headers).some((h) => h.toLowerCase() === "content-type")) {
+            headers["Content-Type"] = "application/json";
+          }
+          if (cached?.etag) headers["If-None-Match"] = cached.etag;
+          else if (cached?.lastModified) headers["If-Modified-Since"] = cached.lastModified;
+          // Apply connector-provided auth (provider-specific) after hooks, so hooks never see credentials
+          if (this.options.applyAuth) {
+            await this.options.applyAuth({ headers });
+          }
 
-        const retryAfter = Number(hdrs["retry-after"]);
-        const rateLimit = {
-          limit: Number(hdrs["x-hubspot-ratelimit-daily"] ?? hdrs["x-hubspot-ratelimit-secondly"]),
-          remaining: Number(hdrs["x-hubspot-ratelimit-daily-remaining"] ?? hdrs["x-hubspot-ratelimit-secondly-remaining"]),
-          reset: Number(hdrs["x-hubspot-ratelimit-reset"]),
-          retryAfterSeconds: Number.isFinite(retryAfter) ? retryAfter : undefined,
-        };
-
-        const envelope: HttpResponseEnvelope<T> = {
-          data: data as T,
-          status,
-          headers: hdrs,
-          meta: {
-            timestamp: new Date().toISOString(),
-            durationMs: Date.now() - start,
-            requestId: hdrs["x-request-id"] ?? hdrs["x-trace"],
-            retryCount: attempt - 1,
-            rateLimit,
-          },
-        };
-
-        if (!(status >= 200 && status < 300) && this.shouldRetry(status, attempt)) {
-          await hooks.onRetry(attempt);
-          const delayMs = this.config.retry?.respectRetryAfter && rateLimit.retryAfterSeconds
-            ? rateLimit.retryAfterSeconds * 1000
-            : this.calculateDelay(attempt);
-          if (Date.now() + delayMs > budgetDeadline) {
-            throw new ConnectorError({ message: "Retry budget exceeded", code: "TIMEOUT" });
+          const { status, headers: resHeaders, text } = await this.nodeHttpRequest(this.buildUrl(req.path, req.query), {
+            method: req.method,
+            headers,
+            body: req.body ? (typeof req.body === "string" ? req.body : JSON.stringify(req.body)) : undefined,
+            timeoutMs,
+          });
+
+          const hdrs: Record<string, string> = {};
+          for (const [k, v] of Object.entries(resHeaders)) {
+            const value = Array.isArray(v) ? v.join(", ") : (v ?? "");
+            hdrs[k.toLowerCase()] = value as string;
+          }
+          this.options.onResponse?.({ status, headers: hdrs });
+          let data: any = undefined;
+          try {
+            data = text ? JSON.parse(text) : undefined;
+          } catch (e) {
+            throw new ConnectorError({ message: "Failed to parse JSON", code: "PARSING_ERROR", source: "deserialize" });
           }
-          await this.sleep(delayMs);
-          continue;
-        }
 
-        await hooks.afterResponse(envelope);
-        return envelope;
-      } catch (err: any) {
-        lastError = err;
-        await hooks.onError(err);
-        if (err?.code === "ETIMEDOUT" || err?.message === "Request timed out") {
-          throw new ConnectorError({ message: "Request timed out", code: "TIMEOUT", source: "transport", retryable: true });
-        }
-        if (err instanceof ConnectorError) {
-          if (this.shouldRetry(err.statusCode ?? 0, attempt) && Date.now() < budgetDeadline) {
+          const retryAfter = Number(hdrs["retry-after"]);
+          const rateLimit = {
+            limit: Number(hdrs["x-hubspot-ratelimit-daily"] ?? hdrs["x-hubspot-ratelimit-secondly"]),
+            remaining: Number(hdrs["x-hubspot-ratelimit-daily-remaining"] ?? hdrs["x-hubspot-ratelimit-secondly-remaining"]),
+            reset: Number(hdrs["x-hubspot-ratelimit-reset"]),
+            retryAfterSeconds: Number.isFinite(retryAfter) ? retryAfter : undefined,
+          };
+
+          const envelope: HttpResponseEnvelope<T> = {
+            data: data as T,
+            status,
+            headers: hdrs,
+            meta: {
+              timestamp: new Date().toISOString(),
+              durationMs: Date.now() - start,
+              requestId: hdrs["x-request-id"] ?? hdrs["x-trace"],
+              retryCount: attempt - 1,
+              rateLimit,
+            },
+          };
+
+          if (status === 304 && cache && cacheKey && cached) {
+            await cache.set(cacheKey, cached, ttlMs);
+            const revalidated = this.fromCache<T>(cached, start, "revalidated");
+            await hooks.afterResponse(revalidated);
+            return revalidated;
+          }
+
+          if (status === 401 && this.options.onUnauthorized && !authReplayed) {
+            // Refresh credentials once and replay; a second 401 (or a declined refresh) is handled as any other error
+            authReplayed = true;
+            if (await this.options.onUnauthorized()) {
+              attempt -= 1;
+              continue;
+            }
+          }
+
+          if (isError(status) && this.shouldRetry(status, attempt)) {
+            const delayMs = this.config.retry?.respectRetryAfter && rateLimit.retryAfterSeconds
+              ? rateLimit.retryAfterSeconds * 1000
+              : this.calculateDelay(attempt);
+            // A retry that would overrun the budget is not made: this response is the final one
+            if (Date.now() + delayMs <= budgetDeadline) {
+              await hooks.onRetry(attempt);
+              await this.sleep(delayMs);
+              continue;
+            }
+            retriesExhausted = true;
+          }
+
+          if (isError(status) && throwOnHttpError) {
+            throw httpError(envelope, this.config.retry?.retryableStatusCodes ?? [408, 425, 429, 500, 502, 503, 504]);
+          }
+
+          if (cache && !isError(status)) {
+            if (cacheKey && ttlMs > 0) {
+              // Stored as received, so afterResponse hooks can't alter what later hits return
+              await cache.set(cacheKey, { data: structuredClone(data), status, headers: hdrs }, ttlMs);
+              envelope.meta!.cache = "miss";
+            } else if (req.method !== "GET") {
+              await cache.invalidateAfterWrite(req.method, req.path);
+            }
+          }
+
+          await hooks.afterResponse(envelope);
+          return envelope;
+        } catch (err: any) {
+          lastError = err;
+          await hooks.onError(err);
+          if (err?.code === "ETIMEDOUT" || err?.message === "Request timed out") {
+            throw new ConnectorError({ message: "Request timed out", code: "TIMEOUT", source: "transport", retryable: true });
+          }
+          if (err instanceof ConnectorError) {
+            if (!retriesExhausted && this.shouldRetry(err.statusCode ?? 0, attempt) && Date.now() < budgetDeadline) {
+              await hooks.onRetry(attempt);
+              await this.sleep(this.calculateDelay(attempt));
+              continue;
+            }
+            throw err;
+          }
+          // Generic transport error
+          if (attempt < (this.config.retry?.maxAttempts ?? 3) && Date.now() < budgetDeadline) {
             await hooks.onRetry(attempt);
             await this.sleep(this.calculateDelay(attempt));
             continue;
           }
-          throw err;
-        }
-        // Generic transport error
-        if (attempt < (this.config.retry?.maxAttempts ?? 3) && Date.now() < budgetDeadline) {
-          await hooks.onRetry(attempt);
-          await this.sleep(this.calculateDelay(attempt));
-          continue;
+          throw new ConnectorError({ message: String(err?.message ?? err), code: "NETWORK_ERROR", source: "transport", retryable: true });
         }
-        throw new ConnectorError({ message: String(err?.message ?? err), code: "NETWORK_ERROR", source: "transport", retryable: true });
       }
+    } finally {
+      release?.();
     }
   }
 
@@ -27,6 +27,7 @@ export function withDerivedDefaults(user: ConnectorConfig): ConnectorConfig {
       adaptiveFromHeaders: true,
     },
     hooks: {},
+    throwOnHttpError: true,
   };
   return {
     ...base,
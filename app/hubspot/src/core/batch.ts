@@ -0,0 +1,133 @@
+import type { SendFn } from "./paginate";
+import { ConnectorError, type HubSpotErrorDetails } from "../types/errors";
+import type { BatchReadResult, BatchWriteResult, HubSpotBatchError, HubSpotBatchResponse } from "../models/shared";
+
+/** HubSpot accepts at most this many inputs per batch call. */
+export const BATCH_LIMIT = 100;
+
+/** Reads and list pages that request `propertiesWithHistory` are capped lower. */
+export const HISTORY_BATCH_LIMIT = 50;
+
+export function chunk<T>(items: T[], size = BATCH_LIMIT): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/**
+ * Reads any number of records via `POST {objectPath}/batch/read`.
+ *
+ * IDs are de-duplicated and split into 100-input chunks (50 with
+ * `propertiesWithHistory`) that are sent in
+ * parallel; each chunk still waits on the connector's rate limiter through
+ * `send`. Results are merged, and every requested ID without a matching record
+ * is reported in `notFound` (compared case-insensitively for `idProperty`,
+ * since HubSpot normalizes values such as email).
+ *
+ * Without `properties` the request omits them, so HubSpot returns its default
+ * properties. Records whose `idProperty` value is not among them cannot be
+ * matched to an input; `notFound` then comes from HubSpot's per-input errors.
+ */
+export async function batchRead<T extends { id: string; properties?: Record<string, unknown> }>(params: {
+  send: SendFn;
+  objectPath: string;
+  ids: string[];
+  properties?: string[];
+  idProperty?: string;
+  archived?: boolean;
+  propertiesWithHistory?: string[];
+}): Promise<BatchReadResult<T>> {
+  const { idProperty } = params;
+  const ids = Array.from(new Set(params.ids));
+  // With explicit properties, the idProperty is added so results can be matched to inputs; without, HubSpot's defaults come back
+  const properties = params.properties && idProperty ? Array.from(new Set([...params.properties, idProperty])) : params.properties;
+
+  const withHistory = params.propertiesWithHistory?.length ? { propertiesWithHistory: params.propertiesWithHistory } : {};
+
+  const responses = await Promise.all(
+    chunk(ids, withHistory.propertiesWithHistory ? HISTORY_BATCH_LIMIT : BATCH_LIMIT).map((inputs) =>
+      params.send<HubSpotBatchResponse<T>>({
+        method: "POST",
+        path: `${params.objectPath}/batch/read`,
+        query: params.archived ? { archived: true } : undefined,
+        body: {
+          inputs: inputs.map((id) => ({ id })),
+          ...(properties ? { properties } : {}),
+          ...withHistory,
+          ...(idProperty ? { idProperty } : {}),
+        },
+        operation: "batchRead",
+      })
+    )
+  );
+
+  const results: T[] = [];
+  const errors: HubSpotBatchError[] = [];
+  for (const res of responses) {
+    results.push(...(res.data?.results ?? []));
+    errors.push(...(res.data?.errors ?? []));
+  }
+
+  if (idProperty && results.some((item) => item.properties?.[idProperty] === undefined)) {
+    // The idProperty did not come back, so only HubSpot's not-found errors say which inputs are missing
+    const missing = new Set(errors.filter((e) => e.category === "OBJECT_NOT_FOUND").flatMap((e) => e.context?.ids ?? []).map((id) => id.toLowerCase()));
+    return { results, notFound: ids.filter((id) => missing.has(id.toLowerCase())), errors };
+  }
+
+  const keyOf = (item: T) => (idProperty ? String(item.properties?.[idProperty] ?? "").toLowerCase() : item.id);
+  const found = new Set(results.map(keyOf));
+  const notFound = ids.filter((id) => !found.has(idProperty ? id.toLowerCase() : id));
+  return { results, notFound, errors };
+}
+
+/**
+ * Sends batch write inputs (`create|update|upsert|archive`) in 100-input chunks.
+ *
+ * Chunks run in parallel under the rate limiter. A 207 multi-status chunk is a
+ * normal response: its successes and per-record errors are merged into the
+ * result rather than thrown. A chunk that fails as a whole (HubSpot rejects the
+ * entire batch with 400 for one invalid input, or the call errors) is not
+ * thrown either: each of its inputs gets an `errors` entry carrying the input
+ * and the chunk's error, so results of committed chunks are kept. Archive
+ * returns 204 with no body, so contributes no results.
+ */
+export async function batchWrite<T>(params: {
+  send: SendFn;
+  path: string;
+  inputs: unknown[];
+  operation: string;
+}): Promise<BatchWriteResult<T>> {
+  const chunks = chunk(params.inputs);
+  const outcomes = await Promise.allSettled(
+    chunks.map((inputs) =>
+      params.send<HubSpotBatchResponse<T> | undefined>({ method: "POST", path: params.path, body: { inputs }, operation: params.operation })
+    )
+  );
+  const results: T[] = [];
+  const errors: HubSpotBatchError[] = [];
+  outcomes.forEach((outcome, i) => {
+    if (outcome.status === "fulfilled") {
+      results.push(...(outcome.value.data?.results ?? []));
+      errors.push(...(outcome.value.data?.errors ?? []));
+    } else {
+      errors.push(...chunks[i].map((input) => chunkError(input, outcome.reason)));
+    }
+  });
+  return { results, errors };
+}
+
+/** `errors` entry for one input of a chunk whose call failed as a whole */
+function chunkError(input: unknown, reason: unknown): HubSpotBatchError {
+  const error = reason instanceof ConnectorError ? reason : undefined;
+  const details = (error?.details ?? {}) as HubSpotErrorDetails;
+  const id = (input as { id?: unknown } | undefined)?.id;
+  return {
+    status: "error",
+    category: details.category ?? error?.code ?? "UNKNOWN",
+    subCategory: details.subCategory,
+    message: error?.message ?? String((reason as Error)?.message ?? reason),
+    context: id !== undefined ? { ids: [String(id)] } : details.context,
+    statusCode: error?.statusCode,
+    input,
+  };
+}
@@ -1,4 +1,20 @@
 import { paginateCursor, type SendFn } from "./paginate";
+import { streamSearch } from "./search";
+import { BATCH_LIMIT, HISTORY_BATCH_LIMIT, batchRead, batchWrite } from "./batch";
+import { listPropertyNames } from "./properties";
+import type {
+  ArchiveParams,
+  BatchArchiveParams,
+  BatchCreateParams,
+  BatchUpdateParams,
+  BatchUpsertParams,
+  CreateParams,
+  HubSpotSearchResponse,
+  SearchRequest,
+  UpdateParams,
+} from "../models/shared";
+
+type PropertiesOf<T> = T extends { properties: infer P } ? P : Record<string, unknown>;
 
 /**
  * makeCrudDomain
@@ -18,35 +34,167 @@ import { paginateCursor, type SendFn } from "./paginate";
  * - objectPath: HubSpot REST path for the object (e.g., `/crm/v3/objects/contacts`)
  * - send: transport function provided by the connector that applies retries,
  *   rate‑limits, auth, and hooks.
+ * - options.sliceProperty: last-modified property used to re-slice searches past
+ *   the 10k ceiling (default `hs_lastmodifieddate`; contacts use `lastmodifieddate`).
  */
-export function makeCrudDomain<TObject, TListResponse, TSingleResponse>(objectPath: string, send: SendFn) {
+export function makeCrudDomain<TObject extends { id: string }, TListResponse, TSingleResponse>(
+  objectPath: string,
+  send: SendFn,
+  options: { sliceProperty?: string } = {}
+) {
+  const objectType = objectPath.split("/").pop() as string;
+
+  /**
+   * `properties: "all"`: a portal can define hundreds of properties, which is
+   * too long for the list endpoint's query string. Pages are listed for IDs
+   * (and associations) only, then each page is re-read through
+   * `POST /batch/read` with every property name in the body. Records deleted
+   * between the two calls are skipped.
+   */
+  async function* streamAllProperties(params: {
+    properties: "all";
+    associations?: string[];
+    pageSize?: number;
+    archived?: boolean;
+    propertiesWithHistory?: string[];
+  }) {
+    const properties = await listPropertyNames(send, objectType);
+    const query: Record<string, any> = {};
+    if (params.associations?.length) query.associations = params.associations.join(",");
+    if (params.archived) query.archived = true;
+    const pageSize = Math.min(params.pageSize ?? BATCH_LIMIT, BATCH_LIMIT);
+    for await (const items of paginateCursor<TObject>({ send, path: objectPath, query, pageSize })) {
+      if (!items.length) continue;
+      const { results } = await batchRead<TObject & { properties?: Record<string, unknown> }>({
+        send,
+        objectPath,
+        ids: items.map((item) => item.id),
+        properties,
+        archived: params.archived,
+        propertiesWithHistory: params.propertiesWithHistory,
+      });
+      const byId = new Map(results.map((r) => [r.id, r]));
+      for (const item of items) {
+        const full = byId.get(item.id);
+        if (full) yield { ...item, ...full } as TObject;
+      }
+    }
+  }
+
   const api = {
     // GET /objects with properties/limit/after
-    list: (params?: { properties?: string[]; limit?: number; after?: string }) => {
+    list: (params?: { properties?: string[]; associations?: string[]; limit?: number; after?: string; archived?: boolean; propertiesWithHistory?: string[] }) => {
       const query: Record<string, any> = {};
       if (params?.properties?.length) query.properties = params.properties.join(",");
+      if (params?.propertiesWithHistory?.length) query.propertiesWithHistory = params.propertiesWithHistory.join(",");
+      if (params?.associations?.length) query.associations = params.associations.join(",");
       if (params?.limit) query.limit = params.limit;
       if (params?.after) query.after = params.after;
+      if (params?.archived) query.archived = true;
       return send<TListResponse>({ method: "GET", path: objectPath, query });
     },
     // GET /objects/{id} with optional properties
-    get: (params: { id: string; properties?: string[] }) => {
+    get: (params: { id: string; properties?: string[]; associations?: string[]; propertiesWithHistory?: string[] }) => {
       const query: Record<string, any> = {};
       if (params?.properties?.length) query.properties = params.properties.join(",");
+      if (params?.propertiesWithHistory?.length) query.propertiesWithHistory = params.propertiesWithHistory.join(",");
+      if (params?.associations?.length) query.associations = params.associations.join(",");
       return send<TSingleResponse>({ method: "GET", path: `${objectPath}/${params.id}` as const, query });
     },
-    // Async iterator over all items using cursor pagination
-    streamAll: async function* (params?: { properties?: string[]; pageSize?: number }) {
+    // Async iterator over all items using cursor pagination (`archived: true` streams deleted records instead)
+    streamAll: async function* (params?: {
+      properties?: string[] | "all";
+      associations?: string[];
+      pageSize?: number;
+      archived?: boolean;
+      propertiesWithHistory?: string[];
+    }) {
+      if (params?.properties === "all") {
+        yield* streamAllProperties({ ...params, properties: "all" });
+        return;
+      }
       const query: Record<string, any> = {};
       if (params?.properties?.length) query.properties = params.properties.join(",");
-      for await (const items of paginateCursor<TObject>({ send, path: objectPath, query, pageSize: params?.pageSize })) {
+      if (params?.associations?.length) query.associations = params.associations.join(",");
+      if (params?.archived) query.archived = true;
+      let pageSize = params?.pageSize;
+      if (params?.propertiesWithHistory?.length) {
+        query.propertiesWithHistory = params.propertiesWithHistory.join(",");
+        pageSize = Math.min(pageSize ?? HISTORY_BATCH_LIMIT, HISTORY_BATCH_LIMIT);
+      }
+      for await (const items of paginateCursor<TObject>({ send, path: objectPath, query, pageSize })) {
         for (const item of items) yield item;
       }
     },
+    // POST /objects/batch/read in 100-ID chunks; merged results plus IDs not found
+    batchGet: (params: { ids: string[]; properties?: string[]; idProperty?: string; archived?: boolean; propertiesWithHistory?: string[] }) => {
+      return batchRead<TObject & { properties?: Record<string, unknown> }>({ send, objectPath, ...params });
+    },
+    // POST /objects: create one record
+    create: (params: CreateParams<PropertiesOf<TObject>>) => {
+      return send<TSingleResponse>({ method: "POST", path: objectPath, body: params, operation: "create" });
+    },
+    // PATCH /objects/{id}: partial update (optionally matched by a unique idProperty)
+    update: (params: UpdateParams<PropertiesOf<TObject>>) => {
+      const query: Record<string, any> = {};
+      if (params.idProperty) query.idProperty = params.idProperty;
+      return send<TSingleResponse>({
+        method: "PATCH",
+        path: `${objectPath}/${params.id}`,
+        query,
+        body: { properties: params.properties },
+        operation: "update",
+      });
+    },
+    // DELETE /objects/{id}: move a record to the recycling bin
+    archive: (params: ArchiveParams) => {
+      return send<void>({ method: "DELETE", path: `${objectPath}/${params.id}`, operation: "archive" });
+    },
+    // POST /objects/batch/{create|update|archive|upsert} in 100-input chunks
+    batchCreate: (params: BatchCreateParams<PropertiesOf<TObject>>) => {
+      return batchWrite<TObject>({ send, path: `${objectPath}/batch/create`, inputs: params.inputs, operation: "batchCreate" });
+    },
+    batchUpdate: (params: BatchUpdateParams<PropertiesOf<TObject>>) => {
+      return batchWrite<TObject>({ send, path: `${objectPath}/batch/update`, inputs: params.inputs, operation: "batchUpdate" });
+    },
+    batchArchive: (params: BatchArchiveParams) => {
+      const inputs = params.ids.map((id) => ({ id }));
+      return batchWrite<never>({ send, path: `${objectPath}/batch/archive`, inputs, operation: "batchArchive" });
+    },
+    batchUpsert: (params: BatchUpsertParams<PropertiesOf<TObject>>) => {
+      const inputs = params.inputs.map((i) => ({ id: i.id, idProperty: params.idProperty, properties: i.properties }));
+      return batchWrite<TObject>({ send, path: `${objectPath}/batch/upsert`, inputs, operation: "batchUpsert" });
+    },
+    // POST /objects/search: one page of results for a filter/sort request
+    search: (request: SearchRequest<PropertiesOf<TObject>>) => {
+      return send<HubSpotSearchResponse<TObject>>({ method: "POST", path: `${objectPath}/search`, body: request, operation: "search" });
+    },
+    // Async iterator over every search match, re-slicing past the 10k-result ceiling
+    streamSearch: async function* (request: SearchRequest<PropertiesOf<TObject>>) {
+      yield* streamSearch<TObject & { properties?: Record<string, unknown> }>({
+        send,
+        path: `${objectPath}/search`,
+        request,
+        sliceProperty: options.sliceProperty,
+      });
+    },
     // Collect items into an array with an optional max cap
-    getAll: async (params?: { properties?: string[]; pageSize?: number; maxItems?: number }) => {
+    getAll: async (params?: {
+      properties?: string[] | "all";
+      associations?: string[];
+      pageSize?: number;
+      maxItems?: number;
+      archived?: boolean;
+      propertiesWithHistory?: string[];
+    }) => {
       const results: TObject[] = [];
-      for await (const item of api.streamAll({ properties: params?.properties, pageSize: params?.pageSize })) {
+      for await (const item of api.streamAll({
+        properties: params?.properties,
+        associations: params?.associations,
+        pageSize: params?.pageSize,
+        archived: params?.archived,
+        propertiesWithHistory: params?.propertiesWithHistory,
+      })) {
         results.push(item);
         if (params?.maxItems && results.length >= params.maxItems) break;
       }
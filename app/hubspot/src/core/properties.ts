@@ -0,0 +1,18 @@
+import type { SendFn } from "./paginate";
+import type { PropertiesResponse } from "../models/properties";
+
+/**
+ * Names of every (non-archived) property defined for an object type.
+ *
+ * Backs the `properties: "all"` stream mode so syncs pick up custom fields
+ * without code changes. Resolved once per stream rather than cached, so a
+ * property added mid-day is included on the next run.
+ */
+export async function listPropertyNames(send: SendFn, objectType: string): Promise<string[]> {
+  const res = await send<PropertiesResponse>({
+    method: "GET",
+    path: `/crm/v3/properties/${objectType}`,
+    operation: "properties.list",
+  });
+  return (res.data?.results ?? []).map((p) => p.name);
+}
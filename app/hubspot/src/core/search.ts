@@ -0,0 +1,222 @@
+import type { SendFn } from "./paginate";
+import { ConnectorError } from "../types/errors";
+import type {
+  HubSpotSearchResponse,
+  PropertyName,
+  SearchExistenceOperator,
+  SearchFilter,
+  SearchFilterGroup,
+  SearchListOperator,
+  SearchRequest,
+  SearchSort,
+  SearchValue,
+  SearchValueOperator,
+} from "../models/shared";
+
+/** HubSpot refuses to page a single search query past this many results. */
+export const SEARCH_RESULT_CEILING = 10000;
+
+/** HubSpot's per-request filter limits: filters in one group, and across all groups. */
+export const SEARCH_MAX_FILTERS_PER_GROUP = 6;
+export const SEARCH_MAX_FILTERS = 18;
+
+const toSearchValue = (value: SearchValue): string => (value instanceof Date ? String(value.getTime()) : String(value));
+
+/**
+ * SearchBuilder
+ *
+ * Fluent builder for search request bodies. `where` adds an AND-ed filter to
+ * the current group; `or` starts a new (OR-ed) group.
+ *
+ * @example
+ * searchBuilder<DealProperties>()
+ *   .where("dealstage", "EQ", "closedwon")
+ *   .where("hs_lastmodifieddate", "GTE", new Date("2024-01-01"))
+ *   .sort("hs_lastmodifieddate", "DESCENDING")
+ *   .properties("dealname", "amount")
+ *   .build();
+ */
+export class SearchBuilder<P = Record<string, unknown>> {
+  private groups: SearchFilterGroup<P>[] = [];
+  private current: SearchFilter<P>[] = [];
+  private request: Omit<SearchRequest<P>, "filterGroups"> = {};
+
+  where(propertyName: PropertyName<P>, operator: SearchValueOperator, value: SearchValue): this;
+  where(propertyName: PropertyName<P>, operator: "BETWEEN", value: SearchValue, highValue: SearchValue): this;
+  where(propertyName: PropertyName<P>, operator: SearchListOperator, values: SearchValue[]): this;
+  where(propertyName: PropertyName<P>, operator: SearchExistenceOperator): this;
+  where(
+    propertyName: PropertyName<P>,
+    operator: SearchFilter<P>["operator"],
+    value?: SearchValue | SearchValue[],
+    highValue?: SearchValue
+  ): this {
+    const filter: SearchFilter<P> = { propertyName, operator };
+    if (Array.isArray(value)) filter.values = value.map(toSearchValue);
+    else if (value !== undefined) filter.value = toSearchValue(value);
+    if (highValue !== undefined) filter.highValue = toSearchValue(highValue);
+    this.current.push(filter);
+    return this;
+  }
+
+  or(): this {
+    if (this.current.length) this.groups.push({ filters: this.current });
+    this.current = [];
+    return this;
+  }
+
+  sort(propertyName: PropertyName<P>, direction: SearchSort<P>["direction"] = "ASCENDING"): this {
+    this.request.sorts = [...(this.request.sorts ?? []), { propertyName, direction }];
+    return this;
+  }
+
+  properties(...names: PropertyName<P>[]): this {
+    this.request.properties = [...(this.request.properties ?? []), ...names];
+    return this;
+  }
+
+  query(text: string): this {
+    this.request.query = text;
+    return this;
+  }
+
+  limit(limit: number): this {
+    this.request.limit = limit;
+    return this;
+  }
+
+  build(): SearchRequest<P> {
+    const filterGroups = this.current.length ? [...this.groups, { filters: [...this.current] }] : [...this.groups];
+    return { ...this.request, ...(filterGroups.length ? { filterGroups } : {}) };
+  }
+}
+
+export function searchBuilder<P = Record<string, unknown>>() {
+  return new SearchBuilder<P>();
+}
+
+// Search results return datetimes as ISO strings or epoch millis depending on the property
+function toEpochMs(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  const str = String(value);
+  const ms = /^\d+$/.test(str) ? Number(str) : Date.parse(str);
+  return Number.isFinite(ms) ? ms : undefined;
+}
+
+function invalidStreamSearch(message: string): ConnectorError {
+  return new ConnectorError({ message, code: "INVALID_SEARCH_REQUEST", source: "transport" });
+}
+
+/**
+ * Rejects requests `streamSearch` cannot run to completion: re-slicing adds a
+ * bound filter to every group, which must still fit HubSpot's filter limits,
+ * and results are always sorted on the slice property.
+ */
+function assertStreamable(request: SearchRequest<any>, sliceProperty: string): void {
+  const groups = request.filterGroups ?? [];
+  const tooLarge = groups.findIndex((g) => g.filters.length >= SEARCH_MAX_FILTERS_PER_GROUP);
+  if (tooLarge !== -1) {
+    throw invalidStreamSearch(
+      `Filter group ${tooLarge} has ${groups[tooLarge].filters.length} filters; streamed searches allow ` +
+        `${SEARCH_MAX_FILTERS_PER_GROUP - 1} per group, leaving room for the "${sliceProperty}" slice bound`
+    );
+  }
+  const total = groups.reduce((n, g) => n + g.filters.length, 0);
+  if (total + Math.max(groups.length, 1) > SEARCH_MAX_FILTERS) {
+    throw invalidStreamSearch(
+      `Search has ${total} filters in ${groups.length} groups; with one "${sliceProperty}" slice bound per group ` +
+        `streamed searches allow ${SEARCH_MAX_FILTERS} filters in total`
+    );
+  }
+  const sorts = request.sorts ?? [];
+  if (sorts.some((s) => s.propertyName !== sliceProperty || s.direction !== "ASCENDING")) {
+    throw invalidStreamSearch(
+      `Streamed searches are sorted ascending on "${sliceProperty}"; remove \`sorts\` or use the non-streaming search`
+    );
+  }
+}
+
+function withLowerBound<P>(groups: SearchFilterGroup<P>[] | undefined, sliceProperty: string, lowerBound?: number) {
+  if (lowerBound === undefined) return groups;
+  const bound: SearchFilter<P> = { propertyName: sliceProperty, operator: "GTE", value: String(lowerBound) };
+  if (!groups?.length) return [{ filters: [bound] }];
+  return groups.map((g) => ({ filters: [...g.filters, bound] }));
+}
+
+/**
+ * Streams every match of a search request, transparently working around the
+ * 10k-result ceiling.
+ *
+ * Results are sorted ascending on `sliceProperty` (a last-modified timestamp).
+ * When the next page would cross the ceiling, a new query is issued with an
+ * added `sliceProperty >= <last seen value>` bound and the cursor reset. Items
+ * already yielded at the boundary timestamp are skipped, so each record is
+ * yielded once.
+ *
+ * Throws INVALID_SEARCH_REQUEST before the first request when a filter group
+ * has no room for the bound (HubSpot allows 6 filters per group, 18 in total)
+ * or when `sorts` asks for any order other than ascending `sliceProperty`.
+ */
+export async function* streamSearch<T extends { id: string; properties?: Record<string, unknown> }>(params: {
+  send: SendFn;
+  path: string;
+  request: SearchRequest<any>;
+  sliceProperty?: string;
+}) {
+  const sliceProperty = params.sliceProperty ?? "hs_lastmodifieddate";
+  assertStreamable(params.request, sliceProperty);
+  const limit = Math.min(params.request.limit ?? 100, 200);
+  const requested = params.request.properties;
+  const properties = requested?.length && !requested.includes(sliceProperty) ? [...requested, sliceProperty] : requested;
+
+  let lowerBound: number | undefined;
+  let boundaryIds = new Set<string>();
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    let after = lowerBound === undefined ? params.request.after : undefined;
+    let lastValue: number | undefined;
+    let lastValueIds = new Set<string>();
+    let yielded = 0;
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      const body: SearchRequest<any> = {
+        ...params.request,
+        filterGroups: withLowerBound(params.request.filterGroups, sliceProperty, lowerBound),
+        sorts: [{ propertyName: sliceProperty, direction: "ASCENDING" }],
+        properties,
+        limit,
+        after,
+      };
+      const res = await params.send<HubSpotSearchResponse<T>>({ method: "POST", path: params.path, body, operation: "search" });
+      for (const item of res.data?.results ?? []) {
+        if (boundaryIds.has(item.id)) continue;
+        yield item;
+        yielded += 1;
+        const value = toEpochMs(item.properties?.[sliceProperty]);
+        if (value === undefined) continue;
+        if (value !== lastValue) {
+          lastValue = value;
+          lastValueIds = new Set();
+        }
+        lastValueIds.add(item.id);
+      }
+      const next = res.data?.paging?.next?.after;
+      if (!next) return;
+      if (Number(next) + limit > SEARCH_RESULT_CEILING) break;
+      after = next;
+    }
+
+    if (lastValue === undefined || (lastValue === lowerBound && yielded === 0)) {
+      throw new ConnectorError({
+        message: `Search exceeded ${SEARCH_RESULT_CEILING} results and cannot be re-sliced on "${sliceProperty}"`,
+        code: "SEARCH_LIMIT_EXCEEDED",
+        source: "transport",
+      });
+    }
+    if (lastValue === lowerBound) lastValueIds.forEach((id) => boundaryIds.add(id));
+    else boundaryIds = lastValueIds;
+    lowerBound = lastValue;
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Associations domain (CRM v4)
+ *
+ * Why a separate domain?
+ * - Associations are edges between two object types rather than objects with a
+ *   path of their own, so every call is parameterized by `fromObjectType` and
+ *   `toObjectType` (`/crm/v4/objects/{from}/{id}/associations/{to}` and
+ *   `/crm/v4/associations/{from}/{to}/batch/*`).
+ * - v4 exposes association labels/types, which the v3 `associations` query
+ *   parameter on list/get does not.
+ * - https://developers.hubspot.com/docs/api/crm/associations
+ */
+import type { SendFn } from "../core/paginate";
+import { paginateCursor } from "../core/paginate";
+import { chunk } from "../core/batch";
+import type {
+  AssociatedObject,
+  AssociationBatchReadItem,
+  AssociationBatchReadResult,
+  AssociationCreated,
+  AssociationLabelsResponse,
+  AssociationsResponse,
+} from "../models/associations";
+import type {
+  AssociationLabelsParams,
+  BatchCreateAssociationsParams,
+  BatchReadAssociationsParams,
+  BatchRemoveAssociationsParams,
+  CreateAssociationParams,
+  HubSpotBatchError,
+  HubSpotBatchResponse,
+  HubSpotObject,
+  ListAssociationsParams,
+  RemoveAssociationParams,
+  StreamAssociationsParams,
+} from "../models/shared";
+
+/** v4 batch association endpoints accept up to 1000 inputs per call. */
+const ASSOCIATION_BATCH_LIMIT = 1000;
+
+/**
+ * IDs of records associated to `object` (fetched with the `associations`
+ * option on list/get/stream), de-duplicated across association types.
+ */
+export function associatedIds(object: Pick<HubSpotObject, "associations">, toObjectType: string): string[] {
+  const results = object.associations?.[toObjectType]?.results ?? [];
+  return Array.from(new Set(results.map((r) => String(r.id))));
+}
+
+export function buildAssociationsDomain(send: SendFn) {
+  const batchPath = (p: { fromObjectType: string; toObjectType: string }, action: string) =>
+    `/crm/v4/associations/${p.fromObjectType}/${p.toObjectType}/batch/${action}` as const;
+
+  const api = {
+    listAssociations: (params: ListAssociationsParams) => {
+      const { fromObjectType, objectId, toObjectType } = params;
+      const query: Record<string, any> = {};
+      if (params.limit) query.limit = params.limit;
+      if (params.after) query.after = params.after;
+      return send<AssociationsResponse>({
+        method: "GET",
+        path: `/crm/v4/objects/${fromObjectType}/${objectId}/associations/${toObjectType}` as const,
+        query,
+      });
+    },
+    streamAssociations: async function* (params: StreamAssociationsParams) {
+      const { fromObjectType, objectId, toObjectType } = params;
+      const path = `/crm/v4/objects/${fromObjectType}/${objectId}/associations/${toObjectType}` as const;
+      for await (const items of paginateCursor<AssociatedObject>({ send, path, pageSize: params.pageSize ?? 500 })) {
+        for (const item of items) yield item;
+      }
+    },
+    // Associations for many source records at once; chunks run in parallel under the limiter
+    batchReadAssociations: async (params: BatchReadAssociationsParams): Promise<AssociationBatchReadResult> => {
+      const ids = Array.from(new Set(params.ids));
+      const responses = await Promise.all(
+        chunk(ids, ASSOCIATION_BATCH_LIMIT).map((inputs) =>
+          send<HubSpotBatchResponse<AssociationBatchReadItem>>({
+            method: "POST",
+            path: batchPath(params, "read"),
+            body: { inputs: inputs.map((id) => ({ id })) },
+            operation: "associations.batchRead",
+          })
+        )
+      );
+      const results: AssociationBatchReadItem[] = [];
+      const errors: HubSpotBatchError[] = [];
+      for (const res of responses) {
+        results.push(...(res.data?.results ?? []));
+        errors.push(...(res.data?.errors ?? []));
+      }
+      return { results, errors };
+    },
+    // Labeled association when `types` is given, otherwise HubSpot's default association
+    createAssociation: (params: CreateAssociationParams) => {
+      const { fromObjectType, fromId, toObjectType, toId } = params;
+      if (!params.types?.length) {
+        return send<AssociationCreated>({
+          method: "PUT",
+          path: `/crm/v4/objects/${fromObjectType}/${fromId}/associations/default/${toObjectType}/${toId}` as const,
+          operation: "associations.create",
+        });
+      }
+      return send<AssociationCreated>({
+        method: "PUT",
+        path: `/crm/v4/objects/${fromObjectType}/${fromId}/associations/${toObjectType}/${toId}` as const,
+        body: params.types,
+        operation: "associations.create",
+      });
+    },
+    // Removes every association (all labels) between the two records
+    removeAssociation: (params: RemoveAssociationParams) => {
+      const { fromObjectType, fromId, toObjectType, toId } = params;
+      return send<void>({
+        method: "DELETE",
+        path: `/crm/v4/objects/${fromObjectType}/${fromId}/associations/${toObjectType}/${toId}` as const,
+        operation: "associations.remove",
+      });
+    },
+    batchCreateAssociations: async (params: BatchCreateAssociationsParams) => {
+      const labeled = params.inputs.filter((i) => i.types?.length);
+      const unlabeled = params.inputs.filter((i) => !i.types?.length);
+      const requests = [
+        ...chunk(labeled, ASSOCIATION_BATCH_LIMIT).map((inputs) => ({
+          path: batchPath(params, "create"),
+          body: { inputs: inputs.map((i) => ({ from: { id: i.fromId }, to: { id: i.toId }, types: i.types })) },
+        })),
+        ...chunk(unlabeled, ASSOCIATION_BATCH_LIMIT).map((inputs) => ({
+          path: batchPath(params, "associate/default"),
+          body: { inputs: inputs.map((i) => ({ from: { id: i.fromId }, to: { id: i.toId } })) },
+        })),
+      ];
+      const responses = await Promise.all(
+        requests.map((r) => send<HubSpotBatchResponse<AssociationCreated>>({ method: "POST", ...r, operation: "associations.batchCreate" }))
+      );
+      const results: AssociationCreated[] = [];
+      const errors: HubSpotBatchError[] = [];
+      for (const res of responses) {
+        results.push(...(res.data?.results ?? []));
+        errors.push(...(res.data?.errors ?? []));
+      }
+      return { results, errors };
+    },
+    batchRemoveAssociations: async (params: BatchRemoveAssociationsParams) => {
+      await Promise.all(
+        chunk(params.inputs, ASSOCIATION_BATCH_LIMIT).map((inputs) =>
+          send<void>({
+            method: "POST",
+            path: batchPath(params, "archive"),
+            body: { inputs: inputs.map((i) => ({ from: { id: i.fromId }, to: i.toIds.map((id) => ({ id })) })) },
+            operation: "associations.batchRemove",
+          })
+        )
+      );
+    },
+    listAssociationLabels: (params: AssociationLabelsParams) => {
+      return send<AssociationLabelsResponse>({
+        method: "GET",
+        path: `/crm/v4/associations/${params.fromObjectType}/${params.toObjectType}/labels` as const,
+      });
+    },
+  };
+  return api;
+}
@@ -13,6 +13,16 @@ export function buildCompaniesDomain(send: SendFn) {
     getCompany: base.get,
     streamCompanies: base.streamAll,
     getCompanies: base.getAll,
+    batchGetCompanies: base.batchGet,
+    createCompany: base.create,
+    updateCompany: base.update,
+    archiveCompany: base.archive,
+    batchCreateCompanies: base.batchCreate,
+    batchUpdateCompanies: base.batchUpdate,
+    batchArchiveCompanies: base.batchArchive,
+    batchUpsertCompanies: base.batchUpsert,
+    searchCompanies: base.search,
+    streamSearchCompanies: base.streamSearch,
   };
 }
 
@@ -8,12 +8,24 @@ import { makeCrudDomain } from "../core/make-crud-domain";
 import type { Contact, ContactsResponse, ContactResponse } from "../models/contacts";
 
 export function buildContactsDomain(send: SendFn) {
-  const base = makeCrudDomain<Contact, ContactsResponse, ContactResponse>("/crm/v3/objects/contacts", send);
+  const base = makeCrudDomain<Contact, ContactsResponse, ContactResponse>("/crm/v3/objects/contacts", send, {
+    sliceProperty: "lastmodifieddate",
+  });
   return {
     listContacts: base.list,
     getContact: base.get,
     streamContacts: base.streamAll,
     getContacts: base.getAll,
+    batchGetContacts: base.batchGet,
+    createContact: base.create,
+    updateContact: base.update,
+    archiveContact: base.archive,
+    batchCreateContacts: base.batchCreate,
+    batchUpdateContacts: base.batchUpdate,
+    batchArchiveContacts: base.batchArchive,
+    batchUpsertContacts: base.batchUpsert,
+    searchContacts: base.search,
+    streamSearchContacts: base.streamSearch,
   };
 }
 
@@ -0,0 +1,41 @@
+/**
+ * Currencies domain
+ *
+ * Why a separate domain?
+ * - Currencies are portal settings under `/settings/v3/currencies`, not CRM
+ *   records: one company currency plus exchange rates to other currencies.
+ * - Every rate ever set is listed (cursor paged), each with `effectiveAt`,
+ *   so amounts can be converted at the rate in force on a given date;
+ *   `listCurrentExchangeRates` returns only the rates in force now.
+ * - https://developers.hubspot.com/docs/api/settings/currencies
+ */
+import type { SendFn } from "../core/paginate";
+import { paginateCursor } from "../core/paginate";
+import type {
+  CompanyCurrencyResponse,
+  CurrentExchangeRatesResponse,
+  ExchangeRate,
+  ExchangeRatesResponse,
+} from "../models/currencies";
+import type { ListExchangeRatesParams, StreamExchangeRatesParams } from "../models/shared";
+
+export function buildCurrenciesDomain(send: SendFn) {
+  const api = {
+    getCompanyCurrency: () => send<CompanyCurrencyResponse>({ method: "GET", path: "/settings/v3/currencies/company-currency" }),
+    listExchangeRates: (params?: ListExchangeRatesParams) => {
+      const query: Record<string, any> = {};
+      if (params?.limit) query.limit = params.limit;
+      if (params?.after) query.after = params.after;
+      return send<ExchangeRatesResponse>({ method: "GET", path: "/settings/v3/currencies/exchange-rates", query });
+    },
+    listCurrentExchangeRates: () =>
+      send<CurrentExchangeRatesResponse>({ method: "GET", path: "/settings/v3/currencies/exchange-rates/current" }),
+    // Every exchange rate, current and historical
+    streamExchangeRates: async function* (params?: StreamExchangeRatesParams) {
+      for await (const items of paginateCursor<ExchangeRate>({ send, path: "/settings/v3/currencies/exchange-rates", pageSize: params?.pageSize })) {
+        for (const item of items) yield item;
+      }
+    },
+  };
+  return api;
+}
@@ -13,6 +13,16 @@ export function buildDealsDomain(send: SendFn) {
     getDeal: base.get,
     streamDeals: base.streamAll,
     getDeals: base.getAll,
+    batchGetDeals: base.batchGet,
+    createDeal: base.create,
+    updateDeal: base.update,
+    archiveDeal: base.archive,
+    batchCreateDeals: base.batchCreate,
+    batchUpdateDeals: base.batchUpdate,
+    batchArchiveDeals: base.batchArchive,
+    batchUpsertDeals: base.batchUpsert,
+    searchDeals: base.search,
+    streamSearchDeals: base.streamSearch,
   };
 }
 
@@ -15,34 +15,56 @@
  * by `objectType`, but the CRUD/pagination behavior remains identical.
  */
 import type { SendFn } from "../core/paginate";
-import { paginateCursor } from "../core/paginate";
+import { makeCrudDomain } from "../core/make-crud-domain";
 import type { Engagement, EngagementsResponse, EngagementResponse } from "../models/engagements";
+import type {
+  ArchiveEngagementParams,
+  BatchArchiveEngagementParams,
+  BatchCreateEngagementParams,
+  BatchGetEngagementParams,
+  BatchUpdateEngagementParams,
+  BatchUpsertEngagementParams,
+  CreateEngagementParams,
+  EngagementObjectType,
+  EngagementParams,
+  GetAllEngagementParams,
+  GetEngagementParams,
+  SearchEngagementParams,
+  StreamEngagementParams,
+  UpdateEngagementParams,
+} from "../models/shared";
 
 export function buildEngagementsDomain(send: SendFn) {
+  // Shared CRUD bound to one engagement object type
+  const crudFor = (objectType: EngagementObjectType) =>
+    makeCrudDomain<Engagement, EngagementsResponse, EngagementResponse>(`/crm/v3/objects/${objectType}`, send);
+
   const api = {
-    listEngagements: (params: { objectType: "notes" | "calls" | "emails" | "meetings" | "tasks"; properties?: string[]; limit?: number; after?: string }) => {
+    listEngagements: (params: EngagementParams) => {
       const { objectType } = params;
       const query: Record<string, any> = {};
       if (params?.properties?.length) query.properties = params.properties.join(",");
+      if (params?.propertiesWithHistory?.length) query.propertiesWithHistory = params.propertiesWithHistory.join(",");
+      if (params?.associations?.length) query.associations = params.associations.join(",");
       if (params?.limit) query.limit = params.limit;
       if (params?.after) query.after = params.after;
+      if (params?.archived) query.archived = true;
       return send<EngagementsResponse>({ method: "GET", path: `/crm/v3/objects/${objectType}` as const, query });
     },
-    getEngagement: (params: { objectType: "notes" | "calls" | "emails" | "meetings" | "tasks"; id: string; properties?: string[] }) => {
+    getEngagement: (params: GetEngagementParams) => {
       const { objectType, id } = params;
       const query: Record<string, any> = {};
       if (params?.properties?.length) query.properties = params.properties.join(",");
+      if (params?.propertiesWithHistory?.length) query.propertiesWithHistory = params.propertiesWithHistory.join(",");
+      if (params?.associations?.length) query.associations = params.associations.join(",");
       return send<EngagementResponse>({ method: "GET", path: `/crm/v3/objects/${objectType}/${id}` as const, query });
     },
-    streamEngagements: async function* (params: { objectType: "notes" | "calls" | "emails" | "meetings" | "tasks"; properties?: string[]; pageSize?: number }) {
-      const { objectType } = params;
-      const query: Record<string, any> = {};
-      if (params?.properties?.length) query.properties = params.properties.join(",");
-      for await (const items of paginateCursor<Engagement>({ send, path: `/crm/v3/objects/${objectType}` as const, query, pageSize: params?.pageSize })) {
-        for (const item of items) yield item;
-      }
+    // Same streaming (including `properties: "all"`) as the fixed domains, bound to the object type
+    streamEngagements: (params: StreamEngagementParams) => {
+      const { objectType, ...rest } = params;
+      return crudFor(objectType).streamAll(rest);
     },
-    getEngagements: async (params: { objectType: "notes" | "calls" | "emails" | "meetings" | "tasks"; properties?: string[]; pageSize?: number; maxItems?: number }) => {
+    getEngagements: async (params: GetAllEngagementParams) => {
       const results: Engagement[] = [];
       for await (const item of api.streamEngagements(params)) {
         results.push(item);
@@ -50,6 +72,46 @@ export function buildEngagementsDomain(send: SendFn) {
       }
       return results;
     },
+    batchGetEngagements: (params: BatchGetEngagementParams) => {
+      const { objectType, ...rest } = params;
+      return crudFor(objectType).batchGet(rest);
+    },
+    createEngagement: (params: CreateEngagementParams) => {
+      const { objectType, ...rest } = params;
+      return crudFor(objectType).create(rest);
+    },
+    updateEngagement: (params: UpdateEngagementParams) => {
+      const { objectType, ...rest } = params;
+      return crudFor(objectType).update(rest);
+    },
+    archiveEngagement: (params: ArchiveEngagementParams) => {
+      const { objectType, ...rest } = params;
+      return crudFor(objectType).archive(rest);
+    },
+    batchCreateEngagements: (params: BatchCreateEngagementParams) => {
+      const { objectType, ...rest } = params;
+      return crudFor(objectType).batchCreate(rest);
+    },
+    batchUpdateEngagements: (params: BatchUpdateEngagementParams) => {
+      const { objectType, ...rest } = params;
+      return crudFor(objectType).batchUpdate(rest);
+    },
+    batchArchiveEngagements: (params: BatchArchiveEngagementParams) => {
+      const { objectType, ...rest } = params;
+      return crudFor(objectType).batchArchive(rest);
+    },
+    batchUpsertEngagements: (params: BatchUpsertEngagementParams) => {
+      const { objectType, ...rest } = params;
+      return crudFor(objectType).batchUpsert(rest);
+    },
+    searchEngagements: (params: SearchEngagementParams) => {
+      const { objectType, ...request } = params;
+      return crudFor(objectType).search(request);
+    },
+    streamSearchEngagements: (params: SearchEngagementParams) => {
+      const { objectType, ...request } = params;
+      return crudFor(objectType).streamSearch(request);
+    },
   };
   return api;
 }
@@ -0,0 +1,54 @@
+/**
+ * Owners domain
+ *
+ * Why not `makeCrudDomain`?
+ * - Owners live at `/crm/v3/owners` (not under `/crm/v3/objects`), have no
+ *   `properties`, and are read-only through the public API.
+ * - Active and archived owners are separate result sets (`archived=true`
+ *   returns only archived owners), so streaming can chain both.
+ * - https://developers.hubspot.com/docs/api/crm/owners
+ */
+import type { SendFn } from "../core/paginate";
+import { paginateCursor } from "../core/paginate";
+import type { Owner, OwnerResponse, OwnersResponse } from "../models/owners";
+import type { GetAllOwnersParams, GetOwnerParams, ListOwnersParams, StreamOwnersParams } from "../models/shared";
+
+export function buildOwnersDomain(send: SendFn) {
+  const api = {
+    listOwners: (params?: ListOwnersParams) => {
+      const query: Record<string, any> = {};
+      if (params?.email) query.email = params.email;
+      if (params?.archived) query.archived = true;
+      if (params?.limit) query.limit = params.limit;
+      if (params?.after) query.after = params.after;
+      return send<OwnersResponse>({ method: "GET", path: "/crm/v3/owners", query });
+    },
+    getOwner: (params: GetOwnerParams) => {
+      const query: Record<string, any> = {};
+      if (params.idProperty) query.idProperty = params.idProperty;
+      if (params.archived) query.archived = true;
+      return send<OwnerResponse>({ method: "GET", path: `/crm/v3/owners/${params.ownerId}` as const, query });
+    },
+    // Active owners, then archived ones when `includeArchived` is set
+    streamOwners: async function* (params?: StreamOwnersParams) {
+      const query: Record<string, any> = {};
+      if (params?.email) query.email = params.email;
+      const passes = params?.includeArchived ? [false, true] : [false];
+      for (const archived of passes) {
+        const passQuery = archived ? { ...query, archived: true } : query;
+        for await (const items of paginateCursor<Owner>({ send, path: "/crm/v3/owners", query: passQuery, pageSize: params?.pageSize })) {
+          for (const item of items) yield item;
+        }
+      }
+    },
+    getOwners: async (params?: GetAllOwnersParams) => {
+      const results: Owner[] = [];
+      for await (const item of api.streamOwners(params)) {
+        results.push(item);
+        if (params?.maxItems && results.length >= params.maxItems) break;
+      }
+      return results;
+    },
+  };
+  return api;
+}
@@ -0,0 +1,71 @@
+/**
+ * Pipelines domain
+ *
+ * Why a separate domain?
+ * - Pipelines are configuration, not records: `/crm/v3/pipelines/{objectType}`
+ *   returns every pipeline with its stages in one response (no cursor paging).
+ * - Stage IDs on deals/tickets (`dealstage`, `hs_pipeline_stage`) are internal
+ *   IDs; labels, order and won/closed semantics only exist here.
+ * - https://developers.hubspot.com/docs/api/crm/pipelines
+ */
+import type { SendFn } from "../core/paginate";
+import type {
+  PipelineObjectType,
+  PipelineResponse,
+  PipelinesResponse,
+  PipelineStage,
+  PipelineStagesResponse,
+  StageDefinition,
+} from "../models/pipelines";
+import type {
+  GetPipelineParams,
+  ListPipelinesParams,
+  ListPipelineStagesParams,
+  ListStageDefinitionsParams,
+} from "../models/shared";
+
+/** Typed view of a stage's string metadata (see `StageDefinition`). */
+function describeStage(objectType: PipelineObjectType, stage: PipelineStage) {
+  const meta = stage.metadata ?? {};
+  const probability = meta.probability !== undefined && meta.probability !== "" ? Number(meta.probability) : null;
+  const isClosed = meta.isClosed === "true" || meta.ticketState === "CLOSED";
+  const closedWon = objectType === "deals" && isClosed && probability === 1;
+  return { probability, isClosed, closedWon };
+}
+
+export function buildPipelinesDomain(send: SendFn) {
+  const api = {
+    listPipelines: (params: ListPipelinesParams) => {
+      return send<PipelinesResponse>({ method: "GET", path: `/crm/v3/pipelines/${params.objectType}` as const });
+    },
+    getPipeline: (params: GetPipelineParams) => {
+      return send<PipelineResponse>({ method: "GET", path: `/crm/v3/pipelines/${params.objectType}/${params.pipelineId}` as const });
+    },
+    listPipelineStages: (params: ListPipelineStagesParams) => {
+      return send<PipelineStagesResponse>({
+        method: "GET",
+        path: `/crm/v3/pipelines/${params.objectType}/${params.pipelineId}/stages` as const,
+      });
+    },
+    // Every stage of every pipeline, flattened with typed probability/closed/won flags
+    listStageDefinitions: async (params: ListStageDefinitionsParams): Promise<StageDefinition[]> => {
+      const res = await api.listPipelines({ objectType: params.objectType });
+      const stages: StageDefinition[] = [];
+      for (const pipeline of res.data?.results ?? []) {
+        for (const stage of pipeline.stages ?? []) {
+          stages.push({
+            pipelineId: pipeline.id,
+            pipelineLabel: pipeline.label,
+            stageId: stage.id,
+            label: stage.label,
+            displayOrder: stage.displayOrder,
+            archived: Boolean(stage.archived),
+            ...describeStage(params.objectType, stage),
+          });
+        }
+      }
+      return stages;
+    },
+  };
+  return api;
+}
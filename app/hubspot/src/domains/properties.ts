@@ -0,0 +1,80 @@
+/**
+ * Properties domain (metadata)
+ *
+ * Why a separate domain?
+ * - Property definitions are schema, not records: they live under
+ *   `/crm/v3/properties/{objectType}` and are returned in full (no cursor paging).
+ * - The same endpoints serve every object type, so calls are parameterized by
+ *   `objectType` like engagements.
+ * - https://developers.hubspot.com/docs/api/crm/properties
+ */
+import type { SendFn } from "../core/paginate";
+import type {
+  DiscoveredProperty,
+  PropertiesResponse,
+  PropertyGroupResponse,
+  PropertyGroupsResponse,
+  PropertyResponse,
+} from "../models/properties";
+import type {
+  CreatePropertyGroupParams,
+  CreatePropertyParams,
+  DiscoverPropertiesParams,
+  GetPropertyParams,
+  ListPropertiesParams,
+  ListPropertyGroupsParams,
+} from "../models/shared";
+
+export function buildPropertiesDomain(send: SendFn) {
+  const api = {
+    listProperties: (params: ListPropertiesParams) => {
+      const query: Record<string, any> = {};
+      if (params.archived) query.archived = true;
+      return send<PropertiesResponse>({ method: "GET", path: `/crm/v3/properties/${params.objectType}` as const, query });
+    },
+    getProperty: (params: GetPropertyParams) => {
+      return send<PropertyResponse>({
+        method: "GET",
+        path: `/crm/v3/properties/${params.objectType}/${params.propertyName}` as const,
+      });
+    },
+    createProperty: (params: CreatePropertyParams) => {
+      return send<PropertyResponse>({
+        method: "POST",
+        path: `/crm/v3/properties/${params.objectType}` as const,
+        body: params.property,
+        operation: "properties.create",
+      });
+    },
+    listPropertyGroups: (params: ListPropertyGroupsParams) => {
+      return send<PropertyGroupsResponse>({ method: "GET", path: `/crm/v3/properties/${params.objectType}/groups` as const });
+    },
+    createPropertyGroup: (params: CreatePropertyGroupParams) => {
+      return send<PropertyGroupResponse>({
+        method: "POST",
+        path: `/crm/v3/properties/${params.objectType}/groups` as const,
+        body: params.group,
+        operation: "properties.createGroup",
+      });
+    },
+    // Portal schema for an object type: types, enumeration options and calculated flags
+    discoverProperties: async (params: DiscoverPropertiesParams): Promise<DiscoveredProperty[]> => {
+      const res = await api.listProperties({ objectType: params.objectType });
+      return (res.data?.results ?? [])
+        .filter((p) => params.includeHidden || !p.hidden)
+        .map((p) => ({
+          name: p.name,
+          label: p.label,
+          type: p.type,
+          fieldType: p.fieldType,
+          groupName: p.groupName,
+          options: (p.options ?? []).filter((o) => !o.hidden).map((o) => ({ label: o.label, value: o.value })),
+          calculated: Boolean(p.calculated),
+          hubspotDefined: Boolean(p.hubspotDefined),
+          hasUniqueValue: Boolean(p.hasUniqueValue),
+          readOnly: Boolean(p.modificationMetadata?.readOnlyValue),
+        }));
+    },
+  };
+  return api;
+}
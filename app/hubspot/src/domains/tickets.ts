@@ -13,6 +13,16 @@ export function buildTicketsDomain(send: SendFn) {
     getTicket: base.get,
     streamTickets: base.streamAll,
     getTickets: base.getAll,
+    batchGetTickets: base.batchGet,
+    createTicket: base.create,
+    updateTicket: base.update,
+    archiveTicket: base.archive,
+    batchCreateTickets: base.batchCreate,
+    batchUpdateTickets: base.batchUpdate,
+    batchArchiveTickets: base.batchArchive,
+    batchUpsertTickets: base.batchUpsert,
+    searchTickets: base.search,
+    streamSearchTickets: base.streamSearch,
   };
 }
 
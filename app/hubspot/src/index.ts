@@ -19,33 +19,120 @@ import type { HttpResponseEnvelope } from "./types/envelopes";
 import { withDerivedDefaults } from "./config/defaults";
 import { HttpClient } from "./client/http-client";
 import { TokenBucketLimiter } from "./rate-limit/token-bucket";
+import { AdaptiveRateLimiter } from "./rate-limit/adaptive";
+import { ResponseCache } from "./cache/response-cache";
+import { ConcurrencySemaphore, type ConcurrencyMetrics } from "./rate-limit/semaphore";
+import { OAuth2TokenManager } from "./auth/oauth2";
 import { paginateCursor, type SendFn } from "./core/paginate";
 import { buildContactsDomain } from "./domains/contacts";
 import { buildCompaniesDomain } from "./domains/companies";
 import { buildDealsDomain } from "./domains/deals";
 import { buildTicketsDomain } from "./domains/tickets";
 import { buildEngagementsDomain } from "./domains/engagements";
+import { buildAssociationsDomain } from "./domains/associations";
+import { buildPropertiesDomain } from "./domains/properties";
+import { buildPipelinesDomain } from "./domains/pipelines";
+import { buildOwnersDomain } from "./domains/owners";
+import { buildCurrenciesDomain } from "./domains/currencies";
+import type {
+  ListParams,
+  GetParams,
+  StreamParams,
+  GetAllParams,
+  EngagementParams,
+  GetEngagementParams,
+  StreamEngagementParams,
+  GetAllEngagementParams,
+  ContactProperties,
+  CompanyProperties,
+  DealProperties,
+  TicketProperties,
+  SearchRequest,
+  SearchEngagementParams,
+  BatchGetParams,
+  BatchGetEngagementParams,
+  CreateParams,
+  UpdateParams,
+  ArchiveParams,
+  BatchCreateParams,
+  BatchUpdateParams,
+  BatchArchiveParams,
+  BatchUpsertParams,
+  CreateEngagementParams,
+  UpdateEngagementParams,
+  ArchiveEngagementParams,
+  BatchCreateEngagementParams,
+  BatchUpdateEngagementParams,
+  BatchArchiveEngagementParams,
+  BatchUpsertEngagementParams,
+  ListAssociationsParams,
+  StreamAssociationsParams,
+  BatchReadAssociationsParams,
+  CreateAssociationParams,
+  RemoveAssociationParams,
+  BatchCreateAssociationsParams,
+  BatchRemoveAssociationsParams,
+  AssociationLabelsParams,
+  ListPropertiesParams,
+  GetPropertyParams,
+  CreatePropertyParams,
+  ListPropertyGroupsParams,
+  CreatePropertyGroupParams,
+  DiscoverPropertiesParams,
+  ListPipelinesParams,
+  GetPipelineParams,
+  ListPipelineStagesParams,
+  ListStageDefinitionsParams,
+  ListOwnersParams,
+  GetOwnerParams,
+  StreamOwnersParams,
+  GetAllOwnersParams,
+  ListExchangeRatesParams,
+  StreamExchangeRatesParams,
+} from "./models";
 
 export class HubSpotApiConnector implements HubSpotConnector {
   private config?: ConnectorConfig;
   private connected = false;
   private http?: HttpClient;
   private limiter?: TokenBucketLimiter;
+  private adaptive?: AdaptiveRateLimiter;
+  private semaphore?: ConcurrencySemaphore;
+  private cache?: ResponseCache;
+  private oauth?: OAuth2TokenManager;
 
   initialize(userConfig: ConnectorConfig) {
     this.config = withDerivedDefaults(userConfig);
+    this.oauth = this.config.auth.type === "oauth2" ? new OAuth2TokenManager(this.config) : undefined;
+    this.cache = this.config.cache ? new ResponseCache(this.config.cache) : undefined;
     this.http = new HttpClient(this.config, {
-      applyAuth: ({ headers }) => {
+      applyAuth: async ({ headers }) => {
         if (this.config?.auth.type === "bearer") {
           const token = this.config?.auth.bearer?.token;
           if (!token) throw new Error("Missing bearer token");
           headers["Authorization"] = `Bearer ${token}`;
+        } else if (this.oauth) {
+          headers["Authorization"] = `Bearer ${await this.oauth.getAccessToken()}`;
         }
       },
+      onUnauthorized: this.oauth
+        ? async () => {
+            await this.oauth!.refresh();
+            return true;
+          }
+        : undefined,
+      onResponse: ({ headers }) => this.adaptive?.observe(headers),
+      cache: this.cache,
+      acquireSlot: () => this.acquireSlot(),
     });
     const rps = this.config.rateLimit?.requestsPerSecond ?? 0;
     const capacity = this.config.rateLimit?.burstCapacity ?? rps;
     if (rps > 0) this.limiter = new TokenBucketLimiter({ capacity, refillPerSec: rps });
+    this.adaptive = this.config.rateLimit?.adaptiveFromHeaders
+      ? new AdaptiveRateLimiter({ requestsPerSecond: rps, onThrottle: this.config.rateLimit.onThrottle })
+      : undefined;
+    const maxConcurrent = this.config.rateLimit?.concurrentRequests ?? 0;
+    this.semaphore = maxConcurrent > 0 ? new ConcurrencySemaphore({ maxConcurrent }) : undefined;
   }
 
   async connect() {
@@ -65,8 +152,21 @@ export class HubSpotApiConnector implements HubSpotConnector {
     return this.http;
   }
 
-  private async send<T>(opts: Parameters<HttpClient["request"]>[0]): Promise<HttpResponseEnvelope<T>> {
-    if (this.limiter) await this.limiter.waitForSlot();
+  // Taken by the HTTP client right before the network: fresh cache hits and hook responses skip every limiter.
+  // The concurrency slot is held across retries and released on every exit (success, error, timeout)
+  private async acquireSlot(): Promise<() => void> {
+    const release = this.semaphore ? await this.semaphore.acquire() : undefined;
+    try {
+      if (this.adaptive) await this.adaptive.waitForSlot();
+      if (this.limiter) await this.limiter.waitForSlot();
+    } catch (err) {
+      release?.();
+      throw err;
+    }
+    return () => release?.();
+  }
+
+  private send<T>(opts: Parameters<HttpClient["request"]>[0]): Promise<HttpResponseEnvelope<T>> {
     return this.requireClient().request<T>(opts);
   }
 
@@ -74,6 +174,15 @@ export class HubSpotApiConnector implements HubSpotConnector {
     return this.send(opts);
   }
 
+  // Writes through the connector invalidate automatically; use this after changes made elsewhere (e.g. webhooks)
+  invalidateCache(prefix?: string | RegExp): Promise<number> {
+    return this.cache ? this.cache.invalidate(prefix) : Promise.resolve(0);
+  }
+
+  getConcurrencyMetrics(): ConcurrencyMetrics | undefined {
+    return this.semaphore?.metrics();
+  }
+
   // Generic paginator (advanced)
   async *paginate<T = any>(options: { path: string; query?: Record<string, any>; pageSize?: number; extractItems?: (res: any) => T[]; extractNextCursor?: (res: any) => string | undefined }) {
     const sendLite: SendFn = async (args) => this.send<any>(args);
@@ -89,38 +198,129 @@ export class HubSpotApiConnector implements HubSpotConnector {
       ...buildDealsDomain(sendLite),
       ...buildTicketsDomain(sendLite),
       ...buildEngagementsDomain(sendLite),
+      ...buildAssociationsDomain(sendLite),
+      ...buildPropertiesDomain(sendLite),
+      ...buildPipelinesDomain(sendLite),
+      ...buildOwnersDomain(sendLite),
+      ...buildCurrenciesDomain(sendLite),
     };
   }
 
   // Contacts
-  listContacts = (params?: { properties?: string[]; limit?: number; after?: string }) => this.domain.listContacts(params);
-  getContact = (params: { id: string; properties?: string[] }) => this.domain.getContact(params);
-  streamContacts = (params?: { properties?: string[]; pageSize?: number }) => this.domain.streamContacts(params);
-  getContacts = (params?: { properties?: string[]; pageSize?: number; maxItems?: number }) => this.domain.getContacts(params);
+  listContacts = (params?: ListParams) => this.domain.listContacts(params);
+  getContact = (params: GetParams) => this.domain.getContact(params);
+  streamContacts = (params?: StreamParams) => this.domain.streamContacts(params);
+  getContacts = (params?: GetAllParams) => this.domain.getContacts(params);
+  batchGetContacts = (params: BatchGetParams) => this.domain.batchGetContacts(params);
+  createContact = (params: CreateParams<ContactProperties>) => this.domain.createContact(params);
+  updateContact = (params: UpdateParams<ContactProperties>) => this.domain.updateContact(params);
+  archiveContact = (params: ArchiveParams) => this.domain.archiveContact(params);
+  batchCreateContacts = (params: BatchCreateParams<ContactProperties>) => this.domain.batchCreateContacts(params);
+  batchUpdateContacts = (params: BatchUpdateParams<ContactProperties>) => this.domain.batchUpdateContacts(params);
+  batchArchiveContacts = (params: BatchArchiveParams) => this.domain.batchArchiveContacts(params);
+  batchUpsertContacts = (params: BatchUpsertParams<ContactProperties>) => this.domain.batchUpsertContacts(params);
+  searchContacts = (params: SearchRequest<ContactProperties>) => this.domain.searchContacts(params);
+  streamSearchContacts = (params: SearchRequest<ContactProperties>) => this.domain.streamSearchContacts(params);
 
   // Companies
-  listCompanies = (params?: { properties?: string[]; limit?: number; after?: string }) => this.domain.listCompanies(params);
-  getCompany = (params: { id: string; properties?: string[] }) => this.domain.getCompany(params);
-  streamCompanies = (params?: { properties?: string[]; pageSize?: number }) => this.domain.streamCompanies(params);
-  getCompanies = (params?: { properties?: string[]; pageSize?: number; maxItems?: number }) => this.domain.getCompanies(params);
+  listCompanies = (params?: ListParams) => this.domain.listCompanies(params);
+  getCompany = (params: GetParams) => this.domain.getCompany(params);
+  streamCompanies = (params?: StreamParams) => this.domain.streamCompanies(params);
+  getCompanies = (params?: GetAllParams) => this.domain.getCompanies(params);
+  batchGetCompanies = (params: BatchGetParams) => this.domain.batchGetCompanies(params);
+  createCompany = (params: CreateParams<CompanyProperties>) => this.domain.createCompany(params);
+  updateCompany = (params: UpdateParams<CompanyProperties>) => this.domain.updateCompany(params);
+  archiveCompany = (params: ArchiveParams) => this.domain.archiveCompany(params);
+  batchCreateCompanies = (params: BatchCreateParams<CompanyProperties>) => this.domain.batchCreateCompanies(params);
+  batchUpdateCompanies = (params: BatchUpdateParams<CompanyProperties>) => this.domain.batchUpdateCompanies(params);
+  batchArchiveCompanies = (params: BatchArchiveParams) => this.domain.batchArchiveCompanies(params);
+  batchUpsertCompanies = (params: BatchUpsertParams<CompanyProperties>) => this.domain.batchUpsertCompanies(params);
+  searchCompanies = (params: SearchRequest<CompanyProperties>) => this.domain.searchCompanies(params);
+  streamSearchCompanies = (params: SearchRequest<CompanyProperties>) => this.domain.streamSearchCompanies(params);
 
   // Deals
-  listDeals = (params?: { properties?: string[]; limit?: number; after?: string }) => this.domain.listDeals(params);
-  getDeal = (params: { id: string; properties?: string[] }) => this.domain.getDeal(params);
-  streamDeals = (params?: { properties?: string[]; pageSize?: number }) => this.domain.streamDeals(params);
-  getDeals = (params?: { properties?: string[]; pageSize?: number; maxItems?: number }) => this.domain.getDeals(params);
+  listDeals = (params?: ListParams) => this.domain.listDeals(params);
+  getDeal = (params: GetParams) => this.domain.getDeal(params);
+  streamDeals = (params?: StreamParams) => this.domain.streamDeals(params);
+  getDeals = (params?: GetAllParams) => this.domain.getDeals(params);
+  batchGetDeals = (params: BatchGetParams) => this.domain.batchGetDeals(params);
+  createDeal = (params: CreateParams<DealProperties>) => this.domain.createDeal(params);
+  updateDeal = (params: UpdateParams<DealProperties>) => this.domain.updateDeal(params);
+  archiveDeal = (params: ArchiveParams) => this.domain.archiveDeal(params);
+  batchCreateDeals = (params: BatchCreateParams<DealProperties>) => this.domain.batchCreateDeals(params);
+  batchUpdateDeals = (params: BatchUpdateParams<DealProperties>) => this.domain.batchUpdateDeals(params);
+  batchArchiveDeals = (params: BatchArchiveParams) => this.domain.batchArchiveDeals(params);
+  batchUpsertDeals = (params: BatchUpsertParams<DealProperties>) => this.domain.batchUpsertDeals(params);
+  searchDeals = (params: SearchRequest<DealProperties>) => this.domain.searchDeals(params);
+  streamSearchDeals = (params: SearchRequest<DealProperties>) => this.domain.streamSearchDeals(params);
 
   // Tickets
-  listTickets = (params?: { properties?: string[]; limit?: number; after?: string }) => this.domain.listTickets(params);
-  getTicket = (params: { id: string; properties?: string[] }) => this.domain.getTicket(params);
-  streamTickets = (params?: { properties?: string[]; pageSize?: number }) => this.domain.streamTickets(params);
-  getTickets = (params?: { properties?: string[]; pageSize?: number; maxItems?: number }) => this.domain.getTickets(params);
+  listTickets = (params?: ListParams) => this.domain.listTickets(params);
+  getTicket = (params: GetParams) => this.domain.getTicket(params);
+  streamTickets = (params?: StreamParams) => this.domain.streamTickets(params);
+  getTickets = (params?: GetAllParams) => this.domain.getTickets(params);
+  batchGetTickets = (params: BatchGetParams) => this.domain.batchGetTickets(params);
+  createTicket = (params: CreateParams<TicketProperties>) => this.domain.createTicket(params);
+  updateTicket = (params: UpdateParams<TicketProperties>) => this.domain.updateTicket(params);
+  archiveTicket = (params: ArchiveParams) => this.domain.archiveTicket(params);
+  batchCreateTickets = (params: BatchCreateParams<TicketProperties>) => this.domain.batchCreateTickets(params);
+  batchUpdateTickets = (params: BatchUpdateParams<TicketProperties>) => this.domain.batchUpdateTickets(params);
+  batchArchiveTickets = (params: BatchArchiveParams) => this.domain.batchArchiveTickets(params);
+  batchUpsertTickets = (params: BatchUpsertParams<TicketProperties>) => this.domain.batchUpsertTickets(params);
+  searchTickets = (params: SearchRequest<TicketProperties>) => this.domain.searchTickets(params);
+  streamSearchTickets = (params: SearchRequest<TicketProperties>) => this.domain.streamSearchTickets(params);
 
   // Engagements
-  listEngagements = (params: { objectType: "notes" | "calls" | "emails" | "meetings" | "tasks"; properties?: string[]; limit?: number; after?: string }) => this.domain.listEngagements(params);
-  getEngagement = (params: { objectType: "notes" | "calls" | "emails" | "meetings" | "tasks"; id: string; properties?: string[] }) => this.domain.getEngagement(params);
-  streamEngagements = (params: { objectType: "notes" | "calls" | "emails" | "meetings" | "tasks"; properties?: string[]; pageSize?: number }) => this.domain.streamEngagements(params);
-  getEngagements = (params: { objectType: "notes" | "calls" | "emails" | "meetings" | "tasks"; properties?: string[]; pageSize?: number; maxItems?: number }) => this.domain.getEngagements(params);
+  listEngagements = (params: EngagementParams) => this.domain.listEngagements(params);
+  getEngagement = (params: GetEngagementParams) => this.domain.getEngagement(params);
+  streamEngagements = (params: StreamEngagementParams) => this.domain.streamEngagements(params);
+  getEngagements = (params: GetAllEngagementParams) => this.domain.getEngagements(params);
+  batchGetEngagements = (params: BatchGetEngagementParams) => this.domain.batchGetEngagements(params);
+  createEngagement = (params: CreateEngagementParams) => this.domain.createEngagement(params);
+  updateEngagement = (params: UpdateEngagementParams) => this.domain.updateEngagement(params);
+  archiveEngagement = (params: ArchiveEngagementParams) => this.domain.archiveEngagement(params);
+  batchCreateEngagements = (params: BatchCreateEngagementParams) => this.domain.batchCreateEngagements(params);
+  batchUpdateEngagements = (params: BatchUpdateEngagementParams) => this.domain.batchUpdateEngagements(params);
+  batchArchiveEngagements = (params: BatchArchiveEngagementParams) => this.domain.batchArchiveEngagements(params);
+  batchUpsertEngagements = (params: BatchUpsertEngagementParams) => this.domain.batchUpsertEngagements(params);
+  searchEngagements = (params: SearchEngagementParams) => this.domain.searchEngagements(params);
+  streamSearchEngagements = (params: SearchEngagementParams) => this.domain.streamSearchEngagements(params);
+
+  // Associations (v4)
+  listAssociations = (params: ListAssociationsParams) => this.domain.listAssociations(params);
+  streamAssociations = (params: StreamAssociationsParams) => this.domain.streamAssociations(params);
+  batchReadAssociations = (params: BatchReadAssociationsParams) => this.domain.batchReadAssociations(params);
+  createAssociation = (params: CreateAssociationParams) => this.domain.createAssociation(params);
+  removeAssociation = (params: RemoveAssociationParams) => this.domain.removeAssociation(params);
+  batchCreateAssociations = (params: BatchCreateAssociationsParams) => this.domain.batchCreateAssociations(params);
+  batchRemoveAssociations = (params: BatchRemoveAssociationsParams) => this.domain.batchRemoveAssociations(params);
+  listAssociationLabels = (params: AssociationLabelsParams) => this.domain.listAssociationLabels(params);
+
+  // Properties (metadata)
+  listProperties = (params: ListPropertiesParams) => this.domain.listProperties(params);
+  getProperty = (params: GetPropertyParams) => this.domain.getProperty(params);
+  createProperty = (params: CreatePropertyParams) => this.domain.createProperty(params);
+  listPropertyGroups = (params: ListPropertyGroupsParams) => this.domain.listPropertyGroups(params);
+  createPropertyGroup = (params: CreatePropertyGroupParams) => this.domain.createPropertyGroup(params);
+  discoverProperties = (params: DiscoverPropertiesParams) => this.domain.discoverProperties(params);
+
+  // Pipelines
+  listPipelines = (params: ListPipelinesParams) => this.domain.listPipelines(params);
+  getPipeline = (params: GetPipelineParams) => this.domain.getPipeline(params);
+  listPipelineStages = (params: ListPipelineStagesParams) => this.domain.listPipelineStages(params);
+  listStageDefinitions = (params: ListStageDefinitionsParams) => this.domain.listStageDefinitions(params);
+
+  // Owners
+  listOwners = (params?: ListOwnersParams) => this.domain.listOwners(params);
+  getOwner = (params: GetOwnerParams) => this.domain.getOwner(params);
+  streamOwners = (params?: StreamOwnersParams) => this.domain.streamOwners(params);
+  getOwners = (params?: GetAllOwnersParams) => this.domain.getOwners(params);
+
+  // Currencies
+  getCompanyCurrency = () => this.domain.getCompanyCurrency();
+  listExchangeRates = (params?: ListExchangeRatesParams) => this.domain.listExchangeRates(params);
+  listCurrentExchangeRates = () => this.domain.listCurrentExchangeRates();
+  streamExchangeRates = (params?: StreamExchangeRatesParams) => this.domain.streamExchangeRates(params);
 }
 
 export function createHubSpotConnector(): HubSpotConnector {
@@ -128,8 +328,17 @@ export function createHubSpotConnector(): HubSpotConnector {
 }
 
 export type { HubSpotConnector } from "./types/connector";
-export type { ConnectorConfig } from "./types/config";
+export type { ConnectorConfig, OAuth2TokenSet, CacheConfig, CacheRule } from "./types/config";
+export type { CacheEntry, CacheStore } from "./cache/response-cache";
+export { LruCacheStore } from "./cache/lru-store";
+export { ConnectorError } from "./types/errors";
+export type { ConnectorErrorSource, HubSpotErrorDetails, HubSpotFieldError } from "./types/errors";
+export { searchBuilder, SearchBuilder } from "./core/search";
+export { associatedIds } from "./domains/associations";
 export type { HttpResponseEnvelope } from "./types/envelopes";
+export type { Hook, HookContext, HookRequest, RequestUpdates, SyntheticResponse } from "./types/hooks";
+export type { ConcurrencyMetrics } from "./rate-limit/semaphore";
+export type { ThrottleEvent } from "./rate-limit/adaptive";
 // Export all model types for external use
 export type * from "./models";
 
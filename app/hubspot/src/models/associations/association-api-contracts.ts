@@ -0,0 +1,18 @@
+/**
+ * API contracts for the associations v4 endpoints
+ *
+ * Role in architecture:
+ * - Encapsulate the wire-level list/batch/labels response shapes for associations
+ * - Imported by the associations domain to type HTTP responses
+ */
+import type { AssociatedObject, AssociationBatchReadItem, AssociationLabel } from "./association";
+import type { HubSpotBatchError, HubSpotListResponse } from "../shared";
+
+export type AssociationsResponse = HubSpotListResponse<AssociatedObject>;
+export type AssociationLabelsResponse = { results: AssociationLabel[] };
+
+/** Merged result of a chunked associations batch read */
+export interface AssociationBatchReadResult {
+  results: AssociationBatchReadItem[];
+  errors: HubSpotBatchError[];
+}
@@ -0,0 +1,57 @@
+/**
+ * Association models (CRM v4)
+ *
+ * v4 associations carry one or more typed labels per link. `typeId` identifies
+ * the association type (e.g. deal → company "Primary" is HubSpot-defined 5);
+ * `label` is null for unlabeled default associations.
+ */
+
+/** Object types that can be associated; custom object type IDs are accepted as strings */
+export type AssociationObjectType =
+  | "contacts"
+  | "companies"
+  | "deals"
+  | "tickets"
+  | "notes"
+  | "calls"
+  | "emails"
+  | "meetings"
+  | "tasks"
+  | (string & {});
+
+export type AssociationCategory = "HUBSPOT_DEFINED" | "USER_DEFINED" | "INTEGRATOR_DEFINED";
+
+export interface AssociationType {
+  category: AssociationCategory;
+  typeId: number;
+  label: string | null;
+}
+
+/** One associated record with every association type linking it */
+export interface AssociatedObject {
+  toObjectId: string | number;
+  associationTypes: AssociationType[];
+}
+
+/** Associations for one source record in a batch read */
+export interface AssociationBatchReadItem {
+  from: { id: string };
+  to: AssociatedObject[];
+  paging?: { next?: { after: string; link?: string } };
+}
+
+/** Association definition from the labels endpoint */
+export interface AssociationLabel {
+  category: AssociationCategory;
+  typeId: number;
+  label: string | null;
+}
+
+/** Result of creating a (possibly labeled) association */
+export interface AssociationCreated {
+  fromObjectTypeId: string;
+  fromObjectId: string | number;
+  toObjectTypeId: string;
+  toObjectId: string | number;
+  labels: string[];
+}
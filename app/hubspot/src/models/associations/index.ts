@@ -0,0 +1,2 @@
+export * from "./association";
+export * from "./association-api-contracts";
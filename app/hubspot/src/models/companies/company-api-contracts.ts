@@ -6,7 +6,7 @@
  * - Imported by the companies domain to type HTTP responses
  */
 import type { Company } from "./company";
-import type { HubSpotListResponse, HubSpotSingleResponse } from "../shared";
+import type { HubSpotListResponse, HubSpotSearchResponse, HubSpotSingleResponse } from "../shared";
 
 /**
  * Company API Response Types
@@ -14,3 +14,4 @@ import type { HubSpotListResponse, HubSpotSingleResponse } from "../shared";
  */
 export type CompaniesResponse = HubSpotListResponse<Company>;
 export type CompanyResponse = HubSpotSingleResponse<Company>;
+export type CompaniesSearchResponse = HubSpotSearchResponse<Company>;
@@ -6,7 +6,7 @@
  * - Imported by the contacts domain to type HTTP responses
  */
 import type { Contact } from "./contact";
-import type { HubSpotListResponse, HubSpotSingleResponse } from "../shared";
+import type { HubSpotListResponse, HubSpotSearchResponse, HubSpotSingleResponse } from "../shared";
 
 /**
  * Contact API Response Types
@@ -14,3 +14,4 @@ import type { HubSpotListResponse, HubSpotSingleResponse } from "../shared";
  */
 export type ContactsResponse = HubSpotListResponse<Contact>;
 export type ContactResponse = HubSpotSingleResponse<Contact>;
+export type ContactsSearchResponse = HubSpotSearchResponse<Contact>;
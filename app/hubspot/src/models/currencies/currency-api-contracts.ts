@@ -0,0 +1,13 @@
+/**
+ * API contracts for the currencies endpoints
+ *
+ * Role in architecture:
+ * - Encapsulate the wire-level response shapes for the company currency and exchange rates
+ * - Imported by the currencies domain to type HTTP responses
+ */
+import type { CompanyCurrency, ExchangeRate } from "./currency";
+import type { HubSpotListResponse } from "../shared";
+
+export type CompanyCurrencyResponse = CompanyCurrency;
+export type ExchangeRatesResponse = HubSpotListResponse<ExchangeRate>;
+export type CurrentExchangeRatesResponse = { results: ExchangeRate[] };
@@ -0,0 +1,23 @@
+/**
+ * Currency models (settings v3 currencies API)
+ *
+ * A multi-currency portal has one company (home) currency and exchange rates
+ * between it and each additional currency. HubSpot converts deal amounts to
+ * the home currency (`amount_in_home_currency`) with these rates.
+ */
+
+export interface CompanyCurrency {
+  currencyCode: string; // ISO 4217 code of the home currency
+  currencyName?: string;
+}
+
+export interface ExchangeRate {
+  id: string;
+  fromCurrencyCode: string; // The company currency
+  toCurrencyCode: string;
+  conversionRate: number; // Units of `toCurrencyCode` per unit of `fromCurrencyCode`
+  effectiveAt: string; // ISO datetime the rate applies from
+  visibleInUI?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
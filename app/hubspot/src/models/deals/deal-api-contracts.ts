@@ -6,7 +6,7 @@
  * - Imported by the deals domain to type HTTP responses
  */
 import type { Deal } from "./deal";
-import type { HubSpotListResponse, HubSpotSingleResponse } from "../shared";
+import type { HubSpotListResponse, HubSpotSearchResponse, HubSpotSingleResponse } from "../shared";
 
 /**
  * Deal API Response Types
@@ -14,3 +14,4 @@ import type { HubSpotListResponse, HubSpotSingleResponse } from "../shared";
  */
 export type DealsResponse = HubSpotListResponse<Deal>;
 export type DealResponse = HubSpotSingleResponse<Deal>;
+export type DealsSearchResponse = HubSpotSearchResponse<Deal>;
@@ -6,7 +6,7 @@
  * - Imported by the engagements domain to type HTTP responses
  */
 import type { Engagement } from "./engagement";
-import type { HubSpotListResponse, HubSpotSingleResponse } from "../shared";
+import type { HubSpotListResponse, HubSpotSearchResponse, HubSpotSingleResponse } from "../shared";
 
 /**
  * Engagement API Response Types
@@ -14,3 +14,4 @@ import type { HubSpotListResponse, HubSpotSingleResponse } from "../shared";
  */
 export type EngagementsResponse = HubSpotListResponse<Engagement>;
 export type EngagementResponse = HubSpotSingleResponse<Engagement>;
+export type EngagementsSearchResponse = HubSpotSearchResponse<Engagement>;
@@ -7,3 +7,8 @@ export * from "./companies";
 export * from "./deals";
 export * from "./tickets";
 export * from "./engagements";
+export * from "./associations";
+export * from "./properties";
+export * from "./pipelines";
+export * from "./owners";
+export * from "./currencies";
@@ -0,0 +1,2 @@
+export * from "./owner";
+export * from "./owner-api-contracts";
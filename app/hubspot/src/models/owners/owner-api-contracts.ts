@@ -0,0 +1,12 @@
+/**
+ * API contracts for the owners endpoints
+ *
+ * Role in architecture:
+ * - Encapsulate the wire-level list/single response shapes for owners
+ * - Imported by the owners domain to type HTTP responses
+ */
+import type { Owner } from "./owner";
+import type { HubSpotListResponse } from "../shared";
+
+export type OwnersResponse = HubSpotListResponse<Owner>;
+export type OwnerResponse = Owner;
@@ -0,0 +1,28 @@
+/**
+ * Owner models (CRM v3 owners API)
+ *
+ * Owners are the HubSpot users records can be assigned to; `hubspot_owner_id`
+ * on contacts/companies/deals/tickets holds an owner `id` (not a `userId`).
+ * Deactivated users remain as archived owners so historical assignments
+ * still resolve.
+ */
+
+export interface OwnerTeam {
+  id: string;
+  name: string;
+  primary: boolean;
+}
+
+export interface Owner {
+  id: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  userId?: number;
+  userIdIncludingInactive?: number;
+  type?: "PERSON" | "QUEUE" | (string & {});
+  teams?: OwnerTeam[];
+  createdAt: string;
+  updatedAt: string;
+  archived: boolean;
+}
@@ -0,0 +1,14 @@
+/**
+ * API contracts for the pipelines endpoints
+ *
+ * Role in architecture:
+ * - Encapsulate the wire-level list/single response shapes for pipelines and stages
+ * - Imported by the pipelines domain to type HTTP responses
+ *
+ * Pipelines and stages are returned in full; the endpoints are not paginated.
+ */
+import type { Pipeline, PipelineStage } from "./pipeline";
+
+export type PipelinesResponse = { results: Pipeline[] };
+export type PipelineResponse = Pipeline;
+export type PipelineStagesResponse = { results: PipelineStage[] };
@@ -0,0 +1,53 @@
+/**
+ * Pipeline models (CRM v3 pipelines API)
+ *
+ * Deals and tickets move through the stages of a pipeline. Stage metadata is
+ * returned as strings: deal stages carry `probability` ("0.0"–"1.0") and
+ * `isClosed`; ticket stages carry `ticketState` ("OPEN" | "CLOSED").
+ */
+
+/** Object types with pipelines; custom object type IDs are accepted as strings */
+export type PipelineObjectType = "deals" | "tickets" | (string & {});
+
+export interface PipelineStage {
+  id: string;
+  label: string;
+  displayOrder: number;
+  metadata: {
+    probability?: string;
+    isClosed?: string;
+    ticketState?: string;
+    [key: string]: string | undefined;
+  };
+  archived: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface Pipeline {
+  id: string;
+  label: string;
+  displayOrder: number;
+  stages: PipelineStage[];
+  archived: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * One stage flattened with its pipeline and typed metadata, as produced by
+ * `listStageDefinitions`. `closedWon` is true for closed deal stages with
+ * probability 1.0 (HubSpot's own definition of a won stage); ticket stages are
+ * never won.
+ */
+export interface StageDefinition {
+  pipelineId: string;
+  pipelineLabel: string;
+  stageId: string;
+  label: string;
+  displayOrder: number;
+  probability: number | null;
+  isClosed: boolean;
+  closedWon: boolean;
+  archived: boolean;
+}
@@ -0,0 +1,15 @@
+/**
+ * API contracts for the properties endpoints
+ *
+ * Role in architecture:
+ * - Encapsulate the wire-level list/single response shapes for property metadata
+ * - Imported by the properties domain to type HTTP responses
+ *
+ * Property lists are returned in full; the endpoints are not paginated.
+ */
+import type { PropertyDefinition, PropertyGroup } from "./property";
+
+export type PropertiesResponse = { results: PropertyDefinition[] };
+export type PropertyResponse = PropertyDefinition;
+export type PropertyGroupsResponse = { results: PropertyGroup[] };
+export type PropertyGroupResponse = PropertyGroup;
@@ -0,0 +1,125 @@
+/**
+ * Property metadata models (CRM v3 properties API)
+ *
+ * Property definitions describe the portal's schema for an object type: the
+ * value `type` (what is stored), the `fieldType` (how it is edited in the UI),
+ * enumeration `options`, and whether the value is `calculated` by HubSpot.
+ * Every property value on a record is still transmitted as a string.
+ */
+
+/** Object types with property metadata; custom object type IDs are accepted as strings */
+export type PropertyObjectType =
+  | "contacts"
+  | "companies"
+  | "deals"
+  | "tickets"
+  | "notes"
+  | "calls"
+  | "emails"
+  | "meetings"
+  | "tasks"
+  | (string & {});
+
+export type PropertyType = "string" | "number" | "date" | "datetime" | "enumeration" | "bool" | "phone_number" | (string & {});
+
+export type PropertyFieldType =
+  | "text"
+  | "textarea"
+  | "number"
+  | "date"
+  | "file"
+  | "select"
+  | "radio"
+  | "checkbox"
+  | "booleancheckbox"
+  | "calculation_equation"
+  | "phonenumber"
+  | "html"
+  | (string & {});
+
+export interface PropertyOption {
+  label: string;
+  value: string;
+  description?: string;
+  displayOrder?: number;
+  hidden: boolean;
+}
+
+export interface PropertyModificationMetadata {
+  archivable: boolean;
+  readOnlyDefinition: boolean;
+  readOnlyValue: boolean;
+  readOnlyOptions?: boolean;
+}
+
+/** Full property definition as returned by `/crm/v3/properties/{objectType}` */
+export interface PropertyDefinition {
+  name: string;
+  label: string;
+  type: PropertyType;
+  fieldType: PropertyFieldType;
+  groupName: string;
+  description?: string;
+  options: PropertyOption[];
+  displayOrder?: number;
+  calculated: boolean;
+  externalOptions: boolean;
+  hasUniqueValue?: boolean;
+  hidden?: boolean;
+  hubspotDefined?: boolean;
+  formField?: boolean;
+  showCurrencySymbol?: boolean;
+  calculationFormula?: string;
+  referencedObjectType?: string;
+  modificationMetadata?: PropertyModificationMetadata;
+  archived?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** Body for creating a custom property */
+export interface PropertyCreate {
+  name: string;
+  label: string;
+  type: PropertyType;
+  fieldType: PropertyFieldType;
+  groupName: string;
+  description?: string;
+  options?: (Omit<PropertyOption, "hidden"> & { hidden?: boolean })[];
+  displayOrder?: number;
+  hasUniqueValue?: boolean;
+  hidden?: boolean;
+  formField?: boolean;
+  calculationFormula?: string;
+}
+
+export interface PropertyGroup {
+  name: string;
+  label: string;
+  displayOrder: number;
+  archived: boolean;
+}
+
+/** Body for creating a property group */
+export interface PropertyGroupCreate {
+  name: string;
+  label: string;
+  displayOrder?: number;
+}
+
+/**
+ * Compact property schema produced by `discoverProperties`: the fields a sync
+ * needs to map and validate values without the UI-only metadata.
+ */
+export interface DiscoveredProperty {
+  name: string;
+  label: string;
+  type: PropertyType;
+  fieldType: PropertyFieldType;
+  groupName: string;
+  options: { label: string; value: string }[];
+  calculated: boolean;
+  hubspotDefined: boolean;
+  hasUniqueValue: boolean;
+  readOnly: boolean;
+}
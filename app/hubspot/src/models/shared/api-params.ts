@@ -1,28 +1,64 @@
 /**
  * Shared API parameter types for HubSpot endpoints
  */
+import type { SearchRequest } from "./search";
+import type {
+  AssociationSpec,
+  ArchiveParams,
+  BatchArchiveParams,
+  BatchCreateParams,
+  BatchUpdateParams,
+  BatchUpsertParams,
+  CreateParams,
+  UpdateParams,
+} from "./write";
+import type { EngagementProperties } from "../engagements/engagement";
+import type { AssociationObjectType } from "../associations/association";
+import type { PropertyCreate, PropertyGroupCreate, PropertyObjectType } from "../properties/property";
+import type { PipelineObjectType } from "../pipelines/pipeline";
 
 // Base parameter types
+// `associations` lists object types (e.g. ["contacts", "companies"]) whose IDs are returned per record
 export interface ListParams {
   properties?: string[];
+  associations?: string[];
   limit?: number;
   after?: string;
+  archived?: boolean; // only archived (deleted) records
+  propertiesWithHistory?: string[]; // properties returned with their change history (max 50 records per page)
 }
 
 export interface GetParams {
   id: string;
   properties?: string[];
+  associations?: string[];
+  propertiesWithHistory?: string[]; // properties returned with their change history
 }
 
+// `properties: "all"` resolves every property defined for the object type at run time
 export interface StreamParams {
-  properties?: string[];
+  properties?: string[] | "all";
+  associations?: string[];
   pageSize?: number;
+  archived?: boolean; // only archived (deleted) records
+  propertiesWithHistory?: string[]; // properties returned with their change history (pages capped at 50)
 }
 
 export interface GetAllParams {
-  properties?: string[];
+  properties?: string[] | "all";
+  associations?: string[];
   pageSize?: number;
   maxItems?: number;
+  archived?: boolean; // only archived (deleted) records
+  propertiesWithHistory?: string[]; // properties returned with their change history (pages capped at 50)
+}
+
+export interface BatchGetParams {
+  ids: string[]; // any number; chunked to 100 per request
+  properties?: string[];
+  idProperty?: string; // unique property to match on instead of the record ID (e.g. "email")
+  archived?: boolean; // read archived (deleted) records instead of active ones
+  propertiesWithHistory?: string[]; // properties returned with their change history (chunks of 50)
 }
 
 // Engagement-specific parameter types
@@ -41,3 +77,178 @@ export interface StreamEngagementParams extends StreamParams {
 export interface GetAllEngagementParams extends GetAllParams {
   objectType: "notes" | "calls" | "emails" | "meetings" | "tasks";
 }
+
+export type EngagementObjectType = "notes" | "calls" | "emails" | "meetings" | "tasks";
+
+export interface SearchEngagementParams extends SearchRequest<EngagementProperties> {
+  objectType: EngagementObjectType;
+}
+
+export interface BatchGetEngagementParams extends BatchGetParams {
+  objectType: EngagementObjectType;
+}
+
+export interface CreateEngagementParams extends CreateParams<EngagementProperties> {
+  objectType: EngagementObjectType;
+}
+
+export interface UpdateEngagementParams extends UpdateParams<EngagementProperties> {
+  objectType: EngagementObjectType;
+}
+
+export interface ArchiveEngagementParams extends ArchiveParams {
+  objectType: EngagementObjectType;
+}
+
+export interface BatchCreateEngagementParams extends BatchCreateParams<EngagementProperties> {
+  objectType: EngagementObjectType;
+}
+
+export interface BatchUpdateEngagementParams extends BatchUpdateParams<EngagementProperties> {
+  objectType: EngagementObjectType;
+}
+
+export interface BatchArchiveEngagementParams extends BatchArchiveParams {
+  objectType: EngagementObjectType;
+}
+
+export interface BatchUpsertEngagementParams extends BatchUpsertParams<EngagementProperties> {
+  objectType: EngagementObjectType;
+}
+
+// Associations (v4) parameter types
+export interface ListAssociationsParams {
+  fromObjectType: AssociationObjectType;
+  objectId: string;
+  toObjectType: AssociationObjectType;
+  limit?: number;
+  after?: string;
+}
+
+export interface StreamAssociationsParams {
+  fromObjectType: AssociationObjectType;
+  objectId: string;
+  toObjectType: AssociationObjectType;
+  pageSize?: number;
+}
+
+export interface BatchReadAssociationsParams {
+  fromObjectType: AssociationObjectType;
+  toObjectType: AssociationObjectType;
+  ids: string[];
+}
+
+export interface CreateAssociationParams {
+  fromObjectType: AssociationObjectType;
+  fromId: string;
+  toObjectType: AssociationObjectType;
+  toId: string;
+  types?: AssociationSpec[]; // omit for the default (unlabeled) association
+}
+
+export interface RemoveAssociationParams {
+  fromObjectType: AssociationObjectType;
+  fromId: string;
+  toObjectType: AssociationObjectType;
+  toId: string;
+}
+
+export interface BatchCreateAssociationsParams {
+  fromObjectType: AssociationObjectType;
+  toObjectType: AssociationObjectType;
+  inputs: { fromId: string; toId: string; types?: AssociationSpec[] }[];
+}
+
+export interface BatchRemoveAssociationsParams {
+  fromObjectType: AssociationObjectType;
+  toObjectType: AssociationObjectType;
+  inputs: { fromId: string; toIds: string[] }[];
+}
+
+export interface AssociationLabelsParams {
+  fromObjectType: AssociationObjectType;
+  toObjectType: AssociationObjectType;
+}
+
+// Properties (metadata) parameter types
+export interface ListPropertiesParams {
+  objectType: PropertyObjectType;
+  archived?: boolean;
+}
+
+export interface GetPropertyParams {
+  objectType: PropertyObjectType;
+  propertyName: string;
+}
+
+export interface CreatePropertyParams {
+  objectType: PropertyObjectType;
+  property: PropertyCreate;
+}
+
+export interface ListPropertyGroupsParams {
+  objectType: PropertyObjectType;
+}
+
+export interface CreatePropertyGroupParams {
+  objectType: PropertyObjectType;
+  group: PropertyGroupCreate;
+}
+
+export interface DiscoverPropertiesParams {
+  objectType: PropertyObjectType;
+  includeHidden?: boolean; // hidden properties are skipped by default
+}
+
+// Pipelines parameter types
+export interface ListPipelinesParams {
+  objectType: PipelineObjectType;
+}
+
+export interface GetPipelineParams {
+  objectType: PipelineObjectType;
+  pipelineId: string;
+}
+
+export interface ListPipelineStagesParams {
+  objectType: PipelineObjectType;
+  pipelineId: string;
+}
+
+export interface ListStageDefinitionsParams {
+  objectType: PipelineObjectType;
+}
+
+// Owners parameter types
+export interface ListOwnersParams {
+  email?: string;
+  archived?: boolean; // true returns only archived (deactivated) owners
+  limit?: number;
+  after?: string;
+}
+
+export interface GetOwnerParams {
+  ownerId: string;
+  idProperty?: "id" | "userId";
+  archived?: boolean;
+}
+
+export interface StreamOwnersParams {
+  email?: string;
+  includeArchived?: boolean; // also stream archived owners after the active ones
+  pageSize?: number;
+}
+
+export interface GetAllOwnersParams extends StreamOwnersParams {
+  maxItems?: number;
+}
+
+// Currencies parameter types
+export interface ListExchangeRatesParams {
+  limit?: number;
+  after?: string;
+}
+
+export interface StreamExchangeRatesParams {
+  pageSize?: number;
+}
@@ -7,6 +7,12 @@
  * also use these directly via `HubSpotObject`.
  */
 
+// Associated IDs returned when `associations` is requested on list/get
+export interface HubSpotObjectAssociations {
+  results: { id: string; type: string }[];
+  paging?: { next?: { after: string; link: string } };
+}
+
 // Base HubSpot object structure
 export interface HubSpotObject {
   id: string;
@@ -14,6 +20,18 @@ export interface HubSpotObject {
   createdAt: string; // ISO datetime string
   updatedAt: string; // ISO datetime string
   archived: boolean;
+  archivedAt?: string; // ISO datetime string; set on archived (deleted) records
+  associations?: Record<string, HubSpotObjectAssociations>; // keyed by associated object type
+  propertiesWithHistory?: Record<string, PropertyHistoryEntry[]>; // requested via `propertiesWithHistory`, newest first
+}
+
+// One past value of a property, returned for `propertiesWithHistory`
+export interface PropertyHistoryEntry {
+  value: string;
+  timestamp: string; // ISO datetime string
+  sourceType?: string; // e.g. CRM_UI, WORKFLOW, IMPORT
+  sourceId?: string;
+  updatedByUserId?: number;
 }
 
 // API Response structures
@@ -37,4 +55,5 @@ export interface HubSpotSingleResponse<T> {
   createdAt: string;
   updatedAt: string;
   archived: boolean;
+  associations?: Record<string, HubSpotObjectAssociations>;
 }
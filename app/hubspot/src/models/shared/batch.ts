@@ -0,0 +1,33 @@
+/**
+ * Batch API contracts (`/crm/v3/objects/{objectType}/batch/*`)
+ *
+ * HubSpot caps batch inputs at 100 per call and answers partial failures with
+ * HTTP 207 (multi-status): successful records in `results`, failures in `errors`.
+ */
+
+export interface HubSpotBatchError {
+  status: string;
+  category: string;
+  message: string;
+  subCategory?: string;
+  context?: Record<string, string[]>;
+  statusCode?: number; // Set by the connector when a whole chunk failed (e.g. 400 for one invalid input)
+  input?: unknown; // Set by the connector: the input of a failed chunk this entry reports
+}
+
+export interface HubSpotBatchResponse<T> {
+  status: "PENDING" | "PROCESSING" | "CANCELED" | "COMPLETE";
+  results: T[];
+  numErrors?: number;
+  errors?: HubSpotBatchError[];
+  requestedAt?: string;
+  startedAt: string;
+  completedAt: string;
+}
+
+/** Merged result of a chunked batch read */
+export interface BatchReadResult<T> {
+  results: T[];
+  notFound: string[]; // requested IDs (or idProperty values) with no matching record
+  errors: HubSpotBatchError[];
+}
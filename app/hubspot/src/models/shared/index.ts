@@ -1,2 +1,5 @@
 export * from "./base";
 export * from "./api-params";
+export * from "./search";
+export * from "./batch";
+export * from "./write";
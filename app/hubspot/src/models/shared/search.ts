@@ -0,0 +1,56 @@
+/**
+ * CRM Search API contracts (`POST /crm/v3/objects/{objectType}/search`)
+ *
+ * Filters, sorts and requested properties are keyed off a domain's
+ * `*Properties` interface so property names autocomplete, while still
+ * accepting arbitrary strings for custom properties.
+ */
+import type { HubSpotListResponse } from "./base";
+
+/** Known (non index-signature) keys of a properties interface */
+export type KnownPropertyName<P> = keyof {
+  [K in keyof P as string extends K ? never : number extends K ? never : K]: P[K];
+} &
+  string;
+
+/** Property name: known keys for IntelliSense, any string for custom properties */
+export type PropertyName<P> = KnownPropertyName<P> | (string & {});
+
+export type SearchValue = string | number | boolean | Date;
+
+export type SearchValueOperator = "EQ" | "NEQ" | "LT" | "LTE" | "GT" | "GTE" | "CONTAINS_TOKEN" | "NOT_CONTAINS_TOKEN";
+export type SearchRangeOperator = "BETWEEN";
+export type SearchListOperator = "IN" | "NOT_IN";
+export type SearchExistenceOperator = "HAS_PROPERTY" | "NOT_HAS_PROPERTY";
+export type SearchOperator = SearchValueOperator | SearchRangeOperator | SearchListOperator | SearchExistenceOperator;
+
+export interface SearchFilter<P = Record<string, unknown>> {
+  propertyName: PropertyName<P>;
+  operator: SearchOperator;
+  value?: string;
+  highValue?: string;
+  values?: string[];
+}
+
+export interface SearchFilterGroup<P = Record<string, unknown>> {
+  filters: SearchFilter<P>[];
+}
+
+export interface SearchSort<P = Record<string, unknown>> {
+  propertyName: PropertyName<P>;
+  direction: "ASCENDING" | "DESCENDING";
+}
+
+/** Request body for the search endpoint. Filter groups are OR-ed; filters within a group are AND-ed. */
+export interface SearchRequest<P = Record<string, unknown>> {
+  filterGroups?: SearchFilterGroup<P>[];
+  sorts?: SearchSort<P>[];
+  properties?: PropertyName<P>[];
+  query?: string;
+  limit?: number; // max 200
+  after?: string;
+}
+
+export interface HubSpotSearchResponse<T> extends HubSpotListResponse<T> {
+  total: number;
+}
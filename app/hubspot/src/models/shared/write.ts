@@ -0,0 +1,63 @@
+/**
+ * Write contracts for create/update/archive/upsert on CRM objects
+ *
+ * Payloads are typed from the same `*Properties` interfaces used for reads, so
+ * `createDeal({ properties: { dealname, amount } })` gets the same IntelliSense
+ * as `streamDeals`. HubSpot stores property values as strings.
+ */
+import type { HubSpotBatchError } from "./batch";
+
+/** Association type reference used by create payloads and the v4 associations API */
+export interface AssociationSpec {
+  associationCategory: "HUBSPOT_DEFINED" | "USER_DEFINED" | "INTEGRATOR_DEFINED";
+  associationTypeId: number;
+}
+
+/** Association to attach when creating a record */
+export interface CreateAssociationInput {
+  to: { id: string };
+  types: AssociationSpec[];
+}
+
+export interface CreateParams<P> {
+  properties: Partial<P>;
+  associations?: CreateAssociationInput[];
+}
+
+export interface UpdateParams<P> {
+  id: string;
+  properties: Partial<P>;
+  idProperty?: string; // match `id` against a unique property instead of the record ID
+}
+
+export interface ArchiveParams {
+  id: string;
+}
+
+export interface BatchCreateParams<P> {
+  inputs: CreateParams<P>[];
+}
+
+export interface BatchUpdateParams<P> {
+  inputs: UpdateParams<P>[];
+}
+
+export interface BatchArchiveParams {
+  ids: string[];
+}
+
+export interface BatchUpsertParams<P> {
+  idProperty: string; // unique property to match on (e.g. "email", "domain")
+  inputs: { id: string; properties: Partial<P> }[]; // `id` is the idProperty value
+}
+
+/**
+ * Merged result of a chunked batch write. Multi-status (207) chunks are not
+ * thrown: successful records land in `results`, per-record failures in
+ * `errors` (with the offending IDs/values in `context`). A chunk rejected as a
+ * whole adds one entry per input, with that `input` and the chunk's `statusCode`.
+ */
+export interface BatchWriteResult<T> {
+  results: T[];
+  errors: HubSpotBatchError[];
+}
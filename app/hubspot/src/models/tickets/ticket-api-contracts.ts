@@ -6,7 +6,7 @@
  * - Imported by the tickets domain to type HTTP responses
  */
 import type { Ticket } from "./ticket";
-import type { HubSpotListResponse, HubSpotSingleResponse } from "../shared";
+import type { HubSpotListResponse, HubSpotSearchResponse, HubSpotSingleResponse } from "../shared";
 
 /**
  * Ticket API Response Types
@@ -15,3 +15,4 @@ import type { HubSpotListResponse, HubSpotSingleResponse } from "../shared";
 
 export type TicketsResponse = HubSpotListResponse<Ticket>;
 export type TicketResponse = HubSpotSingleResponse<Ticket>;
+export type TicketsSearchResponse = HubSpotSearchResponse<Ticket>;
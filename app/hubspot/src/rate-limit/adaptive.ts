@@ -0,0 +1,125 @@
+export interface ThrottleEvent {
+  reason: "secondly" | "interval" | "daily";
+  delayMs: number; // how long this request is held back
+  remaining: number; // last reported remaining calls in that window
+  limit: number;
+  resumeAt: string; // ISO timestamp the request is released
+}
+
+interface WindowQuota {
+  reason: ThrottleEvent["reason"];
+  limit: number;
+  remaining: number;
+  endsAt: number; // epoch ms the window (or daily quota) resets
+}
+
+/** Below this share of a burst window left, requests are spread over the rest of the window. */
+const WINDOW_LOW_WATERMARK = 0.25;
+/** Below this share of the daily quota left, requests are progressively slowed. */
+const DAILY_LOW_WATERMARK = 0.1;
+/** Slowest pace near daily exhaustion, as a multiple of the normal request interval. */
+const MAX_DAILY_SLOWDOWN = 20;
+/** Without a reset header, an exhausted daily quota is probed again after this long. */
+const DAILY_RESET_FALLBACK_MS = 60000;
+
+const num = (v: string | undefined) => (v === undefined || v === "" ? NaN : Number(v));
+
+/**
+ * Paces requests from HubSpot's `x-hubspot-ratelimit-*` response headers
+ * (`rateLimit.adaptiveFromHeaders`), in front of the fixed-rate token bucket.
+ *
+ * - Burst windows (`-secondly`, and `-max`/`-remaining` over
+ *   `-interval-milliseconds`): when few calls are left, the rest are spaced
+ *   evenly until the window ends; at zero, requests wait for the window end
+ * - Daily quota: below 10% remaining, requests slow down progressively (up to
+ *   20x); at zero, requests pause until `x-hubspot-ratelimit-reset`
+ *
+ * Each delayed request reports a `ThrottleEvent` through `onThrottle`. One
+ * instance is shared by every domain of a connector, so parallel streams see
+ * the same budget.
+ */
+export class AdaptiveRateLimiter {
+  private readonly baseIntervalMs: number;
+  private readonly onThrottle?: (event: ThrottleEvent) => void;
+  private burst?: WindowQuota;
+  private daily?: WindowQuota;
+  private nextSlotAt = 0;
+
+  constructor(params: { requestsPerSecond?: number; onThrottle?: (event: ThrottleEvent) => void }) {
+    this.baseIntervalMs = 1000 / (params.requestsPerSecond && params.requestsPerSecond > 0 ? params.requestsPerSecond : 10);
+    this.onThrottle = params.onThrottle;
+  }
+
+  /** Records the quota reported by one response (lower-cased header names). */
+  observe(headers: Record<string, string>, now = Date.now()): void {
+    const secondly = num(headers["x-hubspot-ratelimit-secondly"]);
+    const secondlyRemaining = num(headers["x-hubspot-ratelimit-secondly-remaining"]);
+    const intervalMax = num(headers["x-hubspot-ratelimit-max"]);
+    const intervalRemaining = num(headers["x-hubspot-ratelimit-remaining"]);
+    if (Number.isFinite(intervalMax) && Number.isFinite(intervalRemaining)) {
+      const intervalMs = num(headers["x-hubspot-ratelimit-interval-milliseconds"]);
+      const windowMs = Number.isFinite(intervalMs) ? intervalMs : 10000;
+      this.burst = { reason: "interval", limit: intervalMax, remaining: intervalRemaining, endsAt: now + windowMs };
+    } else if (Number.isFinite(secondly) && Number.isFinite(secondlyRemaining)) {
+      this.burst = { reason: "secondly", limit: secondly, remaining: secondlyRemaining, endsAt: now + 1000 };
+    }
+
+    const daily = num(headers["x-hubspot-ratelimit-daily"]);
+    const dailyRemaining = num(headers["x-hubspot-ratelimit-daily-remaining"]);
+    if (Number.isFinite(daily) && Number.isFinite(dailyRemaining)) {
+      this.daily = { reason: "daily", limit: daily, remaining: dailyRemaining, endsAt: this.resetAt(headers["x-hubspot-ratelimit-reset"], now) };
+    }
+  }
+
+  async waitForSlot(): Promise<void> {
+    const now = Date.now();
+    const { delayMs, quota } = this.delayFor(now);
+    if (delayMs <= 0 || !quota) return;
+    this.onThrottle?.({
+      reason: quota.reason,
+      delayMs,
+      remaining: quota.remaining,
+      limit: quota.limit,
+      resumeAt: new Date(now + delayMs).toISOString(),
+    });
+    await new Promise((r) => setTimeout(r, delayMs));
+  }
+
+  // Reserves the next send slot; concurrent callers queue behind each other rather than all firing at once
+  private delayFor(now: number): { delayMs: number; quota?: WindowQuota } {
+    const daily = this.daily && this.daily.endsAt > now ? this.daily : undefined;
+    const burst = this.burst && this.burst.endsAt > now ? this.burst : undefined;
+
+    if (daily && daily.remaining <= 0) return { delayMs: daily.endsAt - now, quota: daily };
+    if (burst && burst.remaining <= 0) return { delayMs: burst.endsAt - now, quota: burst };
+
+    let spacingMs = 0;
+    let quota: WindowQuota | undefined;
+    if (burst && burst.remaining < burst.limit * WINDOW_LOW_WATERMARK) {
+      spacingMs = (burst.endsAt - now) / burst.remaining;
+      quota = burst;
+    }
+    if (daily && daily.remaining < daily.limit * DAILY_LOW_WATERMARK) {
+      const share = daily.remaining / (daily.limit * DAILY_LOW_WATERMARK);
+      const dailySpacing = this.baseIntervalMs * Math.min(MAX_DAILY_SLOWDOWN, 1 / share);
+      if (dailySpacing > spacingMs) {
+        spacingMs = dailySpacing;
+        quota = daily;
+      }
+    }
+    if (!quota) return { delayMs: 0 };
+
+    const slot = Math.max(now, this.nextSlotAt + spacingMs);
+    this.nextSlotAt = slot;
+    return { delayMs: Math.ceil(slot - now), quota };
+  }
+
+  // `reset` may be epoch ms, epoch seconds or seconds from now
+  private resetAt(value: string | undefined, now: number): number {
+    const reset = num(value);
+    if (!Number.isFinite(reset) || reset <= 0) return now + DAILY_RESET_FALLBACK_MS;
+    if (reset > 1e12) return reset;
+    if (reset > 1e9) return reset * 1000;
+    return now + reset * 1000;
+  }
+}
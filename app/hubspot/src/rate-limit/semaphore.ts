@@ -0,0 +1,74 @@
+export interface ConcurrencyMetrics {
+  maxConcurrent: number;
+  inFlight: number;
+  queueDepth: number; // requests currently waiting for a slot
+  maxQueueDepth: number; // high-water mark of queueDepth
+  acquired: number; // slots handed out so far
+  totalWaitMs: number;
+  maxWaitMs: number;
+  avgWaitMs: number;
+}
+
+/**
+ * Caps in-flight requests (`rateLimit.concurrentRequests`). Waiters are served
+ * FIFO. `acquire` resolves with a release function that is safe to call more
+ * than once, so callers can release from `finally` on every exit path.
+ */
+export class ConcurrencySemaphore {
+  private readonly max: number;
+  private active = 0;
+  private waiters: Array<() => void> = [];
+  private stats = { maxQueueDepth: 0, acquired: 0, totalWaitMs: 0, maxWaitMs: 0 };
+
+  constructor(params: { maxConcurrent: number }) {
+    this.max = Math.max(1, params.maxConcurrent);
+  }
+
+  async acquire(): Promise<() => void> {
+    const start = Date.now();
+    if (this.active >= this.max) {
+      await new Promise<void>((resolve) => {
+        this.waiters.push(resolve);
+        this.stats.maxQueueDepth = Math.max(this.stats.maxQueueDepth, this.waiters.length);
+      });
+    } else {
+      this.active += 1;
+    }
+    // A woken waiter inherits the releasing request's slot, so `active` is unchanged
+    const waited = Date.now() - start;
+    this.stats.acquired += 1;
+    this.stats.totalWaitMs += waited;
+    this.stats.maxWaitMs = Math.max(this.stats.maxWaitMs, waited);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = this.waiters.shift();
+      if (next) next();
+      else this.active -= 1;
+    };
+  }
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    const release = await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  metrics(): ConcurrencyMetrics {
+    return {
+      maxConcurrent: this.max,
+      inFlight: this.active,
+      queueDepth: this.waiters.length,
+      maxQueueDepth: this.stats.maxQueueDepth,
+      acquired: this.stats.acquired,
+      totalWaitMs: this.stats.totalWaitMs,
+      maxWaitMs: this.stats.maxWaitMs,
+      avgWaitMs: this.stats.acquired ? Math.round(this.stats.totalWaitMs / this.stats.acquired) : 0,
+    };
+  }
+}
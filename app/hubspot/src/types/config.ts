@@ -1,4 +1,6 @@
 import type { Hook, HookType } from "./hooks";
+import type { ThrottleEvent } from "../rate-limit/adaptive";
+import type { CacheStore } from "../cache/response-cache";
 
 export interface ConnectorAuthConfig {
   type: "bearer" | "oauth2";
@@ -10,9 +12,17 @@ export interface ConnectorAuthConfig {
     accessToken?: string;
     expiresAt?: number; // epoch seconds
     tokenUrl?: string; // optional override
+    refreshSkewSeconds?: number; // refresh this many seconds before expiry (default 60)
+    onTokenRefreshed?: (token: OAuth2TokenSet) => void | Promise<void>; // persist rotated tokens
   };
 }
 
+export interface OAuth2TokenSet {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // epoch seconds
+}
+
 export interface RetryConfig {
   maxAttempts?: number;
   initialDelayMs?: number;
@@ -28,6 +38,21 @@ export interface RateLimitConfig {
   concurrentRequests?: number;
   burstCapacity?: number;
   adaptiveFromHeaders?: boolean;
+  onThrottle?: (event: ThrottleEvent) => void; // called whenever adaptive limiting delays a request
+}
+
+/** TTL for GETs matching `operation` and/or `path` (prefix or RegExp); `ttlMs: 0` disables caching for them. */
+export interface CacheRule {
+  operation?: string;
+  path?: string | RegExp;
+  ttlMs: number;
+}
+
+export interface CacheConfig {
+  store?: CacheStore; // default: in-memory LRU
+  maxEntries?: number; // LRU size (default 500); ignored with a custom store
+  defaultTtlMs?: number; // default 60000
+  rules?: CacheRule[]; // checked in order, before the built-in metadata/paginate rules
 }
 
 export interface ConnectorConfig {
@@ -40,6 +65,8 @@ export interface ConnectorConfig {
   retry?: RetryConfig;
   rateLimit?: RateLimitConfig;
   hooks?: Partial<Record<HookType, Hook[]>>;
+  throwOnHttpError?: boolean; // default true; false returns non-2xx responses as envelopes
+  cache?: CacheConfig; // opt-in GET response cache; omitted = no caching
 }
 
 
@@ -1,5 +1,6 @@
 import type { HttpResponseEnvelope } from "./envelopes";
 import type { ConnectorConfig } from "./config";
+import type { ConcurrencyMetrics } from "../rate-limit/semaphore";
 import type {
   Contact,
   Company,
@@ -16,6 +17,80 @@ import type {
   TicketResponse,
   EngagementsResponse,
   EngagementResponse,
+  ContactProperties,
+  CompanyProperties,
+  DealProperties,
+  TicketProperties,
+  ContactsSearchResponse,
+  CompaniesSearchResponse,
+  DealsSearchResponse,
+  TicketsSearchResponse,
+  EngagementsSearchResponse,
+  SearchRequest,
+  SearchEngagementParams,
+  BatchGetParams,
+  BatchGetEngagementParams,
+  BatchReadResult,
+  BatchWriteResult,
+  CreateParams,
+  UpdateParams,
+  ArchiveParams,
+  BatchCreateParams,
+  BatchUpdateParams,
+  BatchArchiveParams,
+  BatchUpsertParams,
+  CreateEngagementParams,
+  UpdateEngagementParams,
+  ArchiveEngagementParams,
+  BatchCreateEngagementParams,
+  BatchUpdateEngagementParams,
+  BatchArchiveEngagementParams,
+  BatchUpsertEngagementParams,
+  AssociatedObject,
+  AssociationBatchReadResult,
+  AssociationCreated,
+  AssociationLabelsResponse,
+  AssociationsResponse,
+  ListAssociationsParams,
+  StreamAssociationsParams,
+  BatchReadAssociationsParams,
+  CreateAssociationParams,
+  RemoveAssociationParams,
+  BatchCreateAssociationsParams,
+  BatchRemoveAssociationsParams,
+  AssociationLabelsParams,
+  DiscoveredProperty,
+  PropertiesResponse,
+  PropertyResponse,
+  PropertyGroupsResponse,
+  PropertyGroupResponse,
+  ListPropertiesParams,
+  GetPropertyParams,
+  CreatePropertyParams,
+  ListPropertyGroupsParams,
+  CreatePropertyGroupParams,
+  DiscoverPropertiesParams,
+  PipelinesResponse,
+  PipelineResponse,
+  PipelineStagesResponse,
+  StageDefinition,
+  ListPipelinesParams,
+  GetPipelineParams,
+  ListPipelineStagesParams,
+  ListStageDefinitionsParams,
+  Owner,
+  OwnersResponse,
+  OwnerResponse,
+  ListOwnersParams,
+  GetOwnerParams,
+  StreamOwnersParams,
+  GetAllOwnersParams,
+  CompanyCurrencyResponse,
+  ExchangeRate,
+  ExchangeRatesResponse,
+  CurrentExchangeRatesResponse,
+  ListExchangeRatesParams,
+  StreamExchangeRatesParams,
   ListParams,
   GetParams,
   StreamParams,
@@ -40,8 +115,15 @@ export interface HubSpotConnector {
     body?: unknown;
     timeoutMs?: number;
     operation?: string;
+    throwOnHttpError?: boolean;
   }): Promise<HttpResponseEnvelope<any>>;
 
+  /** Drops cached GETs whose path starts with (or matches) `prefix`, or all of them; resolves to the number dropped. */
+  invalidateCache(prefix?: string | RegExp): Promise<number>;
+
+  /** In-flight/queue-depth/wait-time metrics for `rateLimit.concurrentRequests`; undefined when uncapped */
+  getConcurrencyMetrics(): ConcurrencyMetrics | undefined;
+
   paginate<T = any>(options: {
     path: string;
     query?: Record<string, any>;
@@ -58,6 +140,20 @@ export interface HubSpotConnector {
   // Convenience: stream and fetch all contacts
   streamContacts(params?: StreamParams): AsyncIterable<Contact>;
   getContacts(params?: GetAllParams): Promise<Contact[]>;
+  batchGetContacts(params: BatchGetParams): Promise<BatchReadResult<Contact>>;
+
+  // Writes: create/update/archive and batch counterparts (207 partial failures returned, not thrown)
+  createContact(params: CreateParams<ContactProperties>): Promise<HttpResponseEnvelope<ContactResponse>>;
+  updateContact(params: UpdateParams<ContactProperties>): Promise<HttpResponseEnvelope<ContactResponse>>;
+  archiveContact(params: ArchiveParams): Promise<HttpResponseEnvelope<void>>;
+  batchCreateContacts(params: BatchCreateParams<ContactProperties>): Promise<BatchWriteResult<Contact>>;
+  batchUpdateContacts(params: BatchUpdateParams<ContactProperties>): Promise<BatchWriteResult<Contact>>;
+  batchArchiveContacts(params: BatchArchiveParams): Promise<BatchWriteResult<never>>;
+  batchUpsertContacts(params: BatchUpsertParams<ContactProperties>): Promise<BatchWriteResult<Contact>>;
+
+  // Search: filter/sort via POST /search; streaming variant re-slices past 10k results
+  searchContacts(params: SearchRequest<ContactProperties>): Promise<HttpResponseEnvelope<ContactsSearchResponse>>;
+  streamSearchContacts(params: SearchRequest<ContactProperties>): AsyncIterable<Contact>;
 
   // Domain: Companies
   listCompanies(params?: ListParams): Promise<HttpResponseEnvelope<CompaniesResponse>>;
@@ -67,6 +163,20 @@ export interface HubSpotConnector {
   // Convenience: stream and fetch all companies
   streamCompanies(params?: StreamParams): AsyncIterable<Company>;
   getCompanies(params?: GetAllParams): Promise<Company[]>;
+  batchGetCompanies(params: BatchGetParams): Promise<BatchReadResult<Company>>;
+
+  // Writes: create/update/archive and batch counterparts (207 partial failures returned, not thrown)
+  createCompany(params: CreateParams<CompanyProperties>): Promise<HttpResponseEnvelope<CompanyResponse>>;
+  updateCompany(params: UpdateParams<CompanyProperties>): Promise<HttpResponseEnvelope<CompanyResponse>>;
+  archiveCompany(params: ArchiveParams): Promise<HttpResponseEnvelope<void>>;
+  batchCreateCompanies(params: BatchCreateParams<CompanyProperties>): Promise<BatchWriteResult<Company>>;
+  batchUpdateCompanies(params: BatchUpdateParams<CompanyProperties>): Promise<BatchWriteResult<Company>>;
+  batchArchiveCompanies(params: BatchArchiveParams): Promise<BatchWriteResult<never>>;
+  batchUpsertCompanies(params: BatchUpsertParams<CompanyProperties>): Promise<BatchWriteResult<Company>>;
+
+  // Search: filter/sort via POST /search; streaming variant re-slices past 10k results
+  searchCompanies(params: SearchRequest<CompanyProperties>): Promise<HttpResponseEnvelope<CompaniesSearchResponse>>;
+  streamSearchCompanies(params: SearchRequest<CompanyProperties>): AsyncIterable<Company>;
 
   // Domain: Deals
   listDeals(params?: ListParams): Promise<HttpResponseEnvelope<DealsResponse>>;
@@ -76,6 +186,20 @@ export interface HubSpotConnector {
   // Convenience: stream and fetch all deals
   streamDeals(params?: StreamParams): AsyncIterable<Deal>;
   getDeals(params?: GetAllParams): Promise<Deal[]>;
+  batchGetDeals(params: BatchGetParams): Promise<BatchReadResult<Deal>>;
+
+  // Writes: create/update/archive and batch counterparts (207 partial failures returned, not thrown)
+  createDeal(params: CreateParams<DealProperties>): Promise<HttpResponseEnvelope<DealResponse>>;
+  updateDeal(params: UpdateParams<DealProperties>): Promise<HttpResponseEnvelope<DealResponse>>;
+  archiveDeal(params: ArchiveParams): Promise<HttpResponseEnvelope<void>>;
+  batchCreateDeals(params: BatchCreateParams<DealProperties>): Promise<BatchWriteResult<Deal>>;
+  batchUpdateDeals(params: BatchUpdateParams<DealProperties>): Promise<BatchWriteResult<Deal>>;
+  batchArchiveDeals(params: BatchArchiveParams): Promise<BatchWriteResult<never>>;
+  batchUpsertDeals(params: BatchUpsertParams<DealProperties>): Promise<BatchWriteResult<Deal>>;
+
+  // Search: filter/sort via POST /search; streaming variant re-slices past 10k results
+  searchDeals(params: SearchRequest<DealProperties>): Promise<HttpResponseEnvelope<DealsSearchResponse>>;
+  streamSearchDeals(params: SearchRequest<DealProperties>): AsyncIterable<Deal>;
 
   // Domain: Tickets
   listTickets(params?: ListParams): Promise<HttpResponseEnvelope<TicketsResponse>>;
@@ -85,6 +209,20 @@ export interface HubSpotConnector {
   // Convenience: stream and fetch all tickets
   streamTickets(params?: StreamParams): AsyncIterable<Ticket>;
   getTickets(params?: GetAllParams): Promise<Ticket[]>;
+  batchGetTickets(params: BatchGetParams): Promise<BatchReadResult<Ticket>>;
+
+  // Writes: create/update/archive and batch counterparts (207 partial failures returned, not thrown)
+  createTicket(params: CreateParams<TicketProperties>): Promise<HttpResponseEnvelope<TicketResponse>>;
+  updateTicket(params: UpdateParams<TicketProperties>): Promise<HttpResponseEnvelope<TicketResponse>>;
+  archiveTicket(params: ArchiveParams): Promise<HttpResponseEnvelope<void>>;
+  batchCreateTickets(params: BatchCreateParams<TicketProperties>): Promise<BatchWriteResult<Ticket>>;
+  batchUpdateTickets(params: BatchUpdateParams<TicketProperties>): Promise<BatchWriteResult<Ticket>>;
+  batchArchiveTickets(params: BatchArchiveParams): Promise<BatchWriteResult<never>>;
+  batchUpsertTickets(params: BatchUpsertParams<TicketProperties>): Promise<BatchWriteResult<Ticket>>;
+
+  // Search: filter/sort via POST /search; streaming variant re-slices past 10k results
+  searchTickets(params: SearchRequest<TicketProperties>): Promise<HttpResponseEnvelope<TicketsSearchResponse>>;
+  streamSearchTickets(params: SearchRequest<TicketProperties>): AsyncIterable<Ticket>;
 
   // Domain: Engagements (activities)
   listEngagements(params: EngagementParams): Promise<HttpResponseEnvelope<EngagementsResponse>>;
@@ -94,6 +232,60 @@ export interface HubSpotConnector {
   // Convenience: stream and fetch all engagements for a type
   streamEngagements(params: StreamEngagementParams): AsyncIterable<Engagement>;
   getEngagements(params: GetAllEngagementParams): Promise<Engagement[]>;
-}
+  batchGetEngagements(params: BatchGetEngagementParams): Promise<BatchReadResult<Engagement>>;
+
+  // Engagement writes
+  createEngagement(params: CreateEngagementParams): Promise<HttpResponseEnvelope<EngagementResponse>>;
+  updateEngagement(params: UpdateEngagementParams): Promise<HttpResponseEnvelope<EngagementResponse>>;
+  archiveEngagement(params: ArchiveEngagementParams): Promise<HttpResponseEnvelope<void>>;
+  batchCreateEngagements(params: BatchCreateEngagementParams): Promise<BatchWriteResult<Engagement>>;
+  batchUpdateEngagements(params: BatchUpdateEngagementParams): Promise<BatchWriteResult<Engagement>>;
+  batchArchiveEngagements(params: BatchArchiveEngagementParams): Promise<BatchWriteResult<never>>;
+  batchUpsertEngagements(params: BatchUpsertEngagementParams): Promise<BatchWriteResult<Engagement>>;
+
+  // Search engagements of one type
+  searchEngagements(params: SearchEngagementParams): Promise<HttpResponseEnvelope<EngagementsSearchResponse>>;
+  streamSearchEngagements(params: SearchEngagementParams): AsyncIterable<Engagement>;
+
+  // Domain: Associations (v4)
+  listAssociations(params: ListAssociationsParams): Promise<HttpResponseEnvelope<AssociationsResponse>>;
+  streamAssociations(params: StreamAssociationsParams): AsyncIterable<AssociatedObject>;
+  batchReadAssociations(params: BatchReadAssociationsParams): Promise<AssociationBatchReadResult>;
+  createAssociation(params: CreateAssociationParams): Promise<HttpResponseEnvelope<AssociationCreated>>;
+  removeAssociation(params: RemoveAssociationParams): Promise<HttpResponseEnvelope<void>>;
+  batchCreateAssociations(params: BatchCreateAssociationsParams): Promise<BatchWriteResult<AssociationCreated>>;
+  batchRemoveAssociations(params: BatchRemoveAssociationsParams): Promise<void>;
+  listAssociationLabels(params: AssociationLabelsParams): Promise<HttpResponseEnvelope<AssociationLabelsResponse>>;
+
+  // Domain: Properties (metadata)
+  listProperties(params: ListPropertiesParams): Promise<HttpResponseEnvelope<PropertiesResponse>>;
+  getProperty(params: GetPropertyParams): Promise<HttpResponseEnvelope<PropertyResponse>>;
+  createProperty(params: CreatePropertyParams): Promise<HttpResponseEnvelope<PropertyResponse>>;
+  listPropertyGroups(params: ListPropertyGroupsParams): Promise<HttpResponseEnvelope<PropertyGroupsResponse>>;
+  createPropertyGroup(params: CreatePropertyGroupParams): Promise<HttpResponseEnvelope<PropertyGroupResponse>>;
 
+  // Schema discovery: definitions with types, options and `calculated` flags (hidden skipped by default)
+  discoverProperties(params: DiscoverPropertiesParams): Promise<DiscoveredProperty[]>;
 
+  // Domain: Pipelines (deals, tickets)
+  listPipelines(params: ListPipelinesParams): Promise<HttpResponseEnvelope<PipelinesResponse>>;
+  getPipeline(params: GetPipelineParams): Promise<HttpResponseEnvelope<PipelineResponse>>;
+  listPipelineStages(params: ListPipelineStagesParams): Promise<HttpResponseEnvelope<PipelineStagesResponse>>;
+
+  // Flattened stage metadata: label, displayOrder, probability, isClosed, closedWon
+  listStageDefinitions(params: ListStageDefinitionsParams): Promise<StageDefinition[]>;
+
+  // Domain: Owners (users records are assigned to, with their teams)
+  listOwners(params?: ListOwnersParams): Promise<HttpResponseEnvelope<OwnersResponse>>;
+  getOwner(params: GetOwnerParams): Promise<HttpResponseEnvelope<OwnerResponse>>;
+
+  // Convenience: stream and fetch all owners (active, then archived with `includeArchived`)
+  streamOwners(params?: StreamOwnersParams): AsyncIterable<Owner>;
+  getOwners(params?: GetAllOwnersParams): Promise<Owner[]>;
+
+  // Domain: Currencies (company currency and exchange rates, multi-currency portals)
+  getCompanyCurrency(): Promise<HttpResponseEnvelope<CompanyCurrencyResponse>>;
+  listExchangeRates(params?: ListExchangeRatesParams): Promise<HttpResponseEnvelope<ExchangeRatesResponse>>;
+  listCurrentExchangeRates(): Promise<HttpResponseEnvelope<CurrentExchangeRatesResponse>>;
+  streamExchangeRates(params?: StreamExchangeRatesParams): AsyncIterable<ExchangeRate>;
+}
@@ -7,6 +7,8 @@ export interface HttpResponseEnvelope<T> {
     durationMs: number;
     requestId?: string;
     retryCount?: number;
+    cache?: "hit" | "miss" | "revalidated"; // set when the response cache handled the request
+    synthetic?: boolean; // response supplied by a beforeRequest hook (`respondWith`), not HubSpot
     rateLimit?: {
       limit?: number;
       remaining?: number;
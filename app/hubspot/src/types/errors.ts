@@ -4,8 +4,28 @@ export type ConnectorErrorSource =
   | "rateLimit"
   | "deserialize"
   | "userHook"
+  | "api"
   | "unknown";
 
+/** One entry of HubSpot's per-field `errors` array (e.g. an invalid property value). */
+export interface HubSpotFieldError {
+  message: string;
+  code?: string;
+  in?: string;
+  subCategory?: string;
+  context?: Record<string, string[]>;
+}
+
+/** `details` of a `ConnectorError` raised for a non-2xx HubSpot response. */
+export interface HubSpotErrorDetails {
+  category?: string; // e.g. VALIDATION_ERROR, OBJECT_NOT_FOUND
+  subCategory?: string;
+  correlationId?: string;
+  errors?: HubSpotFieldError[];
+  context?: Record<string, string[]>;
+  body?: unknown; // raw response body
+}
+
 export class ConnectorError extends Error {
   code: string;
   statusCode?: number;
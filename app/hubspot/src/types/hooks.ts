@@ -2,15 +2,49 @@ import type { HttpResponseEnvelope } from "./envelopes";
 
 export type HookType = "beforeRequest" | "afterResponse" | "onError" | "onRetry";
 
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/** The outgoing request as hooks see it. `url` is derived from `path` + `query`; auth headers are never included. */
+export interface HookRequest {
+  method: HttpMethod;
+  path: string;
+  url: string;
+  query: Record<string, string | number | boolean | undefined>;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Changes applied by `modifyRequest`. `query` and `headers` are merged (an
+ * `undefined` value removes the key); `method`, `path` and `body` replace.
+ */
+export interface RequestUpdates {
+  method?: HttpMethod;
+  path?: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  headers?: Record<string, string | undefined>;
+  body?: unknown;
+}
+
+/** A response supplied by a `beforeRequest` hook instead of calling HubSpot. */
+export interface SyntheticResponse<T = unknown> {
+  data: T;
+  status?: number; // default 200
+  headers?: Record<string, string>;
+}
+
 export interface HookContext {
   type: HookType;
   operation?: string;
-  request?: Record<string, unknown>;
+  request?: HookRequest;
   response?: HttpResponseEnvelope<unknown>;
   error?: unknown;
   metadata?: Record<string, unknown>;
-  modifyRequest?: (updates: Record<string, unknown>) => void;
+  /** `beforeRequest` and `onRetry` only: edits the request before the (next) attempt is sent. */
+  modifyRequest?: (updates: RequestUpdates) => void;
   modifyResponse?: (updates: Partial<HttpResponseEnvelope<unknown>>) => void;
+  /** `beforeRequest` only: skips the network call and returns this response (e.g. cache hits, mocks). */
+  respondWith?: (response: SyntheticResponse) => void;
   abort?: (reason?: string) => void;
 }
 
@@ -19,5 +53,3 @@ export interface Hook {
   priority?: number;
   execute: (ctx: HookContext) => Promise<void> | void;
 }
-
-
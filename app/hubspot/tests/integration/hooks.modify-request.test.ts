@@ -0,0 +1,89 @@
+/* eslint-env jest */
+/* global describe, it, expect */
+import nock from "nock";
+import { createHubSpotConnector } from "../../src";
+import type { Hook } from "../../src/types/hooks";
+
+// Request-mutation hooks against a mocked HubSpot (no token required).
+
+const BASE = "https://api.hubapi.com";
+
+describe("hooks: modifyRequest / respondWith", () => {
+  afterEach(() => nock.cleanAll());
+
+  it("changes headers, query, body and path before the URL and auth are built", async () => {
+    let seenAuth: string | undefined;
+    const scope = nock(BASE, { reqheaders: { "x-tenant": "acme" } })
+      .post("/crm/v3/objects/deals/search", (body) => body.limit === 5 && body.filterGroups.length === 0)
+      .query({ archived: "false" })
+      .reply(function () {
+        seenAuth = this.req.headers.authorization as string;
+        return [200, { results: [] }];
+      });
+
+    const rewrite: Hook = {
+      name: "rewrite",
+      execute(ctx) {
+        expect(ctx.request?.headers.Authorization).toBeUndefined();
+        ctx.modifyRequest?.({
+          path: "/crm/v3/objects/deals/search",
+          query: { archived: false },
+          headers: { "X-Tenant": "acme", Authorization: "Bearer hook" },
+          body: { ...(ctx.request?.body as object), limit: 5 },
+        });
+        expect(ctx.request?.url).toBe(`${BASE}/crm/v3/objects/deals/search?archived=false`);
+      },
+    };
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } }, hooks: { beforeRequest: [rewrite] } });
+    await hs.request({ method: "POST", path: "/crm/v3/objects/contacts/search", body: { filterGroups: [], limit: 100 } });
+
+    expect(scope.isDone()).toBe(true);
+    // Auth is applied after hooks and wins over hook-provided credentials
+    expect(seenAuth).toBe("Bearer token");
+  });
+
+  it("short-circuits with a synthetic response", async () => {
+    const afterResponse = jest.fn();
+    const mock: Hook = {
+      name: "mock",
+      execute(ctx) {
+        if (ctx.request?.path === "/crm/v3/objects/deals/d1") ctx.respondWith?.({ data: { id: "d1", properties: { dealname: "Mocked" } } });
+      },
+    };
+    const hs = createHubSpotConnector();
+    hs.initialize({
+      auth: { type: "bearer", bearer: { token: "token" } },
+      hooks: { beforeRequest: [mock], afterResponse: [{ name: "spy", execute: afterResponse }] },
+    });
+
+    const res = await hs.getDeal({ id: "d1" });
+    expect(res.status).toBe(200);
+    expect(res.data.properties.dealname).toBe("Mocked");
+    expect(res.meta?.synthetic).toBe(true);
+    expect(afterResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets onRetry hooks alter the next attempt", async () => {
+    nock(BASE).get("/crm/v3/objects/deals").query({ limit: "100" }).reply(503, {});
+    nock(BASE).get("/crm/v3/objects/deals").query({ limit: "10" }).reply(200, { results: [{ id: "d1" }] });
+
+    const shrink: Hook = {
+      name: "shrink-page",
+      execute(ctx) {
+        expect(ctx.metadata?.attempt).toBe(1);
+        ctx.modifyRequest?.({ query: { limit: 10 } });
+      },
+    };
+    const hs = createHubSpotConnector();
+    hs.initialize({
+      auth: { type: "bearer", bearer: { token: "token" } },
+      retry: { initialDelayMs: 1 },
+      hooks: { onRetry: [shrink] },
+    });
+
+    const res = await hs.listDeals({ limit: 100 });
+    expect(res.data.results[0].id).toBe("d1");
+    expect(res.meta?.retryCount).toBe(1);
+  });
+});
@@ -0,0 +1,56 @@
+import nock from "nock";
+import { createHubSpotConnector, type ThrottleEvent } from "../../src";
+
+const BASE = "https://api.hubapi.com";
+
+describe("adaptive rate limiting", () => {
+  afterEach(() => nock.cleanAll());
+
+  it("spaces requests when the secondly window is nearly spent", async () => {
+    nock(BASE)
+      .get("/crm/v3/objects/deals/d1")
+      .reply(200, { id: "d1" }, { "x-hubspot-ratelimit-secondly": "10", "x-hubspot-ratelimit-secondly-remaining": "2" });
+    nock(BASE).get(/\/crm\/v3\/objects\/deals\/d[23]/).times(2).reply(200, {});
+
+    const events: ThrottleEvent[] = [];
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } }, rateLimit: { onThrottle: (e) => events.push(e) } });
+    await hs.getDeal({ id: "d1" });
+    await Promise.all([hs.getDeal({ id: "d2" }), hs.getDeal({ id: "d3" })]);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ reason: "secondly", remaining: 2, limit: 10 });
+    expect(events[0].delayMs).toBeGreaterThan(300);
+  });
+
+  it("pauses until reset when the daily quota is exhausted", async () => {
+    nock(BASE)
+      .get("/crm/v3/objects/deals/d1")
+      .reply(200, { id: "d1" }, { "x-hubspot-ratelimit-daily": "500000", "x-hubspot-ratelimit-daily-remaining": "0", "x-hubspot-ratelimit-reset": "1" });
+    nock(BASE).get("/crm/v3/objects/deals/d2").reply(200, { id: "d2" });
+
+    const events: ThrottleEvent[] = [];
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } }, rateLimit: { onThrottle: (e) => events.push(e) } });
+    await hs.getDeal({ id: "d1" });
+    const started = Date.now();
+    await hs.getDeal({ id: "d2" });
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+    expect(events).toEqual([expect.objectContaining({ reason: "daily", remaining: 0, limit: 500000 })]);
+  });
+
+  it("ignores the headers when adaptiveFromHeaders is off", async () => {
+    nock(BASE)
+      .get(/\/crm\/v3\/objects\/deals\/d\d/)
+      .times(2)
+      .reply(200, {}, { "x-hubspot-ratelimit-daily": "500000", "x-hubspot-ratelimit-daily-remaining": "0", "x-hubspot-ratelimit-reset": "60" });
+
+    const onThrottle = jest.fn();
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } }, rateLimit: { adaptiveFromHeaders: false, onThrottle } });
+    await hs.getDeal({ id: "d1" });
+    await hs.getDeal({ id: "d2" });
+    expect(onThrottle).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import nock from "nock";
+import { associatedIds, createHubSpotConnector } from "../../src";
+
+const BASE = "https://api.hubapi.com";
+
+describe("associations (v4)", () => {
+  afterEach(() => nock.cleanAll());
+
+  it("streams deals with associated IDs populated", async () => {
+    nock(BASE)
+      .get("/crm/v3/objects/deals")
+      .query((q) => q.associations === "contacts,companies")
+      .reply(200, {
+        results: [
+          {
+            id: "d1",
+            associations: {
+              contacts: { results: [{ id: "c1", type: "deal_to_contact" }, { id: "c1", type: "deal_to_contact_unlabeled" }] },
+              companies: { results: [{ id: "co1", type: "deal_to_company" }] },
+            },
+          },
+        ],
+      });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const deals = await hs.getDeals({ associations: ["contacts", "companies"] });
+    expect(associatedIds(deals[0], "contacts")).toEqual(["c1"]);
+    expect(associatedIds(deals[0], "companies")).toEqual(["co1"]);
+  });
+
+  it("lists associations with labels and batch reads them", async () => {
+    nock(BASE)
+      .get("/crm/v4/objects/deals/d1/associations/companies")
+      .reply(200, { results: [{ toObjectId: 11, associationTypes: [{ category: "HUBSPOT_DEFINED", typeId: 5, label: "Primary" }] }] });
+    nock(BASE)
+      .post("/crm/v4/associations/deals/contacts/batch/read", (body) => body.inputs.length === 2)
+      .reply(200, {
+        status: "COMPLETE",
+        results: [{ from: { id: "d1" }, to: [{ toObjectId: 7, associationTypes: [] }] }],
+        startedAt: "",
+        completedAt: "",
+      });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const list = await hs.listAssociations({ fromObjectType: "deals", objectId: "d1", toObjectType: "companies" });
+    expect(list.data.results[0].associationTypes[0].label).toBe("Primary");
+    const batch = await hs.batchReadAssociations({ fromObjectType: "deals", toObjectType: "contacts", ids: ["d1", "d2"] });
+    expect(batch.results[0].from.id).toBe("d1");
+  });
+
+  it("creates default and labeled associations and removes them", async () => {
+    nock(BASE).put("/crm/v4/objects/deals/d1/associations/default/companies/11").reply(200, { labels: [] });
+    nock(BASE)
+      .put("/crm/v4/objects/deals/d1/associations/companies/11", (body) => body[0].associationTypeId === 5)
+      .reply(201, { labels: ["Primary"] });
+    nock(BASE).delete("/crm/v4/objects/deals/d1/associations/companies/11").reply(204);
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    await hs.createAssociation({ fromObjectType: "deals", fromId: "d1", toObjectType: "companies", toId: "11" });
+    const labeled = await hs.createAssociation({
+      fromObjectType: "deals",
+      fromId: "d1",
+      toObjectType: "companies",
+      toId: "11",
+      types: [{ associationCategory: "HUBSPOT_DEFINED", associationTypeId: 5 }],
+    });
+    expect(labeled.data.labels).toEqual(["Primary"]);
+    const removed = await hs.removeAssociation({ fromObjectType: "deals", fromId: "d1", toObjectType: "companies", toId: "11" });
+    expect(removed.status).toBe(204);
+  });
+});
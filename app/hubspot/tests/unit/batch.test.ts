@@ -0,0 +1,102 @@
+import nock from "nock";
+import { createHubSpotConnector } from "../../src";
+
+const BASE = "https://api.hubapi.com";
+
+describe("batch read", () => {
+  afterEach(() => nock.cleanAll());
+
+  it("chunks IDs to 100 per call and reports IDs not found", async () => {
+    const ids = Array.from({ length: 150 }, (_, i) => `d${i}`);
+    const bodies: any[] = [];
+    nock(BASE)
+      .post("/crm/v3/objects/deals/batch/read", (body) => {
+        bodies.push(body);
+        return true;
+      })
+      .times(2)
+      .reply(207, (_uri, body: any) => ({
+        status: "COMPLETE",
+        // Pretend d149 does not exist
+        results: body.inputs.filter((i: any) => i.id !== "d149").map((i: any) => ({ id: i.id, properties: {} })),
+        numErrors: body.inputs.some((i: any) => i.id === "d149") ? 1 : 0,
+        errors: body.inputs.some((i: any) => i.id === "d149")
+          ? [{ status: "error", category: "OBJECT_NOT_FOUND", message: "Could not get some DEAL objects", context: { ids: ["d149"] } }]
+          : [],
+        startedAt: "",
+        completedAt: "",
+      }));
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const res = await hs.batchGetDeals({ ids, properties: ["dealname"] });
+
+    expect(bodies.map((b) => b.inputs.length).sort()).toEqual([100, 50]);
+    expect(res.results).toHaveLength(149);
+    expect(res.notFound).toEqual(["d149"]);
+    expect(res.errors[0].category).toBe("OBJECT_NOT_FOUND");
+  });
+
+  it("matches results by idProperty case-insensitively", async () => {
+    nock(BASE)
+      .post("/crm/v3/objects/contacts/batch/read", (body) => body.idProperty === "email" && body.properties.includes("email") && body.properties.includes("firstname"))
+      .reply(200, {
+        status: "COMPLETE",
+        results: [{ id: "1", properties: { email: "a@example.com" } }],
+        startedAt: "",
+        completedAt: "",
+      });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const res = await hs.batchGetContacts({ ids: ["A@example.com", "b@example.com"], properties: ["firstname"], idProperty: "email" });
+    expect(res.results.map((r) => r.id)).toEqual(["1"]);
+    expect(res.notFound).toEqual(["b@example.com"]);
+  });
+
+  it("keeps HubSpot's default properties when reading by idProperty without properties", async () => {
+    nock(BASE)
+      .post("/crm/v3/objects/contacts/batch/read", (body) => body.idProperty === "email" && body.properties === undefined)
+      .reply(200, {
+        status: "COMPLETE",
+        results: [{ id: "1", properties: { email: "a@example.com", firstname: "Ada", lastname: "Lovelace" } }],
+        startedAt: "",
+        completedAt: "",
+      });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const res = await hs.batchGetContacts({ ids: ["a@example.com", "b@example.com"], idProperty: "email" });
+    expect(res.results[0].properties).toMatchObject({ firstname: "Ada", lastname: "Lovelace" });
+    expect(res.notFound).toEqual(["b@example.com"]);
+  });
+
+  it("reports notFound from HubSpot's errors when the idProperty is not returned", async () => {
+    nock(BASE)
+      .post("/crm/v3/objects/companies/batch/read", (body) => body.idProperty === "erp_id" && body.properties === undefined)
+      .reply(207, {
+        status: "COMPLETE",
+        results: [{ id: "1", properties: { name: "Acme" } }],
+        errors: [{ status: "error", category: "OBJECT_NOT_FOUND", message: "Could not get some COMPANY objects", context: { ids: ["E-2"] } }],
+        startedAt: "",
+        completedAt: "",
+      });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const res = await hs.batchGetCompanies({ ids: ["E-1", "E-2"], idProperty: "erp_id" });
+    expect(res.results).toHaveLength(1);
+    expect(res.notFound).toEqual(["E-2"]);
+  });
+
+  it("batch reads engagements by object type", async () => {
+    nock(BASE)
+      .post("/crm/v3/objects/notes/batch/read")
+      .reply(200, { status: "COMPLETE", results: [{ id: "n1" }], startedAt: "", completedAt: "" });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const res = await hs.batchGetEngagements({ objectType: "notes", ids: ["n1"] });
+    expect(res.notFound).toEqual([]);
+  });
+});
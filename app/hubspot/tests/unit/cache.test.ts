@@ -0,0 +1,108 @@
+import nock from "nock";
+import { createHubSpotConnector, LruCacheStore } from "../../src";
+
+const BASE = "https://api.hubapi.com";
+
+describe("response cache", () => {
+  afterEach(() => nock.cleanAll());
+
+  it("serves repeated GETs from cache and reports hit/miss", async () => {
+    const scope = nock(BASE).get("/crm/v3/objects/deals/d1").once().reply(200, { id: "d1", properties: { dealname: "A" } });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } }, cache: {} });
+    const first = await hs.getDeal({ id: "d1" });
+    const second = await hs.getDeal({ id: "d1" });
+
+    expect(first.meta?.cache).toBe("miss");
+    expect(second.meta?.cache).toBe("hit");
+    expect(second.data.properties.dealname).toBe("A");
+    expect(scope.isDone()).toBe(true);
+  });
+
+  it("serves hits without waiting on or consuming rate limits", async () => {
+    // Daily quota exhausted for the next 2s, and one token-bucket token per second
+    nock(BASE)
+      .get("/crm/v3/objects/deals/d1")
+      .once()
+      .reply(200, { id: "d1" }, { "x-hubspot-ratelimit-daily": "500000", "x-hubspot-ratelimit-daily-remaining": "0", "x-hubspot-ratelimit-reset": "2" });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({
+      auth: { type: "bearer", bearer: { token: "token" } },
+      cache: {},
+      rateLimit: { requestsPerSecond: 1, burstCapacity: 1, concurrentRequests: 1 },
+    });
+    await hs.getDeal({ id: "d1" });
+    const started = Date.now();
+    const hits = await Promise.all([hs.getDeal({ id: "d1" }), hs.getDeal({ id: "d1" }), hs.getDeal({ id: "d1" })]);
+
+    expect(hits.map((res) => res.meta?.cache)).toEqual(["hit", "hit", "hit"]);
+    expect(Date.now() - started).toBeLessThan(200);
+    expect(hs.getConcurrencyMetrics()).toMatchObject({ acquired: 1, inFlight: 0 });
+  });
+
+  it("revalidates stale entries with If-None-Match", async () => {
+    nock(BASE).get("/crm/v3/pipelines/deals").reply(200, { results: [{ id: "default" }] }, { ETag: '"v1"' });
+    nock(BASE, { reqheaders: { "if-none-match": '"v1"' } }).get("/crm/v3/pipelines/deals").reply(304);
+
+    const hs = createHubSpotConnector();
+    hs.initialize({
+      auth: { type: "bearer", bearer: { token: "token" } },
+      cache: { rules: [{ path: "/crm/v3/pipelines", ttlMs: 1 }] },
+    });
+    await hs.listPipelines({ objectType: "deals" });
+    await new Promise((r) => setTimeout(r, 5));
+    const res = await hs.listPipelines({ objectType: "deals" });
+
+    expect(res.status).toBe(200);
+    expect(res.meta?.cache).toBe("revalidated");
+    expect(res.data.results[0].id).toBe("default");
+  });
+
+  it("invalidates an object type after writes and on demand", async () => {
+    nock(BASE).get("/crm/v3/objects/deals/d1").times(2).reply(200, { id: "d1", properties: {} });
+    nock(BASE).get("/crm/v3/objects/contacts/c1").times(2).reply(200, { id: "c1", properties: {} });
+    nock(BASE).patch("/crm/v3/objects/deals/d1").reply(200, { id: "d1", properties: {} });
+
+    const store = new LruCacheStore({ maxEntries: 10 });
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } }, cache: { store } });
+    await hs.getDeal({ id: "d1" });
+    await hs.getContact({ id: "c1" });
+    await hs.updateDeal({ id: "d1", properties: { amount: "1" } });
+
+    expect((await hs.getDeal({ id: "d1" })).meta?.cache).toBe("miss");
+    expect((await hs.getContact({ id: "c1" })).meta?.cache).toBe("hit");
+    expect(await hs.invalidateCache("/crm/v3/objects/contacts")).toBe(1);
+    expect((await hs.getContact({ id: "c1" })).meta?.cache).toBe("miss");
+  });
+
+  it("invalidates the other end after an unlabeled createAssociation", async () => {
+    nock(BASE).get("/crm/v3/objects/companies/co1").times(2).reply(200, { id: "co1", properties: {} });
+    nock(BASE)
+      .put("/crm/v4/objects/deals/d1/associations/default/companies/co1")
+      .reply(200, { fromObjectTypeId: "0-3", fromObjectId: "d1", toObjectTypeId: "0-2", toObjectId: "co1", labels: [] });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } }, cache: {} });
+    await hs.getCompany({ id: "co1" });
+    await hs.createAssociation({ fromObjectType: "deals", fromId: "d1", toObjectType: "companies", toId: "co1" });
+
+    expect((await hs.getCompany({ id: "co1" })).meta?.cache).toBe("miss");
+  });
+
+  it("does not cache when disabled by a rule or not configured", async () => {
+    nock(BASE).get("/crm/v3/objects/deals/d1").times(4).reply(200, { id: "d1" });
+
+    const ruled = createHubSpotConnector();
+    ruled.initialize({ auth: { type: "bearer", bearer: { token: "token" } }, cache: { rules: [{ path: /^\/crm\/v3\/objects\/deals/, ttlMs: 0 }] } });
+    await ruled.getDeal({ id: "d1" });
+    expect((await ruled.getDeal({ id: "d1" })).meta?.cache).toBeUndefined();
+
+    const plain = createHubSpotConnector();
+    plain.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    await plain.getDeal({ id: "d1" });
+    expect((await plain.getDeal({ id: "d1" })).meta?.cache).toBeUndefined();
+  });
+});
@@ -0,0 +1,74 @@
+import nock from "nock";
+import { createHubSpotConnector } from "../../src";
+
+const BASE = "https://api.hubapi.com";
+
+describe("concurrentRequests", () => {
+  afterEach(() => nock.cleanAll());
+
+  it("caps in-flight requests and reports queue depth and wait time", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    nock(BASE)
+      .get(/\/crm\/v3\/objects\/deals\/d\d/)
+      .times(5)
+      .reply(async (uri) => {
+        inFlight += 1;
+        peak = Math.max(peak, inFlight);
+        await new Promise((r) => setTimeout(r, 30));
+        inFlight -= 1;
+        return [200, { id: uri.split("/").pop() }];
+      });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } }, rateLimit: { concurrentRequests: 2 } });
+    const results = await Promise.all([1, 2, 3, 4, 5].map((n) => hs.getDeal({ id: `d${n}` })));
+
+    expect(results.map((r) => r.data.id)).toEqual(["d1", "d2", "d3", "d4", "d5"]);
+    expect(peak).toBe(2);
+    const metrics = hs.getConcurrencyMetrics()!;
+    expect(metrics).toMatchObject({ maxConcurrent: 2, inFlight: 0, queueDepth: 0, maxQueueDepth: 3, acquired: 5 });
+    expect(metrics.maxWaitMs).toBeGreaterThan(0);
+  });
+
+  it("releases slots on hook aborts and timeouts", async () => {
+    nock(BASE).get("/crm/v3/objects/deals/slow").delay(200).reply(200, {});
+    nock(BASE).get("/crm/v3/objects/deals/ok").reply(200, { id: "ok" });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({
+      auth: { type: "bearer", bearer: { token: "token" } },
+      rateLimit: { concurrentRequests: 1 },
+      retry: { maxAttempts: 1 },
+      hooks: {
+        beforeRequest: [
+          { name: "block", execute: (ctx) => { if (String(ctx.request?.url).endsWith("/blocked")) ctx.abort?.("blocked"); } },
+        ],
+      },
+    });
+
+    await expect(hs.getDeal({ id: "blocked" })).rejects.toMatchObject({ code: "CANCELLED" });
+    await expect(hs.request({ method: "GET", path: "/crm/v3/objects/deals/slow", timeoutMs: 20 })).rejects.toMatchObject({ code: "TIMEOUT" });
+    const ok = await hs.getDeal({ id: "ok" });
+    expect(ok.data.id).toBe("ok");
+    expect(hs.getConcurrencyMetrics()).toMatchObject({ inFlight: 0, queueDepth: 0 });
+  });
+
+  it("answers hook responses without a slot or a rate limit token", async () => {
+    const hs = createHubSpotConnector();
+    hs.initialize({
+      auth: { type: "bearer", bearer: { token: "token" } },
+      rateLimit: { requestsPerSecond: 1, burstCapacity: 1, concurrentRequests: 1 },
+      hooks: {
+        beforeRequest: [{ name: "mock", execute: (ctx) => ctx.respondWith?.({ data: { id: "mocked" } }) }],
+      },
+    });
+
+    const started = Date.now();
+    const responses = await Promise.all([1, 2, 3, 4].map((n) => hs.getDeal({ id: `d${n}` })));
+
+    expect(responses.every((res) => res.meta?.synthetic && res.data.id === "mocked")).toBe(true);
+    expect(Date.now() - started).toBeLessThan(200);
+    expect(hs.getConcurrencyMetrics()).toMatchObject({ acquired: 0, inFlight: 0 });
+  });
+});
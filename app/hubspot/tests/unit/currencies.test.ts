@@ -0,0 +1,47 @@
+import nock from "nock";
+import { createHubSpotConnector } from "../../src";
+
+const BASE = "https://api.hubapi.com";
+
+describe("currencies", () => {
+  afterEach(() => nock.cleanAll());
+
+  it("gets the company currency", async () => {
+    nock(BASE).get("/settings/v3/currencies/company-currency").reply(200, { currencyCode: "USD", currencyName: "US Dollar" });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const res = await hs.getCompanyCurrency();
+    expect(res.data.currencyCode).toBe("USD");
+  });
+
+  it("streams every exchange rate across pages", async () => {
+    const rate = (id: string, toCurrencyCode: string, conversionRate: number, effectiveAt: string) => ({
+      id,
+      fromCurrencyCode: "USD",
+      toCurrencyCode,
+      conversionRate,
+      effectiveAt,
+      createdAt: "",
+      updatedAt: "",
+    });
+    nock(BASE)
+      .get("/settings/v3/currencies/exchange-rates")
+      .query((q) => q.after === undefined)
+      .reply(200, { results: [rate("1", "EUR", 0.9, "2024-01-01T00:00:00Z")], paging: { next: { after: "1", link: "" } } });
+    nock(BASE)
+      .get("/settings/v3/currencies/exchange-rates")
+      .query((q) => q.after === "1")
+      .reply(200, { results: [rate("2", "EUR", 0.92, "2024-06-01T00:00:00Z"), rate("3", "GBP", 0.79, "2024-01-01T00:00:00Z")] });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const rates = [];
+    for await (const r of hs.streamExchangeRates()) rates.push(r);
+    expect(rates.map((r) => [r.toCurrencyCode, r.conversionRate])).toEqual([
+      ["EUR", 0.9],
+      ["EUR", 0.92],
+      ["GBP", 0.79],
+    ]);
+  });
+});
@@ -47,6 +47,56 @@ describe("deals", () => {
     expect(all.map((x) => x.id)).toEqual(["d1", "d2"]);
     await hs.disconnect();
   });
-});
 
+  it("streams archived deals, re-reading archived records for properties: all", async () => {
+    nock(BASE).get("/crm/v3/properties/deals").reply(200, { results: [{ name: "dealname" }] });
+    nock(BASE)
+      .get("/crm/v3/objects/deals")
+      .query((q) => q.archived === "true")
+      .reply(200, { results: [{ id: "d9", archived: true, archivedAt: "2024-05-01T00:00:00Z" }] });
+    nock(BASE)
+      .post("/crm/v3/objects/deals/batch/read", (body) => body.inputs[0].id === "d9")
+      .query({ archived: "true" })
+      .reply(200, { results: [{ id: "d9", archived: true, properties: { dealname: "Gone" } }] });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const all = await hs.getDeals({ properties: "all", archived: true });
+    expect(all).toHaveLength(1);
+    expect(all[0].archivedAt).toBe("2024-05-01T00:00:00Z");
+    expect(all[0].properties.dealname).toBe("Gone");
+  });
+
+  it("requests property history, capping list pages and batch reads at 50", async () => {
+    nock(BASE)
+      .get("/crm/v3/objects/deals")
+      .query((q) => q.propertiesWithHistory === "dealstage" && q.limit === "50")
+      .reply(200, {
+        results: [
+          {
+            id: "d1",
+            properties: { dealstage: "closedwon" },
+            propertiesWithHistory: {
+              dealstage: [
+                { value: "closedwon", timestamp: "2024-03-01T00:00:00Z", sourceType: "CRM_UI" },
+                { value: "appointmentscheduled", timestamp: "2024-01-01T00:00:00Z", sourceType: "CRM_UI" },
+              ],
+            },
+          },
+        ],
+      });
+    const ids = Array.from({ length: 60 }, (_, i) => `d${i}`);
+    const batch = nock(BASE)
+      .post("/crm/v3/objects/deals/batch/read", (body) => body.propertiesWithHistory[0] === "dealstage" && body.inputs.length <= 50)
+      .times(2)
+      .reply(200, { results: [] });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const [deal] = await hs.getDeals({ propertiesWithHistory: ["dealstage"], pageSize: 100 });
+    expect(deal.propertiesWithHistory?.dealstage.map((h) => h.value)).toEqual(["closedwon", "appointmentscheduled"]);
 
+    await hs.batchGetDeals({ ids, propertiesWithHistory: ["dealstage"] });
+    expect(batch.isDone()).toBe(true);
+  });
+});
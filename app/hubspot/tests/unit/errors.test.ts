@@ -0,0 +1,92 @@
+import nock from "nock";
+import { ConnectorError, createHubSpotConnector } from "../../src";
+
+const BASE = "https://api.hubapi.com";
+
+describe("HTTP errors", () => {
+  afterEach(() => nock.cleanAll());
+
+  it("maps a 404 to NOT_FOUND with HubSpot's error details", async () => {
+    nock(BASE)
+      .get("/crm/v3/objects/deals/missing")
+      .reply(
+        404,
+        { status: "error", message: "Object not found.  objectId are usually numeric.", correlationId: "c-123", category: "OBJECT_NOT_FOUND" },
+        { "x-request-id": "req-1" }
+      );
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const err = await hs.getDeal({ id: "missing" }).catch((e) => e);
+    expect(err).toBeInstanceOf(ConnectorError);
+    expect(err).toMatchObject({ code: "NOT_FOUND", statusCode: 404, source: "api", requestId: "req-1", retryable: false });
+    expect(err.details).toMatchObject({ category: "OBJECT_NOT_FOUND", correlationId: "c-123" });
+  });
+
+  it("keeps per-field validation errors and maps auth failures", async () => {
+    nock(BASE)
+      .post("/crm/v3/objects/deals")
+      .reply(400, {
+        status: "error",
+        message: "Property values were not valid",
+        correlationId: "c-456",
+        category: "VALIDATION_ERROR",
+        errors: [{ message: "Property \"amount\" is not a number", code: "INVALID_FLOAT", context: { propertyName: ["amount"] } }],
+      });
+    nock(BASE).get("/crm/v3/objects/deals/d1").reply(403, { status: "error", message: "Missing scopes", category: "MISSING_SCOPES" });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const invalid = await hs.createDeal({ properties: { amount: "abc" } }).catch((e) => e);
+    expect(invalid).toMatchObject({ code: "VALIDATION_ERROR", statusCode: 400, requestId: "c-456" });
+    expect(invalid.details.errors[0]).toMatchObject({ code: "INVALID_FLOAT", context: { propertyName: ["amount"] } });
+
+    const forbidden = await hs.getDeal({ id: "d1" }).catch((e) => e);
+    expect(forbidden).toMatchObject({ code: "FORBIDDEN", statusCode: 403, source: "auth" });
+  });
+
+  it("raises RATE_LIMITED once retries are exhausted", async () => {
+    const scope = nock(BASE).get("/crm/v3/objects/deals/d1").times(2).reply(429, { status: "error", category: "RATE_LIMITS" });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } }, retry: { maxAttempts: 2, initialDelayMs: 1 } });
+    const err = await hs.getDeal({ id: "d1" }).catch((e) => e);
+    expect(err).toMatchObject({ code: "RATE_LIMITED", statusCode: 429, source: "rateLimit", retryable: true });
+    expect(scope.isDone()).toBe(true);
+  });
+
+  it("raises RATE_LIMITED when the next retry would overrun the retry budget", async () => {
+    const scope = nock(BASE)
+      .get("/crm/v3/objects/deals/d1")
+      .reply(429, { status: "error", category: "RATE_LIMITS", message: "Ten secondly rolling limit reached" }, { "Retry-After": "10" });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({
+      auth: { type: "bearer", bearer: { token: "token" } },
+      retry: { maxAttempts: 3, respectRetryAfter: true, retryBudgetMs: 1000 },
+    });
+    const err = await hs.getDeal({ id: "d1" }).catch((e) => e);
+    expect(err).toBeInstanceOf(ConnectorError);
+    expect(err).toMatchObject({ code: "RATE_LIMITED", statusCode: 429, source: "rateLimit", details: { category: "RATE_LIMITS" } });
+    expect(scope.isDone()).toBe(true);
+
+    nock(BASE).get("/crm/v3/objects/deals/d1").reply(429, { status: "error", category: "RATE_LIMITS" }, { "Retry-After": "10" });
+    const raw = await hs.request({ method: "GET", path: "/crm/v3/objects/deals/d1", throwOnHttpError: false });
+    expect(raw.status).toBe(429);
+  });
+
+  it("returns raw envelopes when throwOnHttpError is off", async () => {
+    nock(BASE).get("/crm/v3/objects/deals/missing").times(2).reply(404, { category: "OBJECT_NOT_FOUND" });
+
+    const strict = createHubSpotConnector();
+    strict.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const perCall = await strict.request({ method: "GET", path: "/crm/v3/objects/deals/missing", throwOnHttpError: false });
+    expect(perCall.status).toBe(404);
+
+    const lenient = createHubSpotConnector();
+    lenient.initialize({ auth: { type: "bearer", bearer: { token: "token" } }, throwOnHttpError: false });
+    const res = await lenient.getDeal({ id: "missing" });
+    expect(res.status).toBe(404);
+    expect((res.data as any).category).toBe("OBJECT_NOT_FOUND");
+  });
+});
@@ -0,0 +1,91 @@
+import nock from "nock";
+import { createHubSpotConnector, ConnectorError } from "../../src";
+
+const BASE = "https://api.hubapi.com";
+
+function oauthConfig(overrides: Record<string, unknown> = {}) {
+  return {
+    auth: {
+      type: "oauth2" as const,
+      oauth2: { clientId: "cid", clientSecret: "secret", refreshToken: "r1", ...overrides },
+    },
+    retry: { maxAttempts: 1 },
+  };
+}
+
+describe("oauth2 auth", () => {
+  afterEach(() => nock.cleanAll());
+
+  it("mints an access token before the first request and reports the rotated token", async () => {
+    nock(BASE)
+      .post("/oauth/v1/token", (body) => body.grant_type === "refresh_token" && body.refresh_token === "r1")
+      .reply(200, { access_token: "a1", refresh_token: "r2", expires_in: 1800 });
+    nock(BASE, { reqheaders: { authorization: "Bearer a1" } })
+      .get("/crm/v3/objects/deals/d1")
+      .reply(200, { id: "d1" });
+
+    const refreshed: any[] = [];
+    const hs = createHubSpotConnector();
+    hs.initialize(oauthConfig({ onTokenRefreshed: (t: any) => refreshed.push(t) }));
+    const res = await hs.getDeal({ id: "d1" });
+    expect(res.data.id).toBe("d1");
+    expect(refreshed).toHaveLength(1);
+    expect(refreshed[0]).toMatchObject({ accessToken: "a1", refreshToken: "r2" });
+  });
+
+  it("refreshes once on 401 and replays the request", async () => {
+    nock(BASE, { reqheaders: { authorization: "Bearer stale" } })
+      .get("/crm/v3/objects/deals/d1")
+      .reply(401, { status: "error", category: "EXPIRED_AUTHENTICATION" });
+    nock(BASE).post("/oauth/v1/token").reply(200, { access_token: "fresh", expires_in: 1800 });
+    nock(BASE, { reqheaders: { authorization: "Bearer fresh" } })
+      .get("/crm/v3/objects/deals/d1")
+      .reply(200, { id: "d1" });
+
+    const hs = createHubSpotConnector();
+    hs.initialize(oauthConfig({ accessToken: "stale", expiresAt: Math.floor(Date.now() / 1000) + 3600 }));
+    const res = await hs.getDeal({ id: "d1" });
+    expect(res.status).toBe(200);
+  });
+
+  it("maps a 401 after the refresh like any other auth error", async () => {
+    nock(BASE)
+      .get("/crm/v3/objects/deals/d1")
+      .times(4)
+      .reply(401, { status: "error", category: "INVALID_AUTHENTICATION", message: "Authentication credentials not found" });
+    nock(BASE).post("/oauth/v1/token").times(2).reply(200, { access_token: "fresh", expires_in: 1800 });
+
+    const hs = createHubSpotConnector();
+    hs.initialize(oauthConfig({ accessToken: "stale", expiresAt: Math.floor(Date.now() / 1000) + 3600 }));
+    const err = await hs.getDeal({ id: "d1" }).catch((e) => e);
+    expect(err).toBeInstanceOf(ConnectorError);
+    expect(err).toMatchObject({ code: "UNAUTHORIZED", statusCode: 401, source: "auth", details: { category: "INVALID_AUTHENTICATION" } });
+    expect(err.message).toContain("Authentication credentials not found");
+
+    const raw = await hs.request({ method: "GET", path: "/crm/v3/objects/deals/d1", throwOnHttpError: false });
+    expect(raw.status).toBe(401);
+  });
+
+  it("serializes concurrent refreshes into a single token request", async () => {
+    const tokenScope = nock(BASE).post("/oauth/v1/token").once().reply(200, { access_token: "a1", expires_in: 1800 });
+    nock(BASE).get("/crm/v3/objects/deals/d1").reply(200, { id: "d1" });
+    nock(BASE).get("/crm/v3/objects/deals/d2").reply(200, { id: "d2" });
+
+    const hs = createHubSpotConnector();
+    hs.initialize(oauthConfig());
+    const [a, b] = await Promise.all([hs.getDeal({ id: "d1" }), hs.getDeal({ id: "d2" })]);
+    expect([a.data.id, b.data.id]).toEqual(["d1", "d2"]);
+    expect(tokenScope.isDone()).toBe(true);
+  });
+
+  it("surfaces token endpoint failures as auth ConnectorErrors", async () => {
+    nock(BASE).post("/oauth/v1/token").reply(400, { status: "BAD_REFRESH_TOKEN", message: "missing or unknown refresh token" });
+
+    const hs = createHubSpotConnector();
+    hs.initialize(oauthConfig());
+    const err = await hs.getDeal({ id: "d1" }).catch((e) => e);
+    expect(err).toBeInstanceOf(ConnectorError);
+    expect(err.source).toBe("auth");
+    expect(err.code).toBe("UNAUTHORIZED");
+  });
+});
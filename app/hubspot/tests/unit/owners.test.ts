@@ -0,0 +1,53 @@
+import nock from "nock";
+import { createHubSpotConnector } from "../../src";
+
+const BASE = "https://api.hubapi.com";
+
+describe("owners", () => {
+  afterEach(() => nock.cleanAll());
+
+  it("streams active owners, then archived owners when requested", async () => {
+    nock(BASE)
+      .get("/crm/v3/owners")
+      .query((q) => q.archived === undefined)
+      .reply(200, {
+        results: [
+          {
+            id: "1",
+            email: "ada@example.com",
+            firstName: "Ada",
+            lastName: "Lovelace",
+            teams: [{ id: "t1", name: "EMEA", primary: true }],
+            createdAt: "",
+            updatedAt: "",
+            archived: false,
+          },
+        ],
+      });
+    nock(BASE)
+      .get("/crm/v3/owners")
+      .query((q) => q.archived === "true")
+      .reply(200, { results: [{ id: "2", email: "gone@example.com", createdAt: "", updatedAt: "", archived: true }] });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const owners = await hs.getOwners({ includeArchived: true });
+    expect(owners.map((o) => [o.id, o.archived])).toEqual([
+      ["1", false],
+      ["2", true],
+    ]);
+    expect(owners[0].teams?.[0].name).toBe("EMEA");
+  });
+
+  it("gets an owner by userId", async () => {
+    nock(BASE)
+      .get("/crm/v3/owners/42")
+      .query({ idProperty: "userId" })
+      .reply(200, { id: "1", userId: 42, createdAt: "", updatedAt: "", archived: false });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const res = await hs.getOwner({ ownerId: "42", idProperty: "userId" });
+    expect(res.data.id).toBe("1");
+  });
+});
@@ -0,0 +1,59 @@
+import nock from "nock";
+import { createHubSpotConnector } from "../../src";
+
+const BASE = "https://api.hubapi.com";
+
+describe("pipelines", () => {
+  afterEach(() => nock.cleanAll());
+
+  it("flattens deal stages with won/closed flags from stage metadata", async () => {
+    nock(BASE)
+      .get("/crm/v3/pipelines/deals")
+      .reply(200, {
+        results: [
+          {
+            id: "default",
+            label: "Sales Pipeline",
+            displayOrder: 0,
+            archived: false,
+            stages: [
+              { id: "appointmentscheduled", label: "Appointment Scheduled", displayOrder: 0, archived: false, metadata: { isClosed: "false", probability: "0.2" } },
+              { id: "closedwon", label: "Closed Won", displayOrder: 5, archived: false, metadata: { isClosed: "true", probability: "1.0" } },
+              { id: "closedlost", label: "Closed Lost", displayOrder: 6, archived: false, metadata: { isClosed: "true", probability: "0.0" } },
+            ],
+          },
+        ],
+      });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const stages = await hs.listStageDefinitions({ objectType: "deals" });
+    expect(stages.map((s) => [s.stageId, s.isClosed, s.closedWon])).toEqual([
+      ["appointmentscheduled", false, false],
+      ["closedwon", true, true],
+      ["closedlost", true, false],
+    ]);
+    expect(stages[0]).toMatchObject({ pipelineLabel: "Sales Pipeline", label: "Appointment Scheduled", probability: 0.2 });
+  });
+
+  it("treats closed ticket stages as closed but never won", async () => {
+    nock(BASE)
+      .get("/crm/v3/pipelines/tickets")
+      .reply(200, {
+        results: [
+          {
+            id: "0",
+            label: "Support Pipeline",
+            displayOrder: 0,
+            archived: false,
+            stages: [{ id: "4", label: "Closed", displayOrder: 3, archived: false, metadata: { ticketState: "CLOSED" } }],
+          },
+        ],
+      });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const [stage] = await hs.listStageDefinitions({ objectType: "tickets" });
+    expect(stage).toMatchObject({ isClosed: true, closedWon: false, probability: null });
+  });
+});
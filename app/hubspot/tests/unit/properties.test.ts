@@ -0,0 +1,102 @@
+import nock from "nock";
+import { createHubSpotConnector } from "../../src";
+
+const BASE = "https://api.hubapi.com";
+
+const definitions = [
+  {
+    name: "dealname",
+    label: "Deal Name",
+    type: "string",
+    fieldType: "text",
+    groupName: "dealinformation",
+    options: [],
+    calculated: false,
+    externalOptions: false,
+    hubspotDefined: true,
+  },
+  {
+    name: "region",
+    label: "Region",
+    type: "enumeration",
+    fieldType: "select",
+    groupName: "dealinformation",
+    options: [
+      { label: "EMEA", value: "emea", hidden: false },
+      { label: "Legacy", value: "legacy", hidden: true },
+    ],
+    calculated: false,
+    externalOptions: false,
+  },
+  {
+    name: "hs_internal_flag",
+    label: "Internal",
+    type: "bool",
+    fieldType: "booleancheckbox",
+    groupName: "dealinformation",
+    options: [],
+    calculated: true,
+    externalOptions: false,
+    hidden: true,
+    modificationMetadata: { archivable: false, readOnlyDefinition: true, readOnlyValue: true },
+  },
+];
+
+describe("properties", () => {
+  afterEach(() => nock.cleanAll());
+
+  it("discovers property definitions, skipping hidden properties and options", async () => {
+    nock(BASE).get("/crm/v3/properties/deals").reply(200, { results: definitions });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const props = await hs.discoverProperties({ objectType: "deals" });
+    expect(props.map((p) => p.name)).toEqual(["dealname", "region"]);
+    expect(props[1]).toMatchObject({ type: "enumeration", options: [{ label: "EMEA", value: "emea" }], calculated: false });
+  });
+
+  it("creates a property group and a property", async () => {
+    nock(BASE).post("/crm/v3/properties/deals/groups", (body) => body.name === "sync").reply(201, { name: "sync", label: "Sync", displayOrder: -1, archived: false });
+    nock(BASE)
+      .post("/crm/v3/properties/deals", (body) => body.groupName === "sync" && body.type === "number")
+      .reply(201, { ...definitions[0], name: "sync_score", type: "number", fieldType: "number", groupName: "sync" });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    await hs.createPropertyGroup({ objectType: "deals", group: { name: "sync", label: "Sync" } });
+    const res = await hs.createProperty({
+      objectType: "deals",
+      property: { name: "sync_score", label: "Sync score", type: "number", fieldType: "number", groupName: "sync" },
+    });
+    expect(res.data.name).toBe("sync_score");
+  });
+
+  it("streams with properties: \"all\" by batch reading each page with every property", async () => {
+    nock(BASE).get("/crm/v3/properties/deals").reply(200, { results: definitions });
+    nock(BASE)
+      .get("/crm/v3/objects/deals")
+      .query((q) => q.associations === "contacts" && q.properties === undefined)
+      .reply(200, {
+        results: [
+          { id: "d1", properties: {}, associations: { contacts: { results: [{ id: "c1", type: "deal_to_contact" }] } } },
+          { id: "d2", properties: {} },
+        ],
+      });
+    nock(BASE)
+      .post("/crm/v3/objects/deals/batch/read", (body) => body.properties.length === 3 && body.inputs.length === 2)
+      .reply(200, {
+        status: "COMPLETE",
+        // d2 was deleted between the list and the batch read
+        results: [{ id: "d1", properties: { dealname: "Big", region: "emea", hs_internal_flag: "true" } }],
+        startedAt: "",
+        completedAt: "",
+      });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const deals = await hs.getDeals({ properties: "all", associations: ["contacts"] });
+    expect(deals).toHaveLength(1);
+    expect(deals[0].properties.region).toBe("emea");
+    expect(deals[0].associations?.contacts.results[0].id).toBe("c1");
+  });
+});
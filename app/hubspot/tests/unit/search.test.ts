@@ -0,0 +1,111 @@
+import nock from "nock";
+import { createHubSpotConnector, searchBuilder } from "../../src";
+import type { DealProperties, SearchRequest } from "../../src/models";
+
+const BASE = "https://api.hubapi.com";
+
+describe("search", () => {
+  afterEach(() => nock.cleanAll());
+
+  it("builds AND-ed filters within a group and OR-ed groups", () => {
+    const since = new Date("2024-01-01T00:00:00.000Z");
+    const req = searchBuilder<DealProperties>()
+      .where("dealstage", "EQ", "closedwon")
+      .where("hs_lastmodifieddate", "GTE", since)
+      .or()
+      .where("pipeline", "IN", ["default", "renewals"])
+      .sort("hs_lastmodifieddate", "DESCENDING")
+      .properties("dealname", "amount")
+      .limit(50)
+      .build();
+
+    expect(req).toEqual({
+      filterGroups: [
+        {
+          filters: [
+            { propertyName: "dealstage", operator: "EQ", value: "closedwon" },
+            { propertyName: "hs_lastmodifieddate", operator: "GTE", value: String(since.getTime()) },
+          ],
+        },
+        { filters: [{ propertyName: "pipeline", operator: "IN", values: ["default", "renewals"] }] },
+      ],
+      sorts: [{ propertyName: "hs_lastmodifieddate", direction: "DESCENDING" }],
+      properties: ["dealname", "amount"],
+      limit: 50,
+    });
+  });
+
+  it("posts a search request for deals", async () => {
+    nock(BASE)
+      .post("/crm/v3/objects/deals/search", (body) => body.filterGroups[0].filters[0].propertyName === "dealstage")
+      .reply(200, { total: 1, results: [{ id: "d1", properties: {} }] });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const res = await hs.searchDeals(searchBuilder<DealProperties>().where("dealstage", "EQ", "closedwon").build());
+    expect(res.data.total).toBe(1);
+    expect(res.data.results[0].id).toBe("d1");
+  });
+
+  it("streamSearch re-slices on the last-modified date past the 10k ceiling", async () => {
+    const ts = (n: number) => new Date(Date.UTC(2024, 0, n)).toISOString();
+    // Slice 1: page ends with a cursor whose next page would cross 10k results
+    nock(BASE)
+      .post("/crm/v3/objects/deals/search", (body) => body.filterGroups === undefined && body.after === undefined)
+      .reply(200, {
+        total: 20000,
+        results: [
+          { id: "a", properties: { hs_lastmodifieddate: ts(1) } },
+          { id: "b", properties: { hs_lastmodifieddate: ts(2) } },
+        ],
+        paging: { next: { after: "9950" } },
+      });
+    // Slice 2: bounded by the last seen timestamp; "b" is returned again and must be skipped
+    nock(BASE)
+      .post(
+        "/crm/v3/objects/deals/search",
+        (body) =>
+          body.after === undefined &&
+          body.sorts[0].propertyName === "hs_lastmodifieddate" &&
+          body.filterGroups[0].filters[0].operator === "GTE" &&
+          body.filterGroups[0].filters[0].value === String(Date.parse(ts(2)))
+      )
+      .reply(200, {
+        total: 2,
+        results: [
+          { id: "b", properties: { hs_lastmodifieddate: ts(2) } },
+          { id: "c", properties: { hs_lastmodifieddate: ts(3) } },
+        ],
+      });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const seen: string[] = [];
+    for await (const deal of hs.streamSearchDeals({ limit: 100 })) seen.push(deal.id);
+    expect(seen).toEqual(["a", "b", "c"]);
+  });
+
+  it("streamSearch rejects requests the slice bound or sort would break before sending", async () => {
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const drain = async (request: SearchRequest<any>) => {
+      for await (const _ of hs.streamSearchDeals(request)); // eslint-disable-line @typescript-eslint/no-unused-vars
+    };
+
+    const full = searchBuilder();
+    for (let i = 0; i < 6; i++) full.where(`prop${i}`, "HAS_PROPERTY");
+    await expect(drain(full.build())).rejects.toMatchObject({ code: "INVALID_SEARCH_REQUEST" });
+
+    const sorted = searchBuilder().where("dealstage", "EQ", "closedwon").sort("amount", "DESCENDING").build();
+    await expect(drain(sorted)).rejects.toMatchObject({ code: "INVALID_SEARCH_REQUEST" });
+  });
+
+  it("searches engagements by object type", async () => {
+    nock(BASE).post("/crm/v3/objects/calls/search").reply(200, { total: 1, results: [{ id: "c1" }] });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const res = await hs.searchEngagements({ objectType: "calls", query: "demo" });
+    expect(res.data.results[0].id).toBe("c1");
+  });
+});
@@ -0,0 +1,113 @@
+import nock from "nock";
+import { createHubSpotConnector } from "../../src";
+
+const BASE = "https://api.hubapi.com";
+
+describe("writes", () => {
+  afterEach(() => nock.cleanAll());
+
+  it("creates, updates and archives a deal", async () => {
+    nock(BASE)
+      .post("/crm/v3/objects/deals", (body) => body.properties.dealname === "New deal")
+      .reply(201, { id: "d1", properties: { dealname: "New deal" } });
+    nock(BASE)
+      .patch("/crm/v3/objects/deals/d1", (body) => body.properties.amount === "500")
+      .reply(200, { id: "d1", properties: { amount: "500" } });
+    nock(BASE).delete("/crm/v3/objects/deals/d1").reply(204);
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const created = await hs.createDeal({ properties: { dealname: "New deal" } });
+    expect(created.status).toBe(201);
+    const updated = await hs.updateDeal({ id: "d1", properties: { amount: "500" } });
+    expect(updated.data.properties.amount).toBe("500");
+    const archived = await hs.archiveDeal({ id: "d1" });
+    expect(archived.status).toBe(204);
+  });
+
+  it("updates a contact by unique idProperty", async () => {
+    nock(BASE)
+      .patch("/crm/v3/objects/contacts/a@example.com")
+      .query({ idProperty: "email" })
+      .reply(200, { id: "1", properties: { firstname: "Ada" } });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const res = await hs.updateContact({ id: "a@example.com", idProperty: "email", properties: { firstname: "Ada" } });
+    expect(res.data.id).toBe("1");
+  });
+
+  it("returns per-record errors from a 207 batch upsert instead of throwing", async () => {
+    nock(BASE)
+      .post(
+        "/crm/v3/objects/contacts/batch/upsert",
+        (body) => body.inputs.length === 2 && body.inputs.every((i: any) => i.idProperty === "email")
+      )
+      .reply(207, {
+        status: "COMPLETE",
+        results: [{ id: "1", properties: { email: "a@example.com" } }],
+        numErrors: 1,
+        errors: [{ status: "error", category: "VALIDATION_ERROR", message: "Invalid email", context: { ids: ["not-an-email"] } }],
+        startedAt: "",
+        completedAt: "",
+      });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const res = await hs.batchUpsertContacts({
+      idProperty: "email",
+      inputs: [
+        { id: "a@example.com", properties: { firstname: "Ada" } },
+        { id: "not-an-email", properties: { firstname: "Bob" } },
+      ],
+    });
+    expect(res.results.map((r) => r.id)).toEqual(["1"]);
+    expect(res.errors[0].context?.ids).toEqual(["not-an-email"]);
+  });
+
+  it("keeps committed chunks and reports every input of a rejected chunk", async () => {
+    const inputs = Array.from({ length: 150 }, (_, i) => ({ id: `${i}`, properties: { dealname: `Deal ${i}` } }));
+    nock(BASE)
+      .post("/crm/v3/objects/deals/batch/update", (body) => body.inputs.length === 100)
+      .reply(207, {
+        status: "COMPLETE",
+        results: inputs.slice(0, 99).map((i) => ({ id: i.id, properties: {} })),
+        numErrors: 1,
+        errors: [{ status: "error", category: "OBJECT_NOT_FOUND", message: "Not found", context: { ids: ["99"] } }],
+        startedAt: "",
+        completedAt: "",
+      });
+    nock(BASE)
+      .post("/crm/v3/objects/deals/batch/update", (body) => body.inputs.length === 50)
+      .reply(400, { status: "error", category: "VALIDATION_ERROR", message: "Property values were not valid", correlationId: "c-1" });
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const res = await hs.batchUpdateDeals({ inputs });
+
+    expect(res.results).toHaveLength(99);
+    expect(res.errors).toHaveLength(51);
+    expect(res.errors[0]).toMatchObject({ category: "OBJECT_NOT_FOUND", context: { ids: ["99"] } });
+    const rejected = res.errors.slice(1);
+    expect(rejected.map((e) => e.context?.ids?.[0])).toEqual(inputs.slice(100).map((i) => i.id));
+    expect(rejected[0]).toMatchObject({ category: "VALIDATION_ERROR", statusCode: 400, input: inputs[100] });
+  });
+
+  it("chunks batch archive to 100 inputs per call", async () => {
+    const sizes: number[] = [];
+    nock(BASE)
+      .post("/crm/v3/objects/notes/batch/archive", (body) => {
+        sizes.push(body.inputs.length);
+        return true;
+      })
+      .times(3)
+      .reply(204);
+
+    const hs = createHubSpotConnector();
+    hs.initialize({ auth: { type: "bearer", bearer: { token: "token" } } });
+    const ids = Array.from({ length: 250 }, (_, i) => `n${i}`);
+    const res = await hs.batchArchiveEngagements({ objectType: "notes", ids });
+    expect(sizes.sort()).toEqual([100, 100, 50]);
+    expect(res.errors).toEqual([]);
+  });
+});
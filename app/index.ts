@@ -2,9 +2,18 @@
 export * from "./ingest/hubspotModels";
 export * from "./ingest/hubspotTransforms";
 
+// HubSpot materialized views
+export * from "./views/hubspotDealEnrichment";
+
 // HubSpot consumption APIs
 export * from "./apis/hubspotDeals";
+export * from "./apis/hubspotAccounts";
+export * from "./apis/hubspotDealVelocity";
+export * from "./apis/hubspotDealCohorts";
+export * from "./apis/hubspotDealForecast";
+export * from "./apis/hubspotDealWaterfall";
 export * from "./apis/hubspotWorkflowTrigger";
 
 // HubSpot data sync workflows
 export * from "./scripts/hubspotWorkflow";
+export * from "./scripts/hubspotDealSnapshot";
@@ -0,0 +1,163 @@
+import * as fs from "fs";
+import { createHubSpotConnector, type ExchangeRate, type HubSpotConnector } from "../hubspot";
+
+/**
+ * HubSpot Exchange Rate Cache
+ *
+ * Deal amounts are in the deal's own currency (`deal_currency_code`). Rates
+ * into the portal's home currency come from, in order:
+ *
+ * - HUBSPOT_FX_RATES_FILE, a local JSON rates file:
+ *   `{ "homeCurrency": "USD", "rates": [{ "currency": "EUR", "rateToHome": 1.09, "effectiveAt": "2024-01-01" }] }`
+ * - HubSpot's currency settings (company currency and exchange rates), read
+ *   with the connector when HUBSPOT_TOKEN is set
+ * - Otherwise only the home currency (HUBSPOT_HOME_CURRENCY, default USD) is known
+ *
+ * Rates are cached in memory like pipeline stages: refreshed when older than
+ * HUBSPOT_FX_CACHE_TTL_MS (default 10 minutes), and early (at most once per
+ * minute) for an unknown currency. A failed refresh keeps the last rates.
+ */
+
+/** One rate: `rateToHome` home currency units per unit of `currency`, from `effectiveAt` */
+export interface FxRate {
+  currency: string;
+  rateToHome: number;
+  effectiveAt: Date;
+  source: "hubspot" | "file" | "default";
+}
+
+export interface FxRateTable {
+  homeCurrency: string;
+  rates: FxRate[];
+}
+
+const FX_CACHE_TTL_MS = parseInt(process.env.HUBSPOT_FX_CACHE_TTL_MS || "", 10) || 10 * 60 * 1000;
+const MIN_REFRESH_INTERVAL_MS = 60 * 1000;
+const DEFAULT_HOME_CURRENCY = process.env.HUBSPOT_HOME_CURRENCY || "USD";
+
+let connector: HubSpotConnector | undefined;
+
+const cache: {
+  table: FxRateTable;
+  byCurrency: Map<string, FxRate[]>; // newest first
+  lastRefreshAt: number;
+  inFlight?: Promise<void>;
+} = { table: { homeCurrency: DEFAULT_HOME_CURRENCY, rates: [] }, byCurrency: new Map(), lastRefreshAt: 0 };
+
+const homeRate = (homeCurrency: string, source: FxRate["source"]): FxRate => ({
+  currency: homeCurrency,
+  rateToHome: 1,
+  effectiveAt: new Date(0),
+  source,
+});
+
+function getConnector(): HubSpotConnector | undefined {
+  const token = process.env.HUBSPOT_TOKEN;
+  if (!token) return undefined;
+  if (!connector) {
+    connector = createHubSpotConnector();
+    connector.initialize({ auth: { type: "bearer", bearer: { token } } });
+  }
+  return connector;
+}
+
+function readRatesFile(path: string): FxRateTable {
+  const parsed = JSON.parse(fs.readFileSync(path, "utf8"));
+  const homeCurrency = String(parsed.homeCurrency || DEFAULT_HOME_CURRENCY).toUpperCase();
+  const rates: FxRate[] = (parsed.rates ?? []).map((rate: any) => {
+    const rateToHome = Number(rate.rateToHome);
+    if (!rate.currency || !(rateToHome > 0)) {
+      throw new Error(`Invalid rate in ${path}: ${JSON.stringify(rate)}`);
+    }
+    return {
+      currency: String(rate.currency).toUpperCase(),
+      rateToHome,
+      effectiveAt: new Date(rate.effectiveAt ?? 0),
+      source: "file" as const,
+    };
+  });
+  return { homeCurrency, rates: [homeRate(homeCurrency, "file"), ...rates] };
+}
+
+// HubSpot rates go from the company currency to another one; either direction is accepted
+function fromHubSpotRate(homeCurrency: string, rate: ExchangeRate): FxRate | undefined {
+  if (!(rate.conversionRate > 0)) return undefined;
+  const effectiveAt = new Date(rate.effectiveAt);
+  if (rate.fromCurrencyCode === homeCurrency) {
+    return { currency: rate.toCurrencyCode, rateToHome: 1 / rate.conversionRate, effectiveAt, source: "hubspot" };
+  }
+  if (rate.toCurrencyCode === homeCurrency) {
+    return { currency: rate.fromCurrencyCode, rateToHome: rate.conversionRate, effectiveAt, source: "hubspot" };
+  }
+  return undefined;
+}
+
+/** Reads the current rate table from the rates file or HubSpot (uncached) */
+export async function loadExchangeRates(): Promise<FxRateTable> {
+  const file = process.env.HUBSPOT_FX_RATES_FILE;
+  if (file) return readRatesFile(file);
+
+  const hs = getConnector();
+  if (!hs) {
+    return { homeCurrency: DEFAULT_HOME_CURRENCY, rates: [homeRate(DEFAULT_HOME_CURRENCY, "default")] };
+  }
+  const homeCurrency = (await hs.getCompanyCurrency()).data.currencyCode;
+  const rates: FxRate[] = [homeRate(homeCurrency, "hubspot")];
+  for await (const rate of hs.streamExchangeRates()) {
+    const fx = fromHubSpotRate(homeCurrency, rate);
+    if (fx) rates.push(fx);
+  }
+  return { homeCurrency, rates };
+}
+
+async function refreshRates(): Promise<void> {
+  cache.lastRefreshAt = Date.now();
+  try {
+    const table = await loadExchangeRates();
+    const byCurrency = new Map<string, FxRate[]>();
+    for (const rate of table.rates) {
+      if (!byCurrency.has(rate.currency)) byCurrency.set(rate.currency, []);
+      byCurrency.get(rate.currency)!.push(rate);
+    }
+    byCurrency.forEach((rates) => rates.sort((a, b) => b.effectiveAt.getTime() - a.effectiveAt.getTime()));
+    cache.table = table;
+    cache.byCurrency = byCurrency;
+    console.log(`💱 Loaded ${table.rates.length} exchange rates into ${table.homeCurrency} across ${byCurrency.size} currencies`);
+  } catch (error) {
+    // Keep serving the previous rates until the next refresh succeeds
+    console.error("❌ Failed to refresh exchange rates:", error);
+  }
+}
+
+function refresh(): Promise<void> {
+  if (!cache.inFlight) cache.inFlight = refreshRates().finally(() => (cache.inFlight = undefined));
+  return cache.inFlight;
+}
+
+function refreshIfStale(currency?: string): Promise<void> | undefined {
+  const age = Date.now() - cache.lastRefreshAt;
+  if (age > FX_CACHE_TTL_MS || (currency && !cache.byCurrency.has(currency) && age > MIN_REFRESH_INTERVAL_MS)) {
+    return refresh();
+  }
+  return undefined;
+}
+
+/** The portal's home (company) currency */
+export async function resolveHomeCurrency(): Promise<string> {
+  await refreshIfStale();
+  return cache.table.homeCurrency;
+}
+
+/**
+ * Home currency per unit of `currency`, using the latest rate effective at
+ * `at` (default now; the earliest known rate for older dates). Undefined when
+ * no rate is known for the currency.
+ */
+export async function resolveFxRate(currency: string, at: Date = new Date()): Promise<number | undefined> {
+  const code = currency.toUpperCase();
+  await refreshIfStale(code);
+
+  const rates = cache.byCurrency.get(code);
+  if (!rates?.length) return undefined;
+  return (rates.find((rate) => rate.effectiveAt.getTime() <= at.getTime()) ?? rates[rates.length - 1]).rateToHome;
+}
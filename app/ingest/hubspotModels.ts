@@ -20,7 +20,25 @@ export interface HubSpotDealRaw {
   createdAt: string; // ISO timestamp from HubSpot
   updatedAt: string; // ISO timestamp from HubSpot  
   archived: boolean; // Whether deal is archived
+  archivedAt?: string; // Deletion marker: when the deal was deleted in HubSpot
+  mergedIntoId?: string; // Merge marker: the deal this one was merged into
   associations: HubSpotDealAssociations; // Associated contacts/companies
+  primaryCompanyId?: string; // Associated company with HubSpot's Primary label (deal → company type 5)
+  propertiesWithHistory?: HubSpotPropertiesWithHistory; // Change history (`dealstage`), newest first
+}
+
+/** Past values of history-tracked properties, keyed by property name */
+export interface HubSpotPropertiesWithHistory {
+  [property: string]: HubSpotPropertyHistoryEntry[];
+}
+
+/** One past value of a HubSpot property */
+export interface HubSpotPropertyHistoryEntry {
+  value: string; // Property value set at `timestamp`
+  timestamp: string; // ISO timestamp from HubSpot
+  sourceType?: string; // What made the change (CRM_UI, WORKFLOW, IMPORT, ...)
+  sourceId?: string; // Source detail (e.g. workflow ID)
+  updatedByUserId?: number; // HubSpot user who made the change
 }
 
 /** HubSpot deal properties (flexible structure) */
@@ -53,14 +71,259 @@ export interface HubSpotDeal {
   stageProbability: number; // Stage probability (0-1)
   forecastAmount: number; // Forecast amount
   projectedAmount: number; // Projected amount
+  forecastCategory?: string; // hs_forecast_category (PIPELINE, BEST_CASE, COMMIT, CLOSED, OMIT)
+  fxRate: number; // Home currency per unit of `currency` (1 for home currency deals)
+  amountHome: number; // Amount in the portal's home currency
+  forecastAmountHome: number; // Forecast amount in the home currency
   daysToClose?: number; // Days to close (calculated)
   isWon: boolean; // Whether deal is won
   isClosed: boolean; // Whether deal is closed
   isArchived: boolean; // Whether deal is archived
+  isDeleted: boolean; // Tombstone: deleted or merged away in HubSpot (excluded from analytics)
+  deletedAt?: Date; // When the deal was deleted or merged away
+  mergedIntoId?: string; // Surviving deal ID when merged away
+  mergedDealIds: string[]; // Deals merged into this one (hs_merged_object_ids)
   contactCount: number; // Number of associated contacts
   noteCount: number; // Number of notes
   associatedContacts: string[]; // Associated contact IDs (empty array if none)
   associatedCompanies: string[]; // Associated company IDs (empty array if none)
+  primaryCompanyId: string; // Company with the Primary association label ('' when none)
+  customProperties: Record<string, any>; // Custom properties
+}
+
+/** One stage a deal entered, derived from its `dealstage` history; one row per deal and entry time */
+export interface HubSpotDealStageTransition {
+  id: Key<string>; // `${dealId}:${enteredAt epoch ms}`
+  dealId: string; // Deal ID
+  pipeline: string; // Pipeline ID (the deal's current pipeline)
+  pipelineLabel: string; // Pipeline name
+  fromStage?: string; // Stage the deal left (absent for its first stage)
+  fromStageLabel?: string; // Human readable previous stage
+  toStage: string; // Stage the deal entered
+  toStageLabel: string; // Human readable stage
+  toStageOrder?: number; // Stage display order within the pipeline
+  isWonStage: boolean; // Entered stage is closed won
+  isClosedStage: boolean; // Entered stage is closed (won or lost)
+  enteredAt: Date; // When the deal entered the stage
+  exitedAt?: Date; // When the deal left it (absent while current)
+  secondsInStage?: number; // exitedAt - enteredAt (absent while current)
+  isCurrent: boolean; // The deal is still in this stage
+  stepIndex: number; // 0-based position in the deal's stage history
+  sourceType?: string; // What moved the deal (CRM_UI, WORKFLOW, ...)
+}
+
+/** A deal as it stood on one day, copied from HubSpotDeal by the daily snapshot workflow */
+export interface HubSpotDealSnapshot {
+  snapshotDate: Date; // Day of the snapshot (midnight)
+  snapshotAt: Date; // When the snapshot was taken; the latest run for a day wins
+  dealId: string; // Deal ID
+  dealName: string; // Deal name
+  ownerId?: string; // Owner ID
+  pipeline: string; // Pipeline ID
+  pipelineLabel: string; // Pipeline name
+  stage: string; // Deal stage
+  stageLabel: string; // Human readable stage
+  amount: number; // Amount on the snapshot day
+  currency: string; // Deal currency
+  closeDate?: Date; // Expected (or actual) close date on the snapshot day
+  stageProbability: number; // Stage probability (0-1)
+  forecastAmount: number; // Forecast amount
+  projectedAmount: number; // Projected amount
+  fxRate: number; // Home currency per unit of `currency` on the snapshot day
+  amountHome: number; // Amount in the home currency
+  forecastAmountHome: number; // Forecast amount in the home currency
+  isWon: boolean; // Whether deal is won
+  isClosed: boolean; // Whether deal is closed
+}
+
+/** HubSpot owner (user records are assigned to), keyed by the `hubspot_owner_id` value */
+export interface HubSpotOwner {
+  id: Key<string>; // Owner ID (matches HubSpotDeal.ownerId)
+  userId?: number; // HubSpot user ID (absent for deactivated users)
+  email: string; // Owner email
+  firstName: string; // First name
+  lastName: string; // Last name
+  fullName: string; // "First Last", falling back to email
+  teamIds: string[]; // Team IDs (empty array if none)
+  teamNames: string[]; // Team names (empty array if none)
+  primaryTeamName?: string; // Name of the owner's primary team
+  isArchived: boolean; // Deactivated owner
+  createdAt: Date; // Created timestamp
+  updatedAt: Date; // Last updated timestamp
+}
+
+/** Sales quota for an owner and period (POST /ingest/HubSpotQuota), compared with won amounts by the forecast API */
+export interface HubSpotQuota {
+  id: Key<string>; // `${ownerId}:${period}`
+  ownerId: string; // Owner ID (matches HubSpotDeal.ownerId)
+  period: string; // "2024-Q1" (quarter) or "2024-03" (month)
+  amount: number; // Quota in the home currency
+}
+
+/** Exchange rate into the portal's home currency, from HubSpot's currency settings or a local rates file */
+export interface HubSpotExchangeRate {
+  id: Key<string>; // `${currency}:${effectiveAt epoch ms}`
+  currency: string; // ISO 4217 code (the home currency itself has rate 1)
+  homeCurrency: string; // The portal's company currency
+  rateToHome: number; // Home currency per unit of `currency`
+  effectiveAt: Date; // When the rate applies from
+  source: string; // hubspot | file | default
+}
+
+/** HubSpot CRM object properties (flexible structure; every value is a string) */
+export interface HubSpotObjectProperties {
+  [key: string]: string | null | undefined;
+}
+
+/** Raw HubSpot contact data directly from API */
+export interface HubSpotContactRaw {
+  id: Key<string>; // HubSpot contact ID
+  properties: HubSpotObjectProperties; // Flexible properties object
+  createdAt: string; // ISO timestamp from HubSpot
+  updatedAt: string; // ISO timestamp from HubSpot
+  archived: boolean; // Whether contact is archived
+  archivedAt?: string; // Deletion marker: when the contact was deleted in HubSpot
+  mergedIntoId?: string; // Merge marker: the contact this one was merged into
+  associations: {
+    companies: string[]; // Company IDs (empty array if none)
+    deals: string[]; // Deal IDs (empty array if none)
+  };
+}
+
+/** Processed/normalized HubSpot contact data */
+export interface HubSpotContact {
+  id: Key<string>; // Contact ID
+  email?: string; // Primary email
+  firstName?: string; // First name
+  lastName?: string; // Last name
+  fullName: string; // "First Last", falling back to email or ID
+  phone?: string; // Phone number
+  jobTitle?: string; // Job title
+  companyName?: string; // Company name as entered on the contact
+  city?: string; // City
+  country?: string; // Country
+  lifecycleStage?: string; // Lifecycle stage
+  leadStatus?: string; // Lead status
+  ownerId?: string; // Owner ID
+  createdAt: Date; // Created timestamp
+  lastModifiedAt: Date; // Last modified timestamp
+  isArchived: boolean; // Whether contact is archived
+  associatedCompanies: string[]; // Associated company IDs (empty array if none)
+  associatedDeals: string[]; // Associated deal IDs (empty array if none)
+  customProperties: Record<string, any>; // Custom properties
+}
+
+/** Raw HubSpot company data directly from API */
+export interface HubSpotCompanyRaw {
+  id: Key<string>; // HubSpot company ID
+  properties: HubSpotObjectProperties; // Flexible properties object
+  createdAt: string; // ISO timestamp from HubSpot
+  updatedAt: string; // ISO timestamp from HubSpot
+  archived: boolean; // Whether company is archived
+  archivedAt?: string; // Deletion marker: when the company was deleted in HubSpot
+  mergedIntoId?: string; // Merge marker: the company this one was merged into
+  associations: {
+    contacts: string[]; // Contact IDs (empty array if none)
+    deals: string[]; // Deal IDs (empty array if none)
+  };
+}
+
+/** Processed/normalized HubSpot company data */
+export interface HubSpotCompany {
+  id: Key<string>; // Company ID
+  name: string; // Company name
+  domain?: string; // Primary domain
+  industry?: string; // Industry
+  companyType?: string; // Company type (prospect, partner, ...)
+  lifecycleStage?: string; // Lifecycle stage
+  city?: string; // City
+  country?: string; // Country
+  numberOfEmployees?: number; // Employee count
+  annualRevenue?: number; // Annual revenue
+  ownerId?: string; // Owner ID
+  createdAt: Date; // Created timestamp
+  lastModifiedAt: Date; // Last modified timestamp
+  isArchived: boolean; // Whether company is archived
+  associatedContacts: string[]; // Associated contact IDs (empty array if none)
+  associatedDeals: string[]; // Associated deal IDs (empty array if none)
+  customProperties: Record<string, any>; // Custom properties
+}
+
+/** Raw HubSpot ticket data directly from API */
+export interface HubSpotTicketRaw {
+  id: Key<string>; // HubSpot ticket ID
+  properties: HubSpotObjectProperties; // Flexible properties object
+  createdAt: string; // ISO timestamp from HubSpot
+  updatedAt: string; // ISO timestamp from HubSpot
+  archived: boolean; // Whether ticket is archived
+  archivedAt?: string; // Deletion marker: when the ticket was deleted in HubSpot
+  mergedIntoId?: string; // Merge marker: the ticket this one was merged into
+  associations: {
+    contacts: string[]; // Contact IDs (empty array if none)
+    companies: string[]; // Company IDs (empty array if none)
+    deals: string[]; // Deal IDs (empty array if none)
+  };
+}
+
+/** Processed/normalized HubSpot ticket data */
+export interface HubSpotTicket {
+  id: Key<string>; // Ticket ID
+  subject: string; // Ticket subject
+  content?: string; // Ticket description
+  pipeline: string; // Pipeline ID
+  pipelineLabel: string; // Pipeline name
+  stage: string; // Pipeline stage ID
+  stageLabel: string; // Human readable stage
+  priority?: string; // Priority (LOW, MEDIUM, HIGH)
+  category?: string; // Ticket category
+  source?: string; // Source type (EMAIL, CHAT, ...)
+  ownerId?: string; // Owner ID
+  createdAt: Date; // Created timestamp
+  lastModifiedAt: Date; // Last modified timestamp
+  closedAt?: Date; // Close timestamp
+  isClosed: boolean; // Whether the stage is a closed stage
+  isArchived: boolean; // Whether ticket is archived
+  associatedContacts: string[]; // Associated contact IDs (empty array if none)
+  associatedCompanies: string[]; // Associated company IDs (empty array if none)
+  associatedDeals: string[]; // Associated deal IDs (empty array if none)
+  customProperties: Record<string, any>; // Custom properties
+}
+
+/** Raw HubSpot engagement (note, call, email, meeting or task) directly from API */
+export interface HubSpotEngagementRaw {
+  id: Key<string>; // HubSpot engagement ID
+  properties: HubSpotObjectProperties; // Flexible properties object
+  createdAt: string; // ISO timestamp from HubSpot
+  updatedAt: string; // ISO timestamp from HubSpot
+  archived: boolean; // Whether engagement is archived
+  archivedAt?: string; // Deletion marker: when the engagement was deleted in HubSpot
+  mergedIntoId?: string; // Merge marker: the engagement this one was merged into
+  associations: {
+    contacts: string[]; // Contact IDs (empty array if none)
+    companies: string[]; // Company IDs (empty array if none)
+    deals: string[]; // Deal IDs (empty array if none)
+    tickets: string[]; // Ticket IDs (empty array if none)
+  };
+}
+
+/** Processed/normalized HubSpot engagement, shared by every engagement type */
+export interface HubSpotEngagement {
+  id: Key<string>; // Engagement ID
+  engagementType: string; // note | call | email | meeting | task
+  timestamp: Date; // When the activity happened (hs_timestamp)
+  ownerId?: string; // Owner ID
+  title?: string; // Subject/title (calls, emails, meetings, tasks)
+  body?: string; // Body text (omitted when anonymized)
+  direction?: string; // Call/email direction
+  status?: string; // Call/email/task status
+  durationMs?: number; // Call duration or meeting length
+  createdAt: Date; // Created timestamp
+  lastModifiedAt: Date; // Last modified timestamp
+  isArchived: boolean; // Whether engagement is archived
+  associatedContacts: string[]; // Associated contact IDs (empty array if none)
+  associatedCompanies: string[]; // Associated company IDs (empty array if none)
+  associatedDeals: string[]; // Associated deal IDs (empty array if none)
+  associatedTickets: string[]; // Associated ticket IDs (empty array if none)
   customProperties: Record<string, any>; // Custom properties
 }
 
@@ -80,9 +343,13 @@ export const HubSpotDealRawPipeline = new IngestPipeline<HubSpotDealRaw>("HubSpo
   },
 });
 
-/** Processed HubSpot deal storage */
+/**
+ * Processed HubSpot deal storage. One row per deal: keyed on `id` alone so a
+ * tombstone replaces the deal it marks, and versioned by `lastModifiedAt` so
+ * a late-arriving older snapshot never overwrites a newer one.
+ */
 export const HubSpotDealPipeline = new IngestPipeline<HubSpotDeal>("HubSpotDeal", {
-  table: {engine: ClickHouseEngines.ReplacingMergeTree, orderByFields: ["id", "createdAt", "amount", "dealName"]}, // Store processed data in ClickHouse
+  table: {engine: ClickHouseEngines.ReplacingMergeTree, orderByFields: ["id"], ver: "lastModifiedAt"}, // Store processed data in ClickHouse
   stream: true, // Buffer processed records
   ingest: false, // No direct API; only derived from raw data
   deadLetterQueue: {
@@ -90,6 +357,158 @@ export const HubSpotDealPipeline = new IngestPipeline<HubSpotDeal>("HubSpotDeal"
   },
 });
 
+/**
+ * Deal stage history, derived from raw deals synced with `propertiesWithHistory`.
+ * Each sync re-emits a deal's full history, so the latest copy of a row (e.g.
+ * with `exitedAt` now set) replaces the earlier one.
+ */
+export const HubSpotDealStageTransitionPipeline = new IngestPipeline<HubSpotDealStageTransition>("HubSpotDealStageTransition", {
+  table: {engine: ClickHouseEngines.ReplacingMergeTree, orderByFields: ["dealId", "enteredAt"]},
+  stream: true,
+  ingest: false, // Only derived from raw deals
+  deadLetterQueue: {
+    destination: hubspotDeadLetterTable,
+  },
+});
+
+/**
+ * Daily deal snapshots (point-in-time pipeline), written by the hubspotDealSnapshot
+ * workflow. Re-running a day replaces that day's rows.
+ */
+export const HubSpotDealSnapshotTable = new OlapTable<HubSpotDealSnapshot>("HubSpotDealSnapshot", {
+  engine: ClickHouseEngines.ReplacingMergeTree,
+  orderByFields: ["snapshotDate", "dealId"],
+  ver: "snapshotAt",
+});
+
+/** HubSpot owner dimension (POST /ingest/HubSpotOwner); one row per owner, latest wins */
+export const HubSpotOwnerPipeline = new IngestPipeline<HubSpotOwner>("HubSpotOwner", {
+  table: {engine: ClickHouseEngines.ReplacingMergeTree, orderByFields: ["id"]},
+  stream: true,
+  ingest: true,
+});
+
+/** Quotas by owner and period; posting the same id again replaces the quota */
+export const HubSpotQuotaPipeline = new IngestPipeline<HubSpotQuota>("HubSpotQuota", {
+  table: {engine: ClickHouseEngines.ReplacingMergeTree, orderByFields: ["id"]},
+  stream: true,
+  ingest: true,
+});
+
+/** Exchange rate dimension (POST /ingest/HubSpotExchangeRate); one row per currency and effective date */
+export const HubSpotExchangeRatePipeline = new IngestPipeline<HubSpotExchangeRate>("HubSpotExchangeRate", {
+  table: {engine: ClickHouseEngines.ReplacingMergeTree, orderByFields: ["id"]},
+  stream: true,
+  ingest: true,
+});
+
+/** Contacts: raw ingest → processed table */
+export const hubspotContactDeadLetterTable = new OlapTable<DeadLetterModel>("HubSpotContactDeadLetter", {
+  orderByFields: ["failedAt"],
+});
+
+export const HubSpotContactRawPipeline = new IngestPipeline<HubSpotContactRaw>("HubSpotContactRaw", {
+  table: false,
+  stream: true,
+  ingest: true, // POST /ingest/HubSpotContactRaw
+  deadLetterQueue: {
+    destination: hubspotContactDeadLetterTable,
+  },
+});
+
+/** Processed contacts: one row per contact, versioned by `lastModifiedAt` (tombstones at their deletion time) */
+export const HubSpotContactPipeline = new IngestPipeline<HubSpotContact>("HubSpotContact", {
+  table: {engine: ClickHouseEngines.ReplacingMergeTree, orderByFields: ["id"], ver: "lastModifiedAt"},
+  stream: true,
+  ingest: false,
+  deadLetterQueue: {
+    destination: hubspotContactDeadLetterTable,
+  },
+});
+
+/** Companies: raw ingest → processed table */
+export const hubspotCompanyDeadLetterTable = new OlapTable<DeadLetterModel>("HubSpotCompanyDeadLetter", {
+  orderByFields: ["failedAt"],
+});
+
+export const HubSpotCompanyRawPipeline = new IngestPipeline<HubSpotCompanyRaw>("HubSpotCompanyRaw", {
+  table: false,
+  stream: true,
+  ingest: true, // POST /ingest/HubSpotCompanyRaw
+  deadLetterQueue: {
+    destination: hubspotCompanyDeadLetterTable,
+  },
+});
+
+/** Processed companies: one row per company, versioned by `lastModifiedAt` (tombstones at their deletion time) */
+export const HubSpotCompanyPipeline = new IngestPipeline<HubSpotCompany>("HubSpotCompany", {
+  table: {engine: ClickHouseEngines.ReplacingMergeTree, orderByFields: ["id"], ver: "lastModifiedAt"},
+  stream: true,
+  ingest: false,
+  deadLetterQueue: {
+    destination: hubspotCompanyDeadLetterTable,
+  },
+});
+
+/** Tickets: raw ingest → processed table */
+export const hubspotTicketDeadLetterTable = new OlapTable<DeadLetterModel>("HubSpotTicketDeadLetter", {
+  orderByFields: ["failedAt"],
+});
+
+export const HubSpotTicketRawPipeline = new IngestPipeline<HubSpotTicketRaw>("HubSpotTicketRaw", {
+  table: false,
+  stream: true,
+  ingest: true, // POST /ingest/HubSpotTicketRaw
+  deadLetterQueue: {
+    destination: hubspotTicketDeadLetterTable,
+  },
+});
+
+/** Processed tickets: one row per ticket, versioned by `lastModifiedAt` (tombstones at their deletion time) */
+export const HubSpotTicketPipeline = new IngestPipeline<HubSpotTicket>("HubSpotTicket", {
+  table: {engine: ClickHouseEngines.ReplacingMergeTree, orderByFields: ["id"], ver: "lastModifiedAt"},
+  stream: true,
+  ingest: false,
+  deadLetterQueue: {
+    destination: hubspotTicketDeadLetterTable,
+  },
+});
+
+/**
+ * Engagements: one raw → processed pair (and dead letter table) per engagement
+ * type, all sharing the HubSpotEngagementRaw/HubSpotEngagement models.
+ * Table names: HubSpot{Note,Call,Email,Meeting,Task}[Raw|DeadLetter]
+ */
+function engagementPipelines(name: "Note" | "Call" | "Email" | "Meeting" | "Task") {
+  const deadLetterTable = new OlapTable<DeadLetterModel>(`HubSpot${name}DeadLetter`, {
+    orderByFields: ["failedAt"],
+  });
+  const raw = new IngestPipeline<HubSpotEngagementRaw>(`HubSpot${name}Raw`, {
+    table: false,
+    stream: true,
+    ingest: true, // POST /ingest/HubSpot{Name}Raw
+    deadLetterQueue: {
+      destination: deadLetterTable,
+    },
+  });
+  // One row per engagement, versioned by `lastModifiedAt` (tombstones at their deletion time)
+  const processed = new IngestPipeline<HubSpotEngagement>(`HubSpot${name}`, {
+    table: {engine: ClickHouseEngines.ReplacingMergeTree, orderByFields: ["id"], ver: "lastModifiedAt"},
+    stream: true,
+    ingest: false,
+    deadLetterQueue: {
+      destination: deadLetterTable,
+    },
+  });
+  return { deadLetterTable, raw, processed };
+}
+
+export const HubSpotNotePipelines = engagementPipelines("Note");
+export const HubSpotCallPipelines = engagementPipelines("Call");
+export const HubSpotEmailPipelines = engagementPipelines("Email");
+export const HubSpotMeetingPipelines = engagementPipelines("Meeting");
+export const HubSpotTaskPipelines = engagementPipelines("Task");
+
 // export const HubSpotDealPipeline = new IngestPipeline<HubSpotDeal>("HubSpotDeal", {
 //   table: {engine: ClickHouseEngines.MergeTree, orderByFields: ["id"]}, // Store processed data in ClickHouse
 //   stream: true, // Buffer processed records
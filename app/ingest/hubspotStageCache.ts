@@ -0,0 +1,131 @@
+import { createHubSpotConnector, type HubSpotConnector, type StageDefinition } from "../hubspot";
+
+/**
+ * HubSpot Pipeline Stage Cache
+ *
+ * Deals and tickets only carry internal IDs (`dealstage`/`pipeline`,
+ * `hs_pipeline_stage`/`hs_pipeline`). Labels, order and won/closed semantics
+ * come from HubSpot's pipeline definitions, which are fetched with the
+ * connector and cached in memory (per object type) for the transform process.
+ *
+ * - Refreshed when older than HUBSPOT_STAGE_CACHE_TTL_MS (default 10 minutes)
+ * - An unknown stage (e.g. created since the last refresh) triggers an early
+ *   refresh, at most once per minute
+ * - If HubSpot is unreachable the last known definitions are kept; with none
+ *   at all, the stage ID is used as the label and only HubSpot's default
+ *   `closedwon`/`closedlost` deal stages count as closed
+ */
+
+type PipelineObjectType = "deals" | "tickets";
+
+/** Stage metadata resolved for one deal or ticket */
+export interface PipelineStageInfo {
+  stageLabel: string;
+  pipelineLabel: string;
+  displayOrder?: number;
+  probability: number | null;
+  isWon: boolean;
+  isClosed: boolean;
+}
+
+const STAGE_CACHE_TTL_MS = parseInt(process.env.HUBSPOT_STAGE_CACHE_TTL_MS || "", 10) || 10 * 60 * 1000;
+const MIN_REFRESH_INTERVAL_MS = 60 * 1000;
+
+let connector: HubSpotConnector | undefined;
+
+interface StageCacheEntry {
+  stagesByKey: Map<string, StageDefinition>; // keyed by `${pipelineId}:${stageId}` and by stageId
+  pipelineLabels: Map<string, string>;
+  lastRefreshAt: number;
+  inFlight?: Promise<void>;
+}
+
+const caches: Record<PipelineObjectType, StageCacheEntry> = {
+  deals: { stagesByKey: new Map(), pipelineLabels: new Map(), lastRefreshAt: 0 },
+  tickets: { stagesByKey: new Map(), pipelineLabels: new Map(), lastRefreshAt: 0 },
+};
+
+function getConnector(): HubSpotConnector | undefined {
+  const token = process.env.HUBSPOT_TOKEN;
+  if (!token) return undefined;
+  if (!connector) {
+    connector = createHubSpotConnector();
+    connector.initialize({ auth: { type: "bearer", bearer: { token } } });
+  }
+  return connector;
+}
+
+async function refreshStages(objectType: PipelineObjectType): Promise<void> {
+  const cache = caches[objectType];
+  cache.lastRefreshAt = Date.now();
+  const hs = getConnector();
+  if (!hs) {
+    console.warn(`⚠️ HUBSPOT_TOKEN not set; ${objectType} stage labels fall back to stage IDs`);
+    return;
+  }
+  try {
+    const stages = await hs.listStageDefinitions({ objectType });
+    const byKey = new Map<string, StageDefinition>();
+    const labels = new Map<string, string>();
+    for (const stage of stages) {
+      byKey.set(`${stage.pipelineId}:${stage.stageId}`, stage);
+      if (!byKey.has(stage.stageId)) byKey.set(stage.stageId, stage);
+      labels.set(stage.pipelineId, stage.pipelineLabel);
+    }
+    cache.stagesByKey = byKey;
+    cache.pipelineLabels = labels;
+    console.log(`📋 Loaded ${stages.length} HubSpot ${objectType} stages across ${labels.size} pipelines`);
+  } catch (error) {
+    // Keep serving the previous definitions until the next refresh succeeds
+    console.error(`❌ Failed to refresh HubSpot ${objectType} stages:`, error);
+  }
+}
+
+function refresh(objectType: PipelineObjectType): Promise<void> {
+  const cache = caches[objectType];
+  if (!cache.inFlight) cache.inFlight = refreshStages(objectType).finally(() => (cache.inFlight = undefined));
+  return cache.inFlight;
+}
+
+function lookup(objectType: PipelineObjectType, pipelineId: string, stageId: string): StageDefinition | undefined {
+  const { stagesByKey } = caches[objectType];
+  return stagesByKey.get(`${pipelineId}:${stageId}`) ?? stagesByKey.get(stageId);
+}
+
+/** Resolves a record's stage and pipeline labels and its won/closed flags */
+export async function resolvePipelineStage(
+  objectType: PipelineObjectType,
+  pipelineId: string,
+  stageId: string,
+): Promise<PipelineStageInfo> {
+  const age = Date.now() - caches[objectType].lastRefreshAt;
+  if (age > STAGE_CACHE_TTL_MS || (!lookup(objectType, pipelineId, stageId) && age > MIN_REFRESH_INTERVAL_MS)) {
+    await refresh(objectType);
+  }
+
+  const stage = lookup(objectType, pipelineId, stageId);
+  if (stage) {
+    return {
+      stageLabel: stage.label,
+      pipelineLabel: stage.pipelineLabel,
+      displayOrder: stage.displayOrder,
+      probability: stage.probability,
+      isWon: stage.closedWon,
+      isClosed: stage.isClosed,
+    };
+  }
+
+  const isWon = objectType === "deals" && stageId === "closedwon";
+  return {
+    stageLabel: stageId,
+    pipelineLabel: caches[objectType].pipelineLabels.get(pipelineId) ?? pipelineId,
+    probability: null,
+    isWon,
+    isClosed: isWon || stageId === "closedlost",
+  };
+}
+
+/** Resolves a deal's stage and pipeline labels and its won/closed flags */
+export function resolveDealStage(pipelineId: string, stageId: string): Promise<PipelineStageInfo> {
+  return resolvePipelineStage("deals", pipelineId, stageId);
+}
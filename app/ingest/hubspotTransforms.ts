@@ -2,8 +2,32 @@ import {
   HubSpotDealRawPipeline, 
   HubSpotDealPipeline, 
   HubSpotDealRaw, 
-  HubSpotDeal 
+  HubSpotDeal,
+  HubSpotDealStageTransitionPipeline,
+  HubSpotDealStageTransition,
+  HubSpotContactRawPipeline,
+  HubSpotContactPipeline,
+  HubSpotContactRaw,
+  HubSpotContact,
+  HubSpotCompanyRawPipeline,
+  HubSpotCompanyPipeline,
+  HubSpotCompanyRaw,
+  HubSpotCompany,
+  HubSpotTicketRawPipeline,
+  HubSpotTicketPipeline,
+  HubSpotTicketRaw,
+  HubSpotTicket,
+  HubSpotEngagementRaw,
+  HubSpotEngagement,
+  HubSpotObjectProperties,
+  HubSpotNotePipelines,
+  HubSpotCallPipelines,
+  HubSpotEmailPipelines,
+  HubSpotMeetingPipelines,
+  HubSpotTaskPipelines,
 } from "./hubspotModels";
+import { resolveDealStage, resolvePipelineStage } from "./hubspotStageCache";
+import { resolveFxRate, resolveHomeCurrency } from "./hubspotFxRates";
 
 // Array of fake companies for obfuscating deal names
 const FAKE_COMPANIES = [
@@ -46,6 +70,36 @@ const getRandomFromId = (dealId: string, arrayLength: number): number => {
   return Math.abs(hash) % arrayLength;
 };
 
+// Property parsing helpers shared by the contact/company/ticket/engagement transforms
+const optionalString = (value?: string | null): string | undefined => (value ? value : undefined);
+
+const optionalNumber = (value?: string | null): number | undefined => {
+  if (!value) return undefined;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const optionalDate = (value?: string | null): Date | undefined => {
+  if (!value) return undefined;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+// Row version: a tombstone is versioned at its deletion time so it replaces the last live version of the record
+const versionDate = (record: { archivedAt?: string; updatedAt: string }, lastModified?: string | null): Date =>
+  optionalDate(record.archivedAt) ?? optionalDate(lastModified) ?? new Date(record.updatedAt);
+
+// Properties not mapped to a column are kept as customProperties
+const pickCustomProperties = (props: HubSpotObjectProperties, standardProperties: Set<string>): Record<string, any> => {
+  const customProperties: Record<string, any> = {};
+  Object.entries(props).forEach(([key, value]) => {
+    if (!standardProperties.has(key) && value !== undefined && value !== null) {
+      customProperties[key] = value;
+    }
+  });
+  return customProperties;
+};
+
 // Transform raw HubSpot deal events to processed/normalized deal events
 HubSpotDealRawPipeline.stream!.addTransform(
   HubSpotDealPipeline.stream!,
@@ -56,8 +110,9 @@ HubSpotDealRawPipeline.stream!.addTransform(
      * Normal flow:
      * 1. Extract and type properties from flexible HubSpot properties object
      * 2. Convert string values to appropriate types
-     * 3. Calculate derived fields (isWon, isClosed, daysToClose)
-     * 4. Return normalized deal
+     * 3. Resolve stage/pipeline labels and isWon/isClosed from HubSpot pipeline metadata
+     * 4. Calculate derived fields (daysToClose)
+     * 5. Return normalized deal
      * 
      * Error flow (DLQ):
      * - If transformation fails, deal goes to dead letter queue
@@ -87,11 +142,14 @@ HubSpotDealRawPipeline.stream!.addTransform(
       dealName = props.dealname || "Untitled Deal";
       amount = parseFloat(props.amount || "0") || 0;
     }
-    const currency = props.deal_currency_code || "USD";
+    // Deals without a currency code are in the portal's home currency
+    const currency = props.deal_currency_code || (await resolveHomeCurrency());
     const stage = props.dealstage || "unknown";
-    const stageLabel = props.dealstage_label || stage;
     const pipeline = props.pipeline || "default";
-    const pipelineLabel = props.pipeline_label || pipeline;
+    // Labels and won/closed flags come from HubSpot's pipeline definitions (cached)
+    const stageInfo = await resolveDealStage(pipeline, stage);
+    const stageLabel = stageInfo.stageLabel;
+    const pipelineLabel = stageInfo.pipelineLabel;
 
     // Parse dates with fallbacks - properties may be missing
     const parseDate = (dateStr?: string): Date => {
@@ -103,8 +161,9 @@ HubSpotDealRawPipeline.stream!.addTransform(
       }
     };
 
-    const createdAt = parseDate(props.createdate || undefined) || new Date(rawDeal.createdAt);
-    const lastModifiedAt = parseDate(props.hs_lastmodifieddate || undefined) || new Date(rawDeal.updatedAt);
+    // Bare tombstones (merge markers) carry no properties: their dates come from the record itself
+    const createdAt = optionalDate(props.createdate) ?? new Date(rawDeal.createdAt);
+    const lastModifiedAt = versionDate(rawDeal, props.hs_lastmodifieddate);
     const closeDate = props.closedate ? parseDate(props.closedate || undefined) : undefined;
 
     // Extract owner and metrics - handle null values
@@ -123,9 +182,21 @@ HubSpotDealRawPipeline.stream!.addTransform(
       projectedAmount = parseFloat(props.hs_projected_amount || props.amount || "0") || 0;
     }
 
-    // Calculate deal status flags
-    const isWon = stage.toLowerCase().includes("won") || stage.toLowerCase().includes("closed");
-    const isClosed = isWon || stage.toLowerCase().includes("lost") || stage.toLowerCase().includes("closed");
+    // Home currency amounts: HubSpot's own conversion (amount_in_home_currency) when present,
+    // else the exchange rate in force at the close date (or now)
+    const sourceAmount = parseFloat(props.amount || "0") || 0;
+    const homeAmount = parseFloat(props.amount_in_home_currency || "");
+    let fxRate = sourceAmount > 0 && !isNaN(homeAmount) ? homeAmount / sourceAmount : await resolveFxRate(currency, closeDate);
+    if (fxRate === undefined) {
+      console.warn(`⚠️ No exchange rate for ${currency}; deal ${rawDeal.id} is counted 1:1 in the home currency`);
+      fxRate = 1;
+    }
+    const amountHome = Math.round(amount * fxRate * 100) / 100;
+    const forecastAmountHome = Math.round(forecastAmount * fxRate * 100) / 100;
+
+    // Deal status flags from the stage's `isClosed` metadata and probability (won = closed at 1.0)
+    const isWon = stageInfo.isWon;
+    const isClosed = stageInfo.isClosed;
     
     // Calculate days to close if applicable
     let daysToClose: number | undefined;
@@ -134,12 +205,17 @@ HubSpotDealRawPipeline.stream!.addTransform(
       daysToClose = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
     }
 
+    // Deleted (archived) and merged-away deals become tombstones; merges are listed on the survivor
+    const isDeleted = rawDeal.archived || Boolean(rawDeal.mergedIntoId);
+    const mergedDealIds = (props.hs_merged_object_ids || "").split(";").map((id) => id.trim()).filter(Boolean);
+
     // Extract contact and company associations
     const associatedContacts = rawDeal.associations.contacts || [];
     const associatedCompanies = rawDeal.associations.companies || [];
 
     // Parse counts
-    const contactCount = parseInt(props.num_associated_contacts || "0") || associatedContacts.length;
+    // Prefer the synced association list; fall back to HubSpot's rollup for records ingested without it
+    const contactCount = associatedContacts.length || parseInt(props.num_associated_contacts || "0") || 0;
     const noteCount = parseInt(props.num_contacted_notes || "0") || 0;
 
     // Separate custom properties (excluding standard HubSpot properties)
@@ -148,7 +224,7 @@ HubSpotDealRawPipeline.stream!.addTransform(
       'createdate', 'hs_lastmodifieddate', 'hubspot_owner_id', 'amount_in_home_currency',
       'hs_deal_stage_probability', 'dealstage_label', 'pipeline_label', 'deal_currency_code',
       'hs_forecast_amount', 'hs_projected_amount', 'num_associated_contacts',
-      'num_contacted_notes', 'days_to_close'
+      'num_contacted_notes', 'days_to_close', 'hs_merged_object_ids', 'hs_forecast_category'
     ]);
 
     const customProperties: Record<string, any> = {};
@@ -176,14 +252,23 @@ HubSpotDealRawPipeline.stream!.addTransform(
       stageProbability,
       forecastAmount,
       projectedAmount,
+      forecastCategory: props.hs_forecast_category || undefined,
+      fxRate,
+      amountHome,
+      forecastAmountHome,
       daysToClose,
       isWon,
       isClosed,
       isArchived: rawDeal.archived,
+      isDeleted,
+      deletedAt: isDeleted ? lastModifiedAt : undefined,
+      mergedIntoId: rawDeal.mergedIntoId,
+      mergedDealIds,
       contactCount,
       noteCount,
       associatedContacts,
       associatedCompanies,
+      primaryCompanyId: rawDeal.primaryCompanyId ?? "",
       customProperties
     };
 
@@ -239,3 +324,284 @@ HubSpotDealRawPipeline.deadLetterQueue!.addConsumer((deadLetter) => {
   
   console.error(`Failed deal: ${errorDisplayName} (${rawDeal.id})`);
 });
+
+/** =======Deal Stage History========= */
+
+// One transition row per stage entered, from the raw deal's `dealstage` history (newest first from HubSpot)
+HubSpotDealRawPipeline.stream!.addTransform(
+  HubSpotDealStageTransitionPipeline.stream!,
+  async (rawDeal: HubSpotDealRaw): Promise<HubSpotDealStageTransition[]> => {
+    const history = rawDeal.propertiesWithHistory?.dealstage;
+    if (!history?.length) return [];
+
+    // Oldest first; re-saves of the same stage are not transitions
+    const entries = history
+      .filter((entry) => entry.value && !isNaN(new Date(entry.timestamp).getTime()))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .filter((entry, i, sorted) => i === 0 || entry.value !== sorted[i - 1].value);
+
+    const pipeline = rawDeal.properties.pipeline || "default";
+    const transitions: HubSpotDealStageTransition[] = [];
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      const previous = i > 0 ? entries[i - 1] : undefined;
+      const next = entries[i + 1];
+      const stageInfo = await resolveDealStage(pipeline, entry.value);
+      const fromInfo = previous ? await resolveDealStage(pipeline, previous.value) : undefined;
+      const enteredAt = new Date(entry.timestamp);
+      const exitedAt = next ? new Date(next.timestamp) : undefined;
+
+      transitions.push({
+        id: `${rawDeal.id}:${enteredAt.getTime()}`,
+        dealId: rawDeal.id,
+        pipeline,
+        pipelineLabel: stageInfo.pipelineLabel,
+        fromStage: previous?.value,
+        fromStageLabel: fromInfo?.stageLabel,
+        toStage: entry.value,
+        toStageLabel: stageInfo.stageLabel,
+        toStageOrder: stageInfo.displayOrder,
+        isWonStage: stageInfo.isWon,
+        isClosedStage: stageInfo.isClosed,
+        enteredAt,
+        exitedAt,
+        secondsInStage: exitedAt ? Math.round((exitedAt.getTime() - enteredAt.getTime()) / 1000) : undefined,
+        isCurrent: !next,
+        stepIndex: i,
+        sourceType: entry.sourceType,
+      });
+    }
+    return transitions;
+  },
+  {
+    deadLetterQueue: HubSpotDealRawPipeline.deadLetterQueue,
+  },
+);
+
+
+/** =======Contacts========= */
+
+const CONTACT_STANDARD_PROPERTIES = new Set([
+  'email', 'firstname', 'lastname', 'phone', 'jobtitle', 'company', 'city', 'country',
+  'lifecyclestage', 'hs_lead_status', 'hubspot_owner_id', 'createdate', 'lastmodifieddate'
+]);
+
+HubSpotContactRawPipeline.stream!.addTransform(
+  HubSpotContactPipeline.stream!,
+  async (rawContact: HubSpotContactRaw): Promise<HubSpotContact> => {
+    const props = rawContact.properties;
+
+    // Contacts are personal data: anonymized runs keep only non-identifying fields
+    const firstName = ANONYMIZE_DATA ? undefined : optionalString(props.firstname);
+    const lastName = ANONYMIZE_DATA ? undefined : optionalString(props.lastname);
+    const email = ANONYMIZE_DATA ? `contact-${rawContact.id}@example.com` : optionalString(props.email);
+    const fullName = [firstName, lastName].filter(Boolean).join(" ") || email || `Contact ${rawContact.id}`;
+
+    return {
+      id: rawContact.id,
+      email,
+      firstName,
+      lastName,
+      fullName,
+      phone: ANONYMIZE_DATA ? undefined : optionalString(props.phone),
+      jobTitle: optionalString(props.jobtitle),
+      companyName: ANONYMIZE_DATA
+        ? FAKE_COMPANIES[getRandomFromId(rawContact.id, FAKE_COMPANIES.length)]
+        : optionalString(props.company),
+      city: optionalString(props.city),
+      country: optionalString(props.country),
+      lifecycleStage: optionalString(props.lifecyclestage),
+      leadStatus: optionalString(props.hs_lead_status),
+      ownerId: optionalString(props.hubspot_owner_id),
+      createdAt: optionalDate(props.createdate) ?? new Date(rawContact.createdAt),
+      lastModifiedAt: versionDate(rawContact, props.lastmodifieddate),
+      isArchived: rawContact.archived,
+      associatedCompanies: rawContact.associations.companies || [],
+      associatedDeals: rawContact.associations.deals || [],
+      customProperties: ANONYMIZE_DATA ? {} : pickCustomProperties(props, CONTACT_STANDARD_PROPERTIES),
+    };
+  },
+  {
+    deadLetterQueue: HubSpotContactRawPipeline.deadLetterQueue,
+  },
+);
+
+HubSpotContactRawPipeline.deadLetterQueue!.addConsumer((deadLetter) => {
+  const rawContact: HubSpotContactRaw = deadLetter.asTyped();
+  console.error(`HubSpot Contact transformation failed: ${rawContact.id} - ${deadLetter.errorMessage}`);
+});
+
+/** =======Companies========= */
+
+const COMPANY_STANDARD_PROPERTIES = new Set([
+  'name', 'domain', 'industry', 'type', 'lifecyclestage', 'city', 'country',
+  'numberofemployees', 'annualrevenue', 'hubspot_owner_id', 'createdate', 'hs_lastmodifieddate'
+]);
+
+HubSpotCompanyRawPipeline.stream!.addTransform(
+  HubSpotCompanyPipeline.stream!,
+  async (rawCompany: HubSpotCompanyRaw): Promise<HubSpotCompany> => {
+    const props = rawCompany.properties;
+
+    // Same deterministic fake names as deals, so anonymized companies stay consistent across runs
+    const name = ANONYMIZE_DATA
+      ? FAKE_COMPANIES[getRandomFromId(rawCompany.id, FAKE_COMPANIES.length)]
+      : props.name || "Untitled Company";
+
+    return {
+      id: rawCompany.id,
+      name,
+      domain: ANONYMIZE_DATA ? undefined : optionalString(props.domain),
+      industry: optionalString(props.industry),
+      companyType: optionalString(props.type),
+      lifecycleStage: optionalString(props.lifecyclestage),
+      city: optionalString(props.city),
+      country: optionalString(props.country),
+      numberOfEmployees: optionalNumber(props.numberofemployees),
+      annualRevenue: optionalNumber(props.annualrevenue),
+      ownerId: optionalString(props.hubspot_owner_id),
+      createdAt: optionalDate(props.createdate) ?? new Date(rawCompany.createdAt),
+      lastModifiedAt: versionDate(rawCompany, props.hs_lastmodifieddate),
+      isArchived: rawCompany.archived,
+      associatedContacts: rawCompany.associations.contacts || [],
+      associatedDeals: rawCompany.associations.deals || [],
+      customProperties: pickCustomProperties(props, COMPANY_STANDARD_PROPERTIES),
+    };
+  },
+  {
+    deadLetterQueue: HubSpotCompanyRawPipeline.deadLetterQueue,
+  },
+);
+
+HubSpotCompanyRawPipeline.deadLetterQueue!.addConsumer((deadLetter) => {
+  const rawCompany: HubSpotCompanyRaw = deadLetter.asTyped();
+  console.error(`HubSpot Company transformation failed: ${rawCompany.id} - ${deadLetter.errorMessage}`);
+});
+
+/** =======Tickets========= */
+
+const TICKET_STANDARD_PROPERTIES = new Set([
+  'subject', 'content', 'hs_pipeline', 'hs_pipeline_stage', 'hs_ticket_priority',
+  'hs_ticket_category', 'source_type', 'hubspot_owner_id', 'createdate',
+  'hs_lastmodifieddate', 'closed_date'
+]);
+
+HubSpotTicketRawPipeline.stream!.addTransform(
+  HubSpotTicketPipeline.stream!,
+  async (rawTicket: HubSpotTicketRaw): Promise<HubSpotTicket> => {
+    const props = rawTicket.properties;
+    const pipeline = props.hs_pipeline || "0";
+    const stage = props.hs_pipeline_stage || "unknown";
+    // Labels and the closed flag come from HubSpot's ticket pipeline definitions (cached)
+    const stageInfo = await resolvePipelineStage("tickets", pipeline, stage);
+
+    return {
+      id: rawTicket.id,
+      subject: ANONYMIZE_DATA ? `Ticket ${rawTicket.id}` : props.subject || "Untitled Ticket",
+      content: ANONYMIZE_DATA ? undefined : optionalString(props.content),
+      pipeline,
+      pipelineLabel: stageInfo.pipelineLabel,
+      stage,
+      stageLabel: stageInfo.stageLabel,
+      priority: optionalString(props.hs_ticket_priority),
+      category: optionalString(props.hs_ticket_category),
+      source: optionalString(props.source_type),
+      ownerId: optionalString(props.hubspot_owner_id),
+      createdAt: optionalDate(props.createdate) ?? new Date(rawTicket.createdAt),
+      lastModifiedAt: versionDate(rawTicket, props.hs_lastmodifieddate),
+      closedAt: optionalDate(props.closed_date),
+      isClosed: stageInfo.isClosed,
+      isArchived: rawTicket.archived,
+      associatedContacts: rawTicket.associations.contacts || [],
+      associatedCompanies: rawTicket.associations.companies || [],
+      associatedDeals: rawTicket.associations.deals || [],
+      customProperties: pickCustomProperties(props, TICKET_STANDARD_PROPERTIES),
+    };
+  },
+  {
+    deadLetterQueue: HubSpotTicketRawPipeline.deadLetterQueue,
+  },
+);
+
+HubSpotTicketRawPipeline.deadLetterQueue!.addConsumer((deadLetter) => {
+  const rawTicket: HubSpotTicketRaw = deadLetter.asTyped();
+  console.error(`HubSpot Ticket transformation failed: ${rawTicket.id} - ${deadLetter.errorMessage}`);
+});
+
+/** =======Engagements========= */
+
+type EngagementType = "note" | "call" | "email" | "meeting" | "task";
+
+// Type-specific property names mapped onto the shared HubSpotEngagement columns
+const ENGAGEMENT_FIELDS: Record<EngagementType, { title?: string; body: string; direction?: string; status?: string }> = {
+  note: { body: "hs_note_body" },
+  call: { title: "hs_call_title", body: "hs_call_body", direction: "hs_call_direction", status: "hs_call_status" },
+  email: { title: "hs_email_subject", body: "hs_email_text", direction: "hs_email_direction", status: "hs_email_status" },
+  meeting: { title: "hs_meeting_title", body: "hs_meeting_body", status: "hs_meeting_outcome" },
+  task: { title: "hs_task_subject", body: "hs_task_body", status: "hs_task_status" },
+};
+
+const engagementDurationMs = (engagementType: EngagementType, props: HubSpotObjectProperties): number | undefined => {
+  if (engagementType === "call") return optionalNumber(props.hs_call_duration);
+  if (engagementType === "meeting") {
+    const start = optionalDate(props.hs_meeting_start_time);
+    const end = optionalDate(props.hs_meeting_end_time);
+    return start && end ? end.getTime() - start.getTime() : undefined;
+  }
+  return undefined;
+};
+
+const addEngagementTransform = (
+  engagementType: EngagementType,
+  pipelines: typeof HubSpotNotePipelines,
+): void => {
+  const fields = ENGAGEMENT_FIELDS[engagementType];
+  const standardProperties = new Set([
+    'hs_timestamp', 'hubspot_owner_id', 'createdate', 'hs_lastmodifieddate',
+    'hs_call_duration', 'hs_meeting_start_time', 'hs_meeting_end_time',
+    ...Object.values(fields).filter((name): name is string => Boolean(name)),
+  ]);
+
+  pipelines.raw.stream!.addTransform(
+    pipelines.processed.stream!,
+    async (rawEngagement: HubSpotEngagementRaw): Promise<HubSpotEngagement> => {
+      const props = rawEngagement.properties;
+      const createdAt = optionalDate(props.createdate) ?? new Date(rawEngagement.createdAt);
+
+      return {
+        id: rawEngagement.id,
+        engagementType,
+        timestamp: optionalDate(props.hs_timestamp) ?? createdAt,
+        ownerId: optionalString(props.hubspot_owner_id),
+        // Titles and bodies are free text that can contain personal data
+        title: ANONYMIZE_DATA || !fields.title ? undefined : optionalString(props[fields.title]),
+        body: ANONYMIZE_DATA ? undefined : optionalString(props[fields.body]),
+        direction: fields.direction ? optionalString(props[fields.direction]) : undefined,
+        status: fields.status ? optionalString(props[fields.status]) : undefined,
+        durationMs: engagementDurationMs(engagementType, props),
+        createdAt,
+        lastModifiedAt: versionDate(rawEngagement, props.hs_lastmodifieddate),
+        isArchived: rawEngagement.archived,
+        associatedContacts: rawEngagement.associations.contacts || [],
+        associatedCompanies: rawEngagement.associations.companies || [],
+        associatedDeals: rawEngagement.associations.deals || [],
+        associatedTickets: rawEngagement.associations.tickets || [],
+        customProperties: pickCustomProperties(props, standardProperties),
+      };
+    },
+    {
+      deadLetterQueue: pipelines.raw.deadLetterQueue,
+    },
+  );
+
+  pipelines.raw.deadLetterQueue!.addConsumer((deadLetter) => {
+    const rawEngagement: HubSpotEngagementRaw = deadLetter.asTyped();
+    console.error(`HubSpot ${engagementType} transformation failed: ${rawEngagement.id} - ${deadLetter.errorMessage}`);
+  });
+};
+
+addEngagementTransform("note", HubSpotNotePipelines);
+addEngagementTransform("call", HubSpotCallPipelines);
+addEngagementTransform("email", HubSpotEmailPipelines);
+addEngagementTransform("meeting", HubSpotMeetingPipelines);
+addEngagementTransform("task", HubSpotTaskPipelines);
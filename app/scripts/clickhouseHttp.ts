@@ -0,0 +1,52 @@
+/**
+ * ClickHouse HTTP
+ *
+ * Runs a statement against the Moose ClickHouse over its HTTP interface, for
+ * workflows that transform data already in ClickHouse (e.g. INSERT … SELECT)
+ * rather than ingesting new records.
+ *
+ * - `{name:Type}` placeholders are bound from `params` (sent as `param_<name>`),
+ *   never interpolated; `settings` are sent as query settings
+ * - Connection from CLICKHOUSE_URL (default `http://localhost:18123`),
+ *   CLICKHOUSE_DB (default `local`), CLICKHOUSE_USER and CLICKHOUSE_PASSWORD
+ *   (defaults match moose.config.toml)
+ */
+
+export interface ClickHouseStatementOptions {
+  params?: Record<string, string | number>; // Values for `{name:Type}` placeholders
+  settings?: Record<string, string | number>; // ClickHouse settings for this statement, e.g. mutations_sync
+  url?: string;
+  database?: string;
+}
+
+export class ClickHouseHttpError extends Error {
+  constructor(readonly status: number, body: string) {
+    super(`ClickHouse error ${status}: ${body.trim()}`);
+  }
+}
+
+/** Runs one statement and returns the response body (empty for INSERTs) */
+export async function executeClickHouse(statement: string, options: ClickHouseStatementOptions = {}): Promise<string> {
+  const url = new URL(options.url ?? process.env.CLICKHOUSE_URL ?? "http://localhost:18123");
+  url.searchParams.set("database", options.database ?? process.env.CLICKHOUSE_DB ?? "local");
+  for (const [name, value] of Object.entries(options.params ?? {})) {
+    url.searchParams.set(`param_${name}`, String(value));
+  }
+  for (const [name, value] of Object.entries(options.settings ?? {})) {
+    url.searchParams.set(name, String(value));
+  }
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "X-ClickHouse-User": process.env.CLICKHOUSE_USER ?? "panda",
+      "X-ClickHouse-Key": process.env.CLICKHOUSE_PASSWORD ?? "pandapass",
+    },
+    body: statement,
+  });
+  const body = await response.text();
+  if (!response.ok) {
+    throw new ClickHouseHttpError(response.status, body);
+  }
+  return body;
+}
@@ -0,0 +1,77 @@
+import { Task, Workflow } from "@514labs/moose-lib";
+import { executeClickHouse } from "./clickhouseHttp";
+
+/**
+ * HubSpot Deal Snapshot Workflow
+ *
+ * Daily workflow copying every live deal in `HubSpotDeal` (amount, stage,
+ * close date and forecast fields) into `HubSpotDealSnapshot` under the day's
+ * date. `HubSpotDeal` only holds the latest state of each deal; the snapshots
+ * keep what the pipeline looked like on each day, for the waterfall API.
+ *
+ * The copy runs inside ClickHouse (INSERT … SELECT), so it snapshots whatever
+ * the last hubspotDataSync run (and webhooks) wrote. Re-running a day first
+ * deletes that day's rows, so it replaces the whole day: deals deleted or
+ * merged away since the earlier run drop out with the rest.
+ */
+
+interface HubSpotDealSnapshotInput {
+  snapshotDate?: string; // YYYY-MM-DD; defaults to today (UTC). Use to backfill a missed day with the current state
+}
+
+// Run with mutations_sync so the day is empty before it is copied again
+const CLEAR_STATEMENT = `
+  ALTER TABLE HubSpotDealSnapshot DELETE WHERE toDate(snapshotDate) = {snapshotDate:Date}
+`;
+
+const SNAPSHOT_STATEMENT = `
+  INSERT INTO HubSpotDealSnapshot
+    (snapshotDate, snapshotAt, dealId, dealName, ownerId, pipeline, pipelineLabel, stage, stageLabel,
+     amount, currency, closeDate, stageProbability, forecastAmount, projectedAmount,
+     fxRate, amountHome, forecastAmountHome, isWon, isClosed)
+  SELECT
+    toDateTime({snapshotDate:Date}), now(), id, dealName, ownerId, pipeline, pipelineLabel, stage, stageLabel,
+    amount, currency, closeDate, stageProbability, forecastAmount, projectedAmount,
+    fxRate, amountHome, forecastAmountHome, isWon, isClosed
+  FROM HubSpotDeal FINAL
+  WHERE NOT isDeleted
+`;
+
+const COUNT_STATEMENT = `
+  SELECT count() FROM HubSpotDealSnapshot FINAL
+  WHERE toDate(snapshotDate) = {snapshotDate:Date}
+  FORMAT TabSeparated
+`;
+
+/** Snapshots the current deals under `snapshotDate` and returns the number of deals in that day's snapshot */
+export async function snapshotHubSpotDeals(snapshotDate: string): Promise<number> {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(snapshotDate) || isNaN(Date.parse(snapshotDate))) {
+    throw new Error(`Invalid snapshotDate "${snapshotDate}": expected YYYY-MM-DD`);
+  }
+  await executeClickHouse(CLEAR_STATEMENT, { params: { snapshotDate }, settings: { mutations_sync: 2 } });
+  await executeClickHouse(SNAPSHOT_STATEMENT, { params: { snapshotDate } });
+  return parseInt(await executeClickHouse(COUNT_STATEMENT, { params: { snapshotDate } }), 10);
+}
+
+// Task to snapshot HubSpot deals for one day
+export const snapshotHubSpotDealsTask = new Task<HubSpotDealSnapshotInput, void>("snapshotHubSpotDeals", {
+  run: async (input: HubSpotDealSnapshotInput) => {
+    const snapshotDate = input?.snapshotDate ?? new Date().toISOString().slice(0, 10);
+    console.log(`📸 Snapshotting HubSpot deals for ${snapshotDate}...`);
+    const deals = await snapshotHubSpotDeals(snapshotDate);
+    console.log(`✅ HubSpot deal snapshot ${snapshotDate}: ${deals} deals`);
+  },
+  retries: 3,
+  timeout: "10m",
+});
+
+// Runs once a day; schedule it after hubspotDataSync's usual run so snapshots see fresh deals
+export const hubspotDealSnapshotWorkflow = new Workflow("hubspotDealSnapshot", {
+  startingTask: snapshotHubSpotDealsTask,
+  retries: 2,
+  timeout: "30m",
+  schedule: process.env.HUBSPOT_SNAPSHOT_SCHEDULE || "@daily",
+});
+
+console.log("📸 HubSpot Deal Snapshot Workflow registered");
+console.log("🏃 Run manually with: moose workflow run hubspotDealSnapshot [--input '{\"snapshotDate\":\"2024-01-31\"}']");
@@ -0,0 +1,335 @@
+import {
+  createHubSpotConnector,
+  type AssociatedObject,
+  type BatchGetParams,
+  type BatchReadResult,
+  type HubSpotConnector,
+  type HubSpotObject,
+  type PropertyHistoryEntry,
+  type SearchRequest,
+  type StreamParams,
+} from "../hubspot";
+import type { SyncObjectType } from "./hubspotSyncState";
+
+/**
+ * HubSpot Object Sync Specs
+ *
+ * Per-object-type extraction adapters and the raw ingestion format shared by
+ * the scheduled sync workflow and the webhook receiver, so both write the same
+ * `HubSpot*Raw` records.
+ */
+
+/** Raw ingestion payload shared by every CRM object type (see `HubSpot*Raw` models) */
+export interface HubSpotObjectRawIngestion {
+  id: string;
+  properties: Record<string, string>; // Only include non-null properties
+  createdAt: string;
+  updatedAt: string;
+  archived: boolean;
+  archivedAt?: string; // Deletion marker: when HubSpot archived the record
+  mergedIntoId?: string; // Merge marker: the surviving record this one was merged into
+  associations: Partial<Record<AssociationTarget, string[]>>;
+  primaryCompanyId?: string; // Deals: the associated company with HubSpot's Primary label
+  propertiesWithHistory?: Record<string, PropertyHistoryEntry[]>; // Only for the spec's `historyProperties`
+}
+
+export type AssociationTarget = "contacts" | "companies" | "deals" | "tickets";
+
+/** Associated IDs of one record towards one object type, with the one holding the Primary label */
+export interface AssociatedIds {
+  ids: string[];
+  primaryId?: string;
+}
+
+/** HubSpot-defined Primary association type, e.g. deal → company */
+export interface PrimaryAssociation {
+  toObjectType: AssociationTarget;
+  typeId: number; // v4 association type ID
+  inlineType: string; // `type` of the Primary link in inline (v3) associations
+}
+
+/** A CRM record as streamed by the connector (typed properties widened to strings) */
+export type CrmRecord = Omit<HubSpotObject, "properties"> & { properties: Record<string, string | null | undefined> };
+
+/** How one CRM object type is extracted and where it is ingested */
+export interface ObjectSyncSpec {
+  objectType: SyncObjectType; // Connector object type and sync cursor key
+  label: string; // Task name suffix, e.g. "Deals" → syncHubSpotDeals
+  ingestTable: string; // Moose raw ingest endpoint, e.g. HubSpotDealRaw
+  associations: AssociationTarget[]; // Associated object types kept on the raw record
+  modifiedProperty: string; // Last-modified property (contacts use `lastmodifieddate`)
+  historyProperties?: string[]; // Properties synced with their change history (`propertiesWithHistory`)
+  primaryAssociation?: PrimaryAssociation; // Association whose Primary label is kept as `primaryCompanyId`
+  streamAll: (hs: HubSpotConnector, params: StreamParams) => AsyncIterable<CrmRecord>;
+  streamSearch: (hs: HubSpotConnector, request: SearchRequest<any>) => AsyncIterable<CrmRecord>;
+  batchGet: (hs: HubSpotConnector, params: BatchGetParams) => Promise<BatchReadResult<CrmRecord>>;
+}
+
+const engagementSpec = (
+  objectType: "notes" | "calls" | "emails" | "meetings" | "tasks",
+  label: string,
+  ingestTable: string,
+): ObjectSyncSpec => ({
+  objectType,
+  label,
+  ingestTable,
+  associations: ["contacts", "companies", "deals", "tickets"],
+  modifiedProperty: "hs_lastmodifieddate",
+  streamAll: (hs, params) => hs.streamEngagements({ objectType, ...params }),
+  streamSearch: (hs, request) => hs.streamSearchEngagements({ objectType, ...request }),
+  batchGet: (hs, params) => hs.batchGetEngagements({ objectType, ...params }),
+});
+
+export const OBJECT_SYNC_SPECS: Record<SyncObjectType, ObjectSyncSpec> = {
+  deals: {
+    objectType: "deals",
+    label: "Deals",
+    ingestTable: "HubSpotDealRaw",
+    associations: ["contacts", "companies"],
+    modifiedProperty: "hs_lastmodifieddate",
+    historyProperties: ["dealstage"], // Stage history → HubSpotDealStageTransition
+    primaryAssociation: { toObjectType: "companies", typeId: 5, inlineType: "deal_to_company" },
+    streamAll: (hs, params) => hs.streamDeals(params),
+    streamSearch: (hs, request) => hs.streamSearchDeals(request),
+    batchGet: (hs, params) => hs.batchGetDeals(params),
+  },
+  contacts: {
+    objectType: "contacts",
+    label: "Contacts",
+    ingestTable: "HubSpotContactRaw",
+    associations: ["companies", "deals"],
+    modifiedProperty: "lastmodifieddate",
+    streamAll: (hs, params) => hs.streamContacts(params),
+    streamSearch: (hs, request) => hs.streamSearchContacts(request),
+    batchGet: (hs, params) => hs.batchGetContacts(params),
+  },
+  companies: {
+    objectType: "companies",
+    label: "Companies",
+    ingestTable: "HubSpotCompanyRaw",
+    associations: ["contacts", "deals"],
+    modifiedProperty: "hs_lastmodifieddate",
+    streamAll: (hs, params) => hs.streamCompanies(params),
+    streamSearch: (hs, request) => hs.streamSearchCompanies(request),
+    batchGet: (hs, params) => hs.batchGetCompanies(params),
+  },
+  tickets: {
+    objectType: "tickets",
+    label: "Tickets",
+    ingestTable: "HubSpotTicketRaw",
+    associations: ["contacts", "companies", "deals"],
+    modifiedProperty: "hs_lastmodifieddate",
+    streamAll: (hs, params) => hs.streamTickets(params),
+    streamSearch: (hs, request) => hs.streamSearchTickets(request),
+    batchGet: (hs, params) => hs.batchGetTickets(params),
+  },
+  notes: engagementSpec("notes", "Notes", "HubSpotNoteRaw"),
+  calls: engagementSpec("calls", "Calls", "HubSpotCallRaw"),
+  emails: engagementSpec("emails", "Emails", "HubSpotEmailRaw"),
+  meetings: engagementSpec("meetings", "Meetings", "HubSpotMeetingRaw"),
+  tasks: engagementSpec("tasks", "Tasks", "HubSpotTaskRaw"),
+};
+
+export function createSyncConnector(token: string): HubSpotConnector {
+  const connector = createHubSpotConnector();
+  connector.initialize({
+    auth: {
+      type: "bearer",
+      bearer: { token }
+    },
+    rateLimit: {
+      requestsPerSecond: 10, // HubSpot allows 10 requests per second
+      burstCapacity: 10,
+      // Paced from HubSpot's rate-limit headers; log when a backfill is being held back
+      onThrottle: (e) => console.warn(`⏳ HubSpot ${e.reason} rate limit: ${e.remaining}/${e.limit} left, waiting ${e.delayMs}ms`)
+    }
+  });
+  return connector;
+}
+
+/** IDs and the Primary-labeled ID among v4 associations (`AssociatedObject`s) */
+export function associatedIdsOf(
+  spec: ObjectSyncSpec,
+  toObjectType: AssociationTarget,
+  associated: Array<Pick<AssociatedObject, "toObjectId" | "associationTypes">>,
+): AssociatedIds {
+  const primary = spec.primaryAssociation?.toObjectType === toObjectType ? spec.primaryAssociation : undefined;
+  const primaryLink = primary && associated.find((a) => a.associationTypes?.some((t) => t.typeId === primary.typeId));
+  return {
+    ids: Array.from(new Set(associated.map((a) => String(a.toObjectId)))),
+    ...(primaryLink ? { primaryId: String(primaryLink.toObjectId) } : {}),
+  };
+}
+
+/** IDs associated to each record in one v4 batch read, paging through records with more than one page */
+export async function batchAssociationIds(
+  connector: HubSpotConnector,
+  spec: ObjectSyncSpec,
+  recordIds: string[],
+  toObjectType: AssociationTarget,
+): Promise<Map<string, AssociatedIds>> {
+  const byRecord = new Map<string, AssociatedIds>();
+  // Records without associations come back in `errors` (NO_ASSOCIATIONS_FOUND) and default to []
+  const { results } = await connector.batchReadAssociations({ fromObjectType: spec.objectType, toObjectType, ids: recordIds });
+  for (const item of results) {
+    let associated: AssociatedObject[] = item.to;
+    if (item.paging?.next) {
+      associated = [];
+      for await (const assoc of connector.streamAssociations({ fromObjectType: spec.objectType, objectId: item.from.id, toObjectType })) {
+        associated.push(assoc);
+      }
+    }
+    byRecord.set(item.from.id, associatedIdsOf(spec, toObjectType, associated));
+  }
+  return byRecord;
+}
+
+/** Raw record from a CRM record and its associations per object type (from `batchAssociationIds` or inline) */
+export function withAssociations(
+  spec: ObjectSyncSpec,
+  record: CrmRecord,
+  byType: Partial<Record<AssociationTarget, AssociatedIds>>,
+): HubSpotObjectRawIngestion {
+  const associations: Partial<Record<AssociationTarget, string[]>> = {};
+  for (const toObjectType of spec.associations) {
+    associations[toObjectType] = byType[toObjectType]?.ids ?? [];
+  }
+  const primaryId = spec.primaryAssociation && byType[spec.primaryAssociation.toObjectType]?.primaryId;
+  return { ...toRawIngestion(record, associations), ...(primaryId ? { primaryCompanyId: primaryId } : {}) };
+}
+
+/** Transforms a HubSpot record to our ingestion format */
+export function toRawIngestion(record: CrmRecord, associations: Partial<Record<AssociationTarget, string[]>>): HubSpotObjectRawIngestion {
+  // Clean and sanitize properties - filter out null/undefined and convert to strings
+  const cleanProperties: Record<string, string> = {};
+
+  // Only include properties that have actual values (not null/undefined/empty)
+  for (const [key, value] of Object.entries(record.properties || {})) {
+    if (value !== null && value !== undefined && value !== "") {
+      cleanProperties[key] = String(value);
+    }
+    // Skip null/undefined/empty values completely
+  }
+
+  return {
+    id: record.id,
+    properties: cleanProperties,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    archived: record.archived || false,
+    ...(record.archivedAt ? { archivedAt: record.archivedAt } : {}),
+    associations,
+    ...(record.propertiesWithHistory ? { propertiesWithHistory: record.propertiesWithHistory } : {}),
+  };
+}
+
+const emptyAssociations = (spec: ObjectSyncSpec) =>
+  Object.fromEntries(spec.associations.map((toObjectType) => [toObjectType, [] as string[]]));
+
+/**
+ * Marker for a record that no longer exists in HubSpot (deleted, or merged
+ * into `mergedIntoId`). It replaces the record downstream, where it is
+ * flagged as deleted, so it carries the record's last known properties and
+ * creation date when `last` is given (see `fetchDeletedRecords`). Without it
+ * the marker is bare: no properties, created at its deletion time.
+ */
+export function tombstoneIngestion(
+  spec: ObjectSyncSpec,
+  id: string,
+  marker: { archivedAt: string; mergedIntoId?: string },
+  last?: CrmRecord,
+): HubSpotObjectRawIngestion {
+  if (last) {
+    return {
+      ...toRawIngestion({ ...last, archived: true, archivedAt: marker.archivedAt }, emptyAssociations(spec)),
+      ...(marker.mergedIntoId ? { mergedIntoId: marker.mergedIntoId } : {}),
+    };
+  }
+  return {
+    id,
+    properties: {},
+    createdAt: marker.archivedAt,
+    updatedAt: marker.archivedAt,
+    archived: true,
+    archivedAt: marker.archivedAt,
+    ...(marker.mergedIntoId ? { mergedIntoId: marker.mergedIntoId } : {}),
+    associations: emptyAssociations(spec),
+  };
+}
+
+/** The record followed by merge markers for every ID listed in its `hs_merged_object_ids` */
+export function withMergeTombstones(spec: ObjectSyncSpec, record: HubSpotObjectRawIngestion): HubSpotObjectRawIngestion[] {
+  const mergedIds = (record.properties.hs_merged_object_ids || "")
+    .split(";")
+    .map((id) => id.trim())
+    .filter((id) => id && id !== record.id);
+  const archivedAt = record.properties[spec.modifiedProperty] || record.updatedAt;
+  return [record, ...mergedIds.map((id) => tombstoneIngestion(spec, id, { archivedAt, mergedIntoId: record.id }))];
+}
+
+/**
+ * Records in HubSpot's recycle bin (`archived=true` listing), as deletion
+ * markers. Deleted records never match a modified-since search, so every run
+ * lists them; HubSpot keeps them for 90 days.
+ */
+export async function* extractArchivedRecords(connector: HubSpotConnector, spec: ObjectSyncSpec): AsyncGenerator<HubSpotObjectRawIngestion> {
+  for await (const record of spec.streamAll(connector, { archived: true, pageSize: 100 })) {
+    yield toRawIngestion({ ...record, archived: true, archivedAt: record.archivedAt || record.updatedAt }, emptyAssociations(spec));
+  }
+}
+
+/**
+ * Last known state of deleted records, read by ID from HubSpot's recycle bin
+ * with every property. IDs it no longer has (purged, or merged away) are
+ * missing from the result.
+ */
+export async function fetchDeletedRecords(connector: HubSpotConnector, spec: ObjectSyncSpec, ids: string[]): Promise<Map<string, CrmRecord>> {
+  if (ids.length === 0) return new Map();
+  const { data } = await connector.listProperties({ objectType: spec.objectType });
+  const { results } = await spec.batchGet(connector, { ids, properties: data.results.map((p) => p.name), archived: true });
+  return new Map(results.map((record) => [record.id, record]));
+}
+
+/**
+ * Adds the spec's property history to records read without it (search
+ * results never carry history), with one batch read per 50 records.
+ */
+export async function attachPropertyHistory(connector: HubSpotConnector, spec: ObjectSyncSpec, records: CrmRecord[]): Promise<CrmRecord[]> {
+  if (!spec.historyProperties?.length || records.length === 0) return records;
+  const { results } = await spec.batchGet(connector, {
+    ids: records.map((r) => r.id),
+    properties: [],
+    propertiesWithHistory: spec.historyProperties,
+  });
+  const historyById = new Map(results.map((r) => [r.id, r.propertiesWithHistory]));
+  return records.map((record) => ({ ...record, propertiesWithHistory: historyById.get(record.id) ?? record.propertiesWithHistory }));
+}
+
+/**
+ * Reads records by ID with every property and their associations, ready for
+ * ingestion. IDs HubSpot no longer has (deleted since) are returned in `notFound`.
+ */
+export async function fetchRawRecords(
+  connector: HubSpotConnector,
+  spec: ObjectSyncSpec,
+  ids: string[],
+): Promise<{ records: HubSpotObjectRawIngestion[]; notFound: string[] }> {
+  const { data } = await connector.listProperties({ objectType: spec.objectType });
+  const { results, notFound } = await spec.batchGet(connector, {
+    ids,
+    properties: data.results.map((p) => p.name),
+    propertiesWithHistory: spec.historyProperties,
+  });
+  if (results.length === 0) return { records: [], notFound };
+
+  const found = results.map((r) => r.id);
+  const byType = await Promise.all(spec.associations.map((toObjectType) => batchAssociationIds(connector, spec, found, toObjectType)));
+  const records = results.map((record) => {
+    const associated: Partial<Record<AssociationTarget, AssociatedIds>> = {};
+    spec.associations.forEach((toObjectType, i) => {
+      associated[toObjectType] = byType[i].get(record.id);
+    });
+    return withAssociations(spec, record, associated);
+  });
+  return { records, notFound };
+}
@@ -0,0 +1,65 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * HubSpot Sync State
+ *
+ * Per-object high-water marks for incremental extraction, persisted to a local
+ * JSON file so they survive restarts. The file defaults to
+ * `.hubspot-sync-state.json` in the working directory and can be moved with
+ * HUBSPOT_SYNC_STATE_PATH.
+ *
+ * A cursor is the max `hs_lastmodifieddate` successfully ingested for an
+ * object type; the next run searches for records modified after it (minus an
+ * overlap window).
+ */
+
+export type SyncObjectType = "deals" | "contacts" | "companies" | "tickets" | "notes" | "calls" | "emails" | "meetings" | "tasks";
+
+export interface SyncCursor {
+  lastModifiedAt: string; // ISO timestamp of the newest record ingested
+  lastRunAt: string; // ISO timestamp of the run that advanced the cursor
+  mode: "full" | "incremental"; // How that run extracted records
+  recordCount: number; // Records ingested by that run
+}
+
+type SyncState = Partial<Record<SyncObjectType, SyncCursor>>;
+
+const statePath = () => path.resolve(process.env.HUBSPOT_SYNC_STATE_PATH || ".hubspot-sync-state.json");
+
+function readState(): SyncState {
+  try {
+    return JSON.parse(fs.readFileSync(statePath(), "utf8")) as SyncState;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw error;
+  }
+}
+
+function writeState(state: SyncState): void {
+  const file = statePath();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  // Write-then-rename so a crash mid-write never leaves a truncated state file
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(state, null, 2));
+  fs.renameSync(tmp, file);
+}
+
+export function readSyncCursor(objectType: SyncObjectType): SyncCursor | undefined {
+  return readState()[objectType];
+}
+
+export function writeSyncCursor(objectType: SyncObjectType, cursor: SyncCursor): void {
+  writeState({ ...readState(), [objectType]: cursor });
+}
+
+/** Clears the cursor for one object type, or for all of them; the next run is a full sync */
+export function resetSyncCursor(objectType?: SyncObjectType): void {
+  if (!objectType) {
+    writeState({});
+    return;
+  }
+  const state = readState();
+  delete state[objectType];
+  writeState(state);
+}
@@ -1,156 +1,410 @@
 import { Task, Workflow } from "@514labs/moose-lib";
-import { createHubSpotConnector, type HubSpotConnector } from "../hubspot";
+import { associatedIds, searchBuilder, type AssociatedObject, type HubSpotConnector, type Owner } from "../hubspot";
+import { MooseIngestSink } from "./mooseIngestSink";
+import {
+  OBJECT_SYNC_SPECS,
+  associatedIdsOf,
+  attachPropertyHistory,
+  batchAssociationIds,
+  createSyncConnector,
+  extractArchivedRecords,
+  withAssociations,
+  withMergeTombstones,
+  type AssociatedIds,
+  type AssociationTarget,
+  type CrmRecord,
+  type HubSpotObjectRawIngestion,
+  type ObjectSyncSpec,
+} from "./hubspotObjectSync";
+import { readSyncCursor, resetSyncCursor, writeSyncCursor, type SyncObjectType } from "./hubspotSyncState";
+import { loadExchangeRates } from "../ingest/hubspotFxRates";
 
 /**
  * HubSpot Data Sync Workflow
  * 
- * Scheduled workflow that syncs deals data from HubSpot API using the connector
- * to the Moose ingestion pipeline with automatic rate limiting and error handling
+ * Scheduled workflow that syncs the HubSpot CRM graph (deals, contacts, companies,
+ * tickets, engagements, owners and exchange rates) from HubSpot API using the connector to the
+ * Moose ingestion pipelines with automatic rate limiting and error handling.
+ * Each object type runs as its own task, chained in order.
  */
 
-interface HubSpotDealRawIngestion {
+interface HubSpotSyncInput {
+  fullResync?: boolean; // Ignore the persisted cursor and re-extract everything
+}
+
+interface HubSpotSyncResetInput {
+  objectType?: SyncObjectType; // Omit to reset every object type
+}
+
+// Records modified this long before the cursor are re-read, covering clock skew and search index lag
+const SYNC_OVERLAP_MS = (parseInt(process.env.HUBSPOT_SYNC_OVERLAP_MINUTES || "", 10) || 5) * 60 * 1000;
+
+interface HubSpotOwnerIngestion {
   id: string;
-  properties: Record<string, string>; // Only include non-null properties
+  userId?: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+  fullName: string;
+  teamIds: string[];
+  teamNames: string[];
+  primaryTeamName?: string;
+  isArchived: boolean;
   createdAt: string;
   updatedAt: string;
-  archived: boolean;
-  associations: {
-    contacts: string[];
-    companies: string[];
+}
+
+interface HubSpotExchangeRateIngestion {
+  id: string;
+  currency: string;
+  homeCurrency: string;
+  rateToHome: number;
+  effectiveAt: string;
+  source: string;
+}
+
+function toOwnerIngestion(owner: Owner): HubSpotOwnerIngestion {
+  const firstName = owner.firstName ?? "";
+  const lastName = owner.lastName ?? "";
+  const teams = owner.teams ?? [];
+  return {
+    id: owner.id,
+    userId: owner.userId,
+    email: owner.email ?? "",
+    firstName,
+    lastName,
+    fullName: `${firstName} ${lastName}`.trim() || owner.email || owner.id,
+    teamIds: teams.map((t) => t.id),
+    teamNames: teams.map((t) => t.name),
+    primaryTeamName: teams.find((t) => t.primary)?.name,
+    isArchived: owner.archived,
+    createdAt: owner.createdAt,
+    updatedAt: owner.updatedAt,
+  };
+}
+
+/**
+ * Associated IDs for a record, with the one holding the spec's Primary label.
+ * The inline `associations` on list responses are truncated to one page; when
+ * HubSpot reports more, page through the v4 API.
+ */
+async function recordAssociationIds(
+  connector: HubSpotConnector,
+  spec: ObjectSyncSpec,
+  record: CrmRecord,
+  toObjectType: AssociationTarget,
+): Promise<AssociatedIds> {
+  if (!record.associations?.[toObjectType]?.paging) {
+    const primary = spec.primaryAssociation?.toObjectType === toObjectType ? spec.primaryAssociation : undefined;
+    const primaryLink = primary && record.associations?.[toObjectType]?.results.find((r) => r.type === primary.inlineType);
+    return {
+      ids: associatedIds(record, toObjectType),
+      ...(primaryLink ? { primaryId: String(primaryLink.id) } : {}),
+    };
+  }
+  const associated: AssociatedObject[] = [];
+  for await (const assoc of connector.streamAssociations({ fromObjectType: spec.objectType, objectId: record.id, toObjectType })) {
+    associated.push(assoc);
+  }
+  return associatedIdsOf(spec, toObjectType, associated);
+}
+
+interface ExtractedRecord {
+  record: CrmRecord;
+  associations: Partial<Record<AssociationTarget, AssociatedIds>>;
+}
+
+/** Full extraction: every record with all properties and inline associations */
+async function* extractAllRecords(connector: HubSpotConnector, spec: ObjectSyncSpec): AsyncGenerator<ExtractedRecord> {
+  // "all" resolves the portal's properties at run time, so custom fields sync without code changes
+  for await (const record of spec.streamAll(connector, {
+    properties: "all",
+    associations: spec.associations,
+    propertiesWithHistory: spec.historyProperties,
+    pageSize: 100
+  })) {
+    const associations: Partial<Record<AssociationTarget, AssociatedIds>> = {};
+    for (const toObjectType of spec.associations) {
+      associations[toObjectType] = await recordAssociationIds(connector, spec, record, toObjectType);
+    }
+    yield { record, associations };
+  }
+}
+
+/**
+ * Incremental extraction: records modified at or after `since` (epoch ms),
+ * oldest first. Search results carry no associations or property history, so
+ * both are batch read per page.
+ */
+async function* extractModifiedRecords(
+  connector: HubSpotConnector,
+  spec: ObjectSyncSpec,
+  since: number,
+): AsyncGenerator<ExtractedRecord> {
+  const { data } = await connector.listProperties({ objectType: spec.objectType });
+  const properties = data.results.map((p) => p.name);
+  const request = searchBuilder()
+    .where(spec.modifiedProperty, "GTE", since)
+    .properties(...properties)
+    .limit(100)
+    .build();
+
+  let page: CrmRecord[] = [];
+  const flush = async function* () {
+    const ids = page.map((r) => r.id);
+    const [byType, records] = await Promise.all([
+      Promise.all(spec.associations.map((toObjectType) => batchAssociationIds(connector, spec, ids, toObjectType))),
+      attachPropertyHistory(connector, spec, page),
+    ]);
+    for (const record of records) {
+      const associations: Partial<Record<AssociationTarget, AssociatedIds>> = {};
+      spec.associations.forEach((toObjectType, i) => {
+        associations[toObjectType] = byType[i].get(record.id);
+      });
+      yield { record, associations };
+    }
+    page = [];
   };
+
+  for await (const record of spec.streamSearch(connector, request)) {
+    page.push(record);
+    if (page.length === 100) yield* flush();
+  }
+  if (page.length) yield* flush();
 }
 
-async function syncHubSpotDeals(): Promise<void> {
+async function syncHubSpotObjects(spec: ObjectSyncSpec, options: { fullResync?: boolean } = {}): Promise<void> {
   const token = process.env.HUBSPOT_TOKEN;
   
   if (!token) {
     throw new Error("HUBSPOT_TOKEN environment variable is required");
   }
 
-  console.log("🚀 Starting HubSpot deals sync...");
+  const name = spec.objectType;
+  console.log(`🚀 Starting HubSpot ${name} sync...`);
   
   try {
     // Initialize and configure the HubSpot connector
-    const connector = createHubSpotConnector();
-    connector.initialize({
-      auth: {
-        type: "bearer",
-        bearer: { token }
-      },
-      rateLimit: {
-        requestsPerSecond: 10, // HubSpot allows 10 requests per second
-        burstCapacity: 10
-      }
-    });
-    
+    const connector = createSyncConnector(token);
     await connector.connect();
     
-    let dealCount = 0;
-    let successCount = 0;
-    let errorCount = 0;
-
-    const dealProperties = [
-      "dealname", "amount", "dealstage", "pipeline", "dealtype",
-      "closedate", "createdate", "hs_lastmodifieddate", "hubspot_owner_id",
-      "deal_currency_code", "dealstage_label", "pipeline_label",
-      "hs_deal_stage_probability", "hs_forecast_amount", "hs_projected_amount",
-      "num_associated_contacts", "num_contacted_notes", "days_to_close"
-    ];
-
-    console.log("✅ Starting HubSpot deals streaming...");
-
-    // Use the connector to stream deals with automatic pagination and rate limiting
-    for await (const deal of connector.streamDeals({ 
-      properties: dealProperties,
-      pageSize: 100
-    })) {
-      dealCount++;
+    // Batches from earlier runs go first, so records extracted now overwrite them
+    const sink = new MooseIngestSink<HubSpotObjectRawIngestion>(spec.ingestTable);
+    const replayed = await sink.replaySpilled();
+    if (replayed > 0) {
+      console.log(`♻️ Replayed ${replayed} spilled ${name} from previous runs`);
+    }
+
+    // Resume from the persisted high-water mark unless a full resync was requested
+    const cursor = options.fullResync ? undefined : readSyncCursor(spec.objectType);
+    let highWaterMark = cursor ? Date.parse(cursor.lastModifiedAt) : 0;
+    const since = cursor ? highWaterMark - SYNC_OVERLAP_MS : undefined;
+
+    if (since === undefined) {
+      console.log(`✅ Starting full HubSpot ${name} sync${options.fullResync ? " (full resync requested)" : ""}...`);
+    } else {
+      console.log(`✅ Starting incremental HubSpot ${name} sync (modified since ${new Date(since).toISOString()})...`);
+    }
+
+    const records = since === undefined ? extractAllRecords(connector, spec) : extractModifiedRecords(connector, spec, since);
+
+    // Use the connector to stream records with automatic pagination and rate limiting
+    for await (const { record, associations } of records) {
+      // Transform the HubSpot record to our ingestion format and queue it for batched ingestion,
+      // followed by tombstones for records merged into it
+      for (const raw of withMergeTombstones(spec, withAssociations(spec, record, associations))) {
+        await sink.add(raw);
+      }
+
+      const modifiedAt = Date.parse(record.properties?.[spec.modifiedProperty] || record.updatedAt);
+      if (modifiedAt > highWaterMark) highWaterMark = modifiedAt;
       
-      try {
-        // Clean and sanitize properties - filter out null/undefined and convert to strings
-        const cleanProperties: Record<string, string> = {};
-        
-        // Only include properties that have actual values (not null/undefined/empty)
-        for (const [key, value] of Object.entries(deal.properties || {})) {
-          if (value !== null && value !== undefined && value !== "") {
-            cleanProperties[key] = String(value);
-          }
-          // Skip null/undefined/empty values completely
-        }
-
-        // Transform HubSpot deal to our ingestion format
-        const dealData: HubSpotDealRawIngestion = {
-          id: deal.id,
-          properties: cleanProperties,
-          createdAt: deal.createdAt,
-          updatedAt: deal.updatedAt,
-          archived: deal.archived || false,
-          associations: {
-            contacts: [], // TODO: Fetch associations separately if needed
-            companies: []
-          }
-        };
-
-        // Send to Moose ingestion endpoint
-        const response = await fetch("http://localhost:4000/ingest/HubSpotDealRaw", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(dealData),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Moose ingestion error ${response.status}: ${errorText}`);
-        }
-
-        successCount++;
-        
-        // Log progress every 50 deals
-        if (dealCount % 50 === 0) {
-          console.log(`📊 Processed ${dealCount} deals total (${successCount} successful, ${errorCount} errors)`);
-        }
-
-      } catch (error) {
-        errorCount++;
-        console.error(`❌ Error ingesting deal ${deal.id}:`, error);
-        continue;
+      // Log progress every 500 records
+      const { records: recordCount, succeeded, failed } = sink.stats;
+      if (recordCount % 500 === 0) {
+        console.log(`📊 Extracted ${recordCount} ${name} total (${succeeded} ingested, ${failed} failed)`);
       }
     }
-    
+
+    // Deleted records as tombstones, so downstream tables stop counting them
+    let deleted = 0;
+    for await (const tombstone of extractArchivedRecords(connector, spec)) {
+      await sink.add(tombstone);
+      deleted++;
+    }
+    if (deleted > 0) {
+      console.log(`🪦 Marked ${deleted} archived ${name} as deleted`);
+    }
+
+    const stats = await sink.flush();
     await connector.disconnect();
+
+    // Only advance the cursor when every record was ingested; spilled records are replayed next run
+    if (stats.failed === 0 && highWaterMark > 0) {
+      writeSyncCursor(spec.objectType, {
+        lastModifiedAt: new Date(highWaterMark).toISOString(),
+        lastRunAt: new Date().toISOString(),
+        mode: since === undefined ? "full" : "incremental",
+        recordCount: stats.succeeded,
+      });
+    } else if (stats.failed > 0) {
+      console.warn(`⚠️ ${stats.failed} ${name} failed (${stats.spilled} spilled for retry); sync cursor not advanced`);
+    }
     
-    console.log("✅ HubSpot sync completed!");
-    console.log(`📈 Final stats: ${dealCount} total deals processed, ${successCount} deals added, ${errorCount} errors`);
+    console.log(`✅ HubSpot ${name} sync completed!`);
+    console.log(
+      `📈 Final stats: ${stats.records} total ${name} processed in ${stats.batches} batches, ${stats.succeeded} added, ` +
+        `${stats.failed} failed, ${stats.retries} retries, ${stats.spilled} spilled, ${stats.replayed} replayed`
+    );
 
   } catch (error) {
-    console.error("💥 HubSpot sync failed:", error);
+    console.error(`💥 HubSpot ${name} sync failed:`, error);
     throw error;
   }
 }
 
-// Task to sync HubSpot deals data using the connector
-export const syncHubSpotDealsTask = new Task<null, void>("syncHubSpotDeals", {
+async function syncHubSpotOwners(): Promise<void> {
+  const token = process.env.HUBSPOT_TOKEN;
+
+  if (!token) {
+    throw new Error("HUBSPOT_TOKEN environment variable is required");
+  }
+
+  console.log("🚀 Starting HubSpot owners sync...");
+
+  const connector = createSyncConnector(token);
+  await connector.connect();
+
+  // Archived owners are included so deals assigned to deactivated users still resolve
+  const owners: HubSpotOwnerIngestion[] = [];
+  for await (const owner of connector.streamOwners({ includeArchived: true })) {
+    owners.push(toOwnerIngestion(owner));
+  }
+
+  await connector.disconnect();
+
+  const sink = new MooseIngestSink<HubSpotOwnerIngestion>("HubSpotOwner");
+  await sink.replaySpilled();
+  for (const owner of owners) await sink.add(owner);
+  const stats = await sink.flush();
+
+  if (stats.failed > 0) {
+    throw new Error(`Moose ingestion failed for ${stats.failed} of ${stats.records} owners (${stats.spilled} spilled for retry)`);
+  }
+
+  console.log(`✅ HubSpot owners sync completed: ${owners.length} owners`);
+}
+
+// Exchange rates (HubSpot currency settings or HUBSPOT_FX_RATES_FILE) for the HubSpotExchangeRate dimension
+async function syncHubSpotExchangeRates(): Promise<void> {
+  console.log("🚀 Starting HubSpot exchange rates sync...");
+
+  const { homeCurrency, rates } = await loadExchangeRates();
+  const sink = new MooseIngestSink<HubSpotExchangeRateIngestion>("HubSpotExchangeRate");
+  await sink.replaySpilled();
+  for (const rate of rates) {
+    await sink.add({
+      id: `${rate.currency}:${rate.effectiveAt.getTime()}`,
+      currency: rate.currency,
+      homeCurrency,
+      rateToHome: rate.rateToHome,
+      effectiveAt: rate.effectiveAt.toISOString(),
+      source: rate.source,
+    });
+  }
+  const stats = await sink.flush();
+
+  if (stats.failed > 0) {
+    throw new Error(`Moose ingestion failed for ${stats.failed} of ${stats.records} exchange rates (${stats.spilled} spilled for retry)`);
+  }
+
+  console.log(`✅ HubSpot exchange rates sync completed: ${rates.length} rates into ${homeCurrency}`);
+}
+
+// Task to sync exchange rates (last in the chain)
+export const syncHubSpotExchangeRatesTask = new Task<null, void>("syncHubSpotExchangeRates", {
   run: async () => {
-    console.log("🔄 Starting HubSpot deals sync workflow with connector...");
-    
-    const startTime = Date.now();
-    await syncHubSpotDeals();
-    const duration = Math.round((Date.now() - startTime) / 1000);
-    console.log(`✅ HubSpot deals sync completed successfully in ${duration}s`);
+    await syncHubSpotExchangeRates();
   },
   retries: 3,
-  timeout: "1m",
+  timeout: "5m",
+});
+
+// Task to sync HubSpot owners
+export const syncHubSpotOwnersTask = new Task<HubSpotSyncInput, void>("syncHubSpotOwners", {
+  run: async () => {
+    await syncHubSpotOwners();
+  },
+  onComplete: [syncHubSpotExchangeRatesTask],
+  retries: 3,
+  timeout: "5m",
 });
 
+/**
+ * Task syncing one object type. It passes its input on, so a `fullResync`
+ * given to the first task applies to every object type in the chain.
+ */
+function objectSyncTask(
+  spec: ObjectSyncSpec,
+  next: Task<HubSpotSyncInput, HubSpotSyncInput> | Task<HubSpotSyncInput, void>,
+): Task<HubSpotSyncInput, HubSpotSyncInput> {
+  return new Task<HubSpotSyncInput, HubSpotSyncInput>(`syncHubSpot${spec.label}`, {
+    run: async (input: HubSpotSyncInput) => {
+      console.log(`🔄 Starting HubSpot ${spec.objectType} sync workflow with connector...`);
+
+      const startTime = Date.now();
+      const fullResync = input?.fullResync === true || process.env.HUBSPOT_FULL_RESYNC === "true";
+      await syncHubSpotObjects(spec, { fullResync });
+      const duration = Math.round((Date.now() - startTime) / 1000);
+      console.log(`✅ HubSpot ${spec.objectType} sync completed successfully in ${duration}s`);
+      return { fullResync };
+    },
+    onComplete: [next],
+    retries: 3,
+    // Incremental runs are short; a first or full resync streams every record
+    timeout: "1h",
+  });
+}
+
+// Chain (built last to first): deals → contacts → companies → tickets → notes → calls → emails → meetings → tasks → owners → exchange rates
+export const syncHubSpotTasksTask = objectSyncTask(OBJECT_SYNC_SPECS.tasks, syncHubSpotOwnersTask);
+export const syncHubSpotMeetingsTask = objectSyncTask(OBJECT_SYNC_SPECS.meetings, syncHubSpotTasksTask);
+export const syncHubSpotEmailsTask = objectSyncTask(OBJECT_SYNC_SPECS.emails, syncHubSpotMeetingsTask);
+export const syncHubSpotCallsTask = objectSyncTask(OBJECT_SYNC_SPECS.calls, syncHubSpotEmailsTask);
+export const syncHubSpotNotesTask = objectSyncTask(OBJECT_SYNC_SPECS.notes, syncHubSpotCallsTask);
+export const syncHubSpotTicketsTask = objectSyncTask(OBJECT_SYNC_SPECS.tickets, syncHubSpotNotesTask);
+export const syncHubSpotCompaniesTask = objectSyncTask(OBJECT_SYNC_SPECS.companies, syncHubSpotTicketsTask);
+export const syncHubSpotContactsTask = objectSyncTask(OBJECT_SYNC_SPECS.contacts, syncHubSpotCompaniesTask);
+
+// Task to sync HubSpot deals data using the connector (first in the chain)
+// Input: { fullResync: true } (or HUBSPOT_FULL_RESYNC=true) ignores the sync cursors and re-extracts every record
+export const syncHubSpotDealsTask = objectSyncTask(OBJECT_SYNC_SPECS.deals, syncHubSpotContactsTask);
+
 // Workflow definition with scheduling
 export const hubspotDataSyncWorkflow = new Workflow("hubspotDataSync", {
   startingTask: syncHubSpotDealsTask,
   retries: 2,
-  timeout: "1m",
+  timeout: "12h",
   // schedule: "@every 30s",
 });
 
+// Task to clear sync cursors so the next hubspotDataSync run is a full sync
+export const resetHubSpotSyncStateTask = new Task<HubSpotSyncResetInput, void>("resetHubSpotSyncState", {
+  run: async (input: HubSpotSyncResetInput) => {
+    resetSyncCursor(input?.objectType);
+    console.log(`🧹 Reset HubSpot sync cursor: ${input?.objectType ?? "all object types"}`);
+  },
+  retries: 0,
+  timeout: "1m",
+});
+
+export const hubspotSyncResetWorkflow = new Workflow("hubspotSyncReset", {
+  startingTask: resetHubSpotSyncStateTask,
+  retries: 0,
+  timeout: "1m",
+});
+
 console.log("📋 HubSpot Data Sync Workflow registered");
 console.log("🏃 Run manually with: moose workflow run hubspotDataSync");
+console.log("🔁 Full resync: moose workflow run hubspotDataSync --input '{\"fullResync\":true}'");
+console.log("🧹 Reset cursors: moose workflow run hubspotSyncReset [--input '{\"objectType\":\"deals\"}']");
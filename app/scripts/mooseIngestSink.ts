@@ -0,0 +1,167 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Moose Ingest Sink
+ *
+ * Buffers records for one Moose ingest endpoint and POSTs them as JSON arrays
+ * instead of one request per record.
+ *
+ * - Batches of MOOSE_INGEST_BATCH_SIZE records (default 100), at most
+ *   MOOSE_INGEST_CONCURRENCY (default 4) in flight; `add` waits for a free slot
+ *   so a fast extractor cannot buffer an unbounded backlog
+ * - Network errors, 429 and 5xx are retried with exponential backoff and
+ *   jitter (MOOSE_INGEST_MAX_RETRIES, default 3); other 4xx fail immediately
+ * - A batch that still fails is spilled to MOOSE_INGEST_SPILL_DIR (default
+ *   `.moose-ingest-spill/<table>/`) and replayed by the next run's `replaySpilled`
+ * - The endpoint is `${MOOSE_INGEST_URL}/${table}` (default
+ *   `http://localhost:4000/ingest`)
+ */
+
+export interface IngestSinkOptions {
+  baseUrl?: string; // Ingest base URL; the table name is appended
+  batchSize?: number; // Records per POST
+  concurrency?: number; // Batches in flight at once
+  maxRetries?: number; // Retries per batch after the first attempt
+  retryBaseDelayMs?: number; // First backoff delay; doubles per retry
+  spillDir?: string; // Root directory of the on-disk retry queue
+}
+
+export interface IngestSinkStats {
+  records: number; // Records added this run
+  succeeded: number; // Records accepted by Moose
+  failed: number; // Records whose batch exhausted its retries (spilled unless the spill write failed)
+  retries: number; // Retried POSTs
+  batches: number; // Batches sent (excluding replays)
+  spilled: number; // Records written to the retry queue
+  replayed: number; // Spilled records from earlier runs accepted this run
+}
+
+const envInt = (name: string, fallback: number) => parseInt(process.env[name] || "", 10) || fallback;
+
+class IngestHttpError extends Error {
+  constructor(readonly status: number, body: string) {
+    super(`Moose ingestion error ${status}: ${body}`);
+  }
+}
+
+const isRetryable = (error: unknown) =>
+  !(error instanceof IngestHttpError) || error.status === 429 || error.status >= 500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class MooseIngestSink<T> {
+  readonly stats: IngestSinkStats = { records: 0, succeeded: 0, failed: 0, retries: 0, batches: 0, spilled: 0, replayed: 0 };
+
+  private readonly url: string;
+  private readonly batchSize: number;
+  private readonly concurrency: number;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly spillPath: string;
+  private buffer: T[] = [];
+  private readonly inFlight = new Set<Promise<void>>();
+
+  constructor(readonly table: string, options: IngestSinkOptions = {}) {
+    const baseUrl = options.baseUrl ?? process.env.MOOSE_INGEST_URL ?? "http://localhost:4000/ingest";
+    this.url = `${baseUrl.replace(/\/+$/, "")}/${table}`;
+    this.batchSize = options.batchSize ?? envInt("MOOSE_INGEST_BATCH_SIZE", 100);
+    this.concurrency = options.concurrency ?? envInt("MOOSE_INGEST_CONCURRENCY", 4);
+    this.maxRetries = options.maxRetries ?? envInt("MOOSE_INGEST_MAX_RETRIES", 3);
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 500;
+    this.spillPath = path.resolve(options.spillDir ?? process.env.MOOSE_INGEST_SPILL_DIR ?? ".moose-ingest-spill", table);
+  }
+
+  /** Buffers a record; resolves once it is queued (waiting for a free slot when a batch is due) */
+  async add(record: T): Promise<void> {
+    this.stats.records++;
+    this.buffer.push(record);
+    if (this.buffer.length >= this.batchSize) await this.dispatch();
+  }
+
+  /** Sends whatever is buffered and waits for every in-flight batch */
+  async flush(): Promise<IngestSinkStats> {
+    if (this.buffer.length) await this.dispatch();
+    await Promise.all(this.inFlight);
+    return this.stats;
+  }
+
+  /**
+   * Re-sends batches spilled by earlier runs. Accepted files are deleted;
+   * files that still fail stay queued for the next run.
+   */
+  async replaySpilled(): Promise<number> {
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.spillPath).filter((f) => f.endsWith(".json")).sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return 0;
+      throw error;
+    }
+    for (const file of files) {
+      const fullPath = path.join(this.spillPath, file);
+      const records = JSON.parse(fs.readFileSync(fullPath, "utf8")) as T[];
+      try {
+        await this.sendWithRetry(records);
+        fs.unlinkSync(fullPath);
+        this.stats.replayed += records.length;
+      } catch (error) {
+        console.error(`❌ Replay of spilled ${this.table} batch ${file} failed; keeping it queued:`, error);
+      }
+    }
+    return this.stats.replayed;
+  }
+
+  private async dispatch(): Promise<void> {
+    while (this.inFlight.size >= this.concurrency) await Promise.race(this.inFlight);
+    const batch = this.buffer;
+    this.buffer = [];
+    this.stats.batches++;
+    const task: Promise<void> = this.sendBatch(batch).finally(() => this.inFlight.delete(task));
+    this.inFlight.add(task);
+  }
+
+  // Never rejects: failures are counted and spilled so one bad batch cannot abort the run
+  private async sendBatch(batch: T[]): Promise<void> {
+    try {
+      await this.sendWithRetry(batch);
+      this.stats.succeeded += batch.length;
+    } catch (error) {
+      this.stats.failed += batch.length;
+      console.error(`❌ Ingesting ${batch.length} records into ${this.table} failed:`, error);
+      this.spill(batch);
+    }
+  }
+
+  private async sendWithRetry(batch: T[]): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await fetch(this.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(batch),
+        });
+        if (!response.ok) throw new IngestHttpError(response.status, await response.text());
+        return;
+      } catch (error) {
+        if (attempt >= this.maxRetries || !isRetryable(error)) throw error;
+        this.stats.retries++;
+        const delay = this.retryBaseDelayMs * 2 ** attempt;
+        await sleep(delay + Math.random() * delay);
+      }
+    }
+  }
+
+  private spill(batch: T[]): void {
+    try {
+      fs.mkdirSync(this.spillPath, { recursive: true });
+      const file = path.join(this.spillPath, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`);
+      fs.writeFileSync(file, JSON.stringify(batch));
+      this.stats.spilled += batch.length;
+    } catch (error) {
+      console.error(`💥 Could not spill ${batch.length} ${this.table} records to ${this.spillPath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { ClickHouseEngines, Key, MaterializedView, OlapTable } from "@514labs/moose-lib";
+import { HubSpotCompanyPipeline, HubSpotContactPipeline, HubSpotDealPipeline } from "../ingest/hubspotModels";
+
+/**
+ * HubSpot Deal Enrichment
+ *
+ * Denormalizes each deal's primary company (`primaryCompanyId`: the company
+ * with HubSpot's Primary association label, captured at sync time) and primary
+ * contact (the first of `associatedContacts`; deals have no Primary contact
+ * label) into `HubSpotDealEnriched`, one row per deal, so deal analytics can
+ * group by industry, country, company size or contact lifecycle stage without
+ * joining the company and contact tables on every query.
+ *
+ * A materialized view only sees inserts into the table it reads first, and the
+ * sync writes deals before contacts and companies, so there is one view per
+ * side: a deal insert looks up its company and contact, and a company or
+ * contact insert re-enriches the deals pointing at it. Rows are versioned by
+ * the newest `lastModifiedAt` of the three, so the latest state wins.
+ *
+ * Inside a view, a subquery reading the view's source table reads the inserted
+ * block, so each lookup is limited to the rows the block refers to instead of
+ * scanning the whole table per insert.
+ *
+ * Views only see new inserts: run hubspotDataSync with `fullResync` once after
+ * deploying to enrich deals already in ClickHouse.
+ */
+
+export interface HubSpotDealEnriched {
+  dealId: Key<string>; // Deal ID
+  companyId: string; // Primary company ID ('' when no company has the Primary label)
+  companyName: string; // '' until the company is synced
+  industry: string;
+  country: string;
+  companyType: string;
+  numberOfEmployees?: number;
+  annualRevenue?: number;
+  employeeBand: string; // "1-9", "10-49", ..., "5000+" or "Unknown"
+  revenueBand: string; // "<1M", "1M-10M", ..., "1B+" or "Unknown"
+  contactId: string; // Primary contact ID ('' when the deal has no contact)
+  contactLifecycleStage: string; // Primary contact's lifecycle stage ('' when unknown)
+  enrichedAt: Date; // Newest lastModifiedAt of the deal, company and contact (row version)
+}
+
+export const HubSpotDealEnrichedTable = new OlapTable<HubSpotDealEnriched>("HubSpotDealEnriched", {
+  engine: ClickHouseEngines.ReplacingMergeTree,
+  orderByFields: ["dealId"],
+  ver: "enrichedAt",
+});
+
+const EMPLOYEE_BAND = `multiIf(
+  ifNull(c.numberOfEmployees, 0) <= 0, 'Unknown',
+  c.numberOfEmployees < 10, '1-9',
+  c.numberOfEmployees < 50, '10-49',
+  c.numberOfEmployees < 200, '50-199',
+  c.numberOfEmployees < 1000, '200-999',
+  c.numberOfEmployees < 5000, '1000-4999',
+  '5000+'
+)`;
+
+const REVENUE_BAND = `multiIf(
+  ifNull(c.annualRevenue, 0) <= 0, 'Unknown',
+  c.annualRevenue < 1000000, '<1M',
+  c.annualRevenue < 10000000, '1M-10M',
+  c.annualRevenue < 100000000, '10M-100M',
+  c.annualRevenue < 1000000000, '100M-1B',
+  '1B+'
+)`;
+
+// Latest company, contact and deal rows matching `where`. FINAL reads only the ranges of the filtered `id`s (the
+// sort key), so deals are matched on other columns in a plain read first and then re-read by id
+const companies = (where: string) => `(
+  SELECT id, name, industry, country, companyType, numberOfEmployees, annualRevenue, lastModifiedAt
+  FROM HubSpotCompany FINAL
+  WHERE ${where}
+)`;
+const contacts = (where: string) => `(SELECT id, lifecycleStage, lastModifiedAt FROM HubSpotContact FINAL WHERE ${where})`;
+const deals = (where: string) => `(
+  SELECT id, primaryCompanyId, arrayElement(associatedContacts, 1) AS primaryContactId, lastModifiedAt
+  FROM HubSpotDeal FINAL
+  WHERE id IN (SELECT id FROM HubSpotDeal WHERE ${where})
+)`;
+
+// Deals whose primary company / contact is in the inserted company / contact block
+const DEALS_OF_COMPANIES = "primaryCompanyId IN (SELECT id FROM HubSpotCompany)";
+const DEALS_OF_CONTACTS = "arrayElement(associatedContacts, 1) IN (SELECT id FROM HubSpotContact)";
+
+// Columns of HubSpotDealEnriched from a deal `d` joined to company `c` and contact `ct` (missing sides read as defaults)
+function enrichedColumns(companyId: string, contactId: string): string {
+  return `
+    d.id AS dealId,
+    ${companyId} AS companyId,
+    c.name AS companyName,
+    ifNull(c.industry, '') AS industry,
+    ifNull(c.country, '') AS country,
+    ifNull(c.companyType, '') AS companyType,
+    c.numberOfEmployees AS numberOfEmployees,
+    c.annualRevenue AS annualRevenue,
+    ${EMPLOYEE_BAND} AS employeeBand,
+    ${REVENUE_BAND} AS revenueBand,
+    ${contactId} AS contactId,
+    ifNull(ct.lifecycleStage, '') AS contactLifecycleStage,
+    greatest(d.lastModifiedAt, c.lastModifiedAt, ct.lastModifiedAt) AS enrichedAt`;
+}
+
+// Deal inserts: look up the deal's primary company and contact
+export const HubSpotDealEnrichedFromDealsView = new MaterializedView<HubSpotDealEnriched>({
+  materializedViewName: "HubSpotDealEnrichedFromDeals_MV",
+  targetTable: HubSpotDealEnrichedTable,
+  selectTables: [HubSpotDealPipeline.table!, HubSpotCompanyPipeline.table!, HubSpotContactPipeline.table!],
+  selectStatement: `
+    SELECT ${enrichedColumns("d.primaryCompanyId", "arrayElement(d.associatedContacts, 1)")}
+    FROM HubSpotDeal AS d
+    LEFT JOIN ${companies("id IN (SELECT primaryCompanyId FROM HubSpotDeal)")} AS c ON c.id = d.primaryCompanyId
+    LEFT JOIN ${contacts("id IN (SELECT arrayElement(associatedContacts, 1) FROM HubSpotDeal)")} AS ct
+      ON ct.id = arrayElement(d.associatedContacts, 1)
+  `,
+});
+
+// Company inserts: re-enrich every deal whose primary company this is
+export const HubSpotDealEnrichedFromCompaniesView = new MaterializedView<HubSpotDealEnriched>({
+  materializedViewName: "HubSpotDealEnrichedFromCompanies_MV",
+  targetTable: HubSpotDealEnrichedTable,
+  selectTables: [HubSpotCompanyPipeline.table!, HubSpotDealPipeline.table!, HubSpotContactPipeline.table!],
+  selectStatement: `
+    SELECT ${enrichedColumns("d.primaryCompanyId", "d.primaryContactId")}
+    FROM HubSpotCompany AS c
+    INNER JOIN ${deals(DEALS_OF_COMPANIES)} AS d ON d.primaryCompanyId = c.id
+    LEFT JOIN ${contacts(`id IN (SELECT arrayElement(associatedContacts, 1) FROM HubSpotDeal WHERE ${DEALS_OF_COMPANIES})`)} AS ct
+      ON ct.id = d.primaryContactId
+  `,
+});
+
+// Contact inserts: re-enrich every deal whose primary contact this is
+export const HubSpotDealEnrichedFromContactsView = new MaterializedView<HubSpotDealEnriched>({
+  materializedViewName: "HubSpotDealEnrichedFromContacts_MV",
+  targetTable: HubSpotDealEnrichedTable,
+  selectTables: [HubSpotContactPipeline.table!, HubSpotDealPipeline.table!, HubSpotCompanyPipeline.table!],
+  selectStatement: `
+    SELECT ${enrichedColumns("d.primaryCompanyId", "d.primaryContactId")}
+    FROM HubSpotContact AS ct
+    INNER JOIN ${deals(DEALS_OF_CONTACTS)} AS d ON d.primaryContactId = ct.id
+    LEFT JOIN ${companies(`id IN (SELECT primaryCompanyId FROM HubSpotDeal WHERE ${DEALS_OF_CONTACTS})`)} AS c
+      ON c.id = d.primaryCompanyId
+  `,
+});
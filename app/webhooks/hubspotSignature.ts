@@ -0,0 +1,58 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * HubSpot Webhook Signatures (v3)
+ *
+ * HubSpot signs each webhook request with the app's client secret:
+ * base64(HMAC-SHA256(secret, method + uri + body + timestamp)), sent in
+ * `X-HubSpot-Signature-v3` with the epoch-ms timestamp in
+ * `X-HubSpot-Request-Timestamp`. Requests older than the timestamp window
+ * (default 5 minutes) are rejected to stop replays.
+ */
+
+export const SIGNATURE_HEADER = "x-hubspot-signature-v3";
+export const TIMESTAMP_HEADER = "x-hubspot-request-timestamp";
+
+const MAX_AGE_MS = 5 * 60 * 1000;
+
+// HubSpot signs the URI with these characters decoded
+const DECODED_URI_CHARS: Record<string, string> = {
+  "%3A": ":", "%2F": "/", "%3F": "?", "%40": "@", "%21": "!", "%24": "$",
+  "%27": "'", "%28": "(", "%29": ")", "%2A": "*", "%2C": ",", "%3B": ";",
+};
+
+export interface SignedRequest {
+  method: string;
+  uri: string; // Full public URL HubSpot called, including query string
+  body: string; // Raw request body, exactly as received
+  timestamp: string; // X-HubSpot-Request-Timestamp
+}
+
+export type SignatureCheck = { valid: true } | { valid: false; reason: string };
+
+const decodeUri = (uri: string) => uri.replace(/%[0-9A-F]{2}/gi, (m) => DECODED_URI_CHARS[m.toUpperCase()] ?? m);
+
+/** Computes the v3 signature; also used to sign local fixture payloads */
+export function signHubSpotRequestV3(request: SignedRequest, secret: string): string {
+  const source = `${request.method.toUpperCase()}${decodeUri(request.uri)}${request.body}${request.timestamp}`;
+  return createHmac("sha256", secret).update(source, "utf8").digest("base64");
+}
+
+export function verifyHubSpotSignatureV3(
+  request: SignedRequest & { signature: string | undefined },
+  secret: string,
+  now: number = Date.now(),
+): SignatureCheck {
+  if (!request.signature) return { valid: false, reason: "missing signature" };
+
+  const timestamp = Number(request.timestamp);
+  if (!Number.isFinite(timestamp)) return { valid: false, reason: "missing or invalid timestamp" };
+  if (Math.abs(now - timestamp) > MAX_AGE_MS) return { valid: false, reason: "timestamp outside the allowed window" };
+
+  const expected = Buffer.from(signHubSpotRequestV3(request, secret));
+  const actual = Buffer.from(request.signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: "signature mismatch" };
+  }
+  return { valid: true };
+}
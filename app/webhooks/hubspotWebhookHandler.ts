@@ -0,0 +1,335 @@
+import type { HubSpotConnector } from "../hubspot";
+import { MooseIngestSink, type IngestSinkOptions } from "../scripts/mooseIngestSink";
+import {
+  OBJECT_SYNC_SPECS,
+  createSyncConnector,
+  fetchDeletedRecords,
+  fetchRawRecords,
+  tombstoneIngestion,
+  withMergeTombstones,
+  type CrmRecord,
+  type HubSpotObjectRawIngestion,
+} from "../scripts/hubspotObjectSync";
+import type { SyncObjectType } from "../scripts/hubspotSyncState";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyHubSpotSignatureV3 } from "./hubspotSignature";
+
+/**
+ * HubSpot Webhook Handler
+ *
+ * Turns a HubSpot webhook batch into fresh raw records:
+ *
+ * - Verifies the v3 signature (HUBSPOT_CLIENT_SECRET) and timestamp window
+ * - Skips events already processed (by `eventId`, remembered for
+ *   HUBSPOT_WEBHOOK_DEDUP_TTL_HOURS, default 24)
+ * - Collects the IDs each event touched per object type and re-reads them
+ *   through the connector's batch read, so every record is ingested whole
+ *   (all properties and associations), exactly as the sync workflow writes it
+ * - Deletions and merged-away records become tombstones (deletion/merge
+ *   markers) instead, since HubSpot no longer returns them. Events apply in
+ *   `occurredAt` order, so a record restored after its deletion is re-read
+ * - Pushes them to the `HubSpot*Raw` ingest pipelines
+ *
+ * Events are processed before responding: a 5xx makes HubSpot retry the batch.
+ * Event IDs are reserved as seen on arrival, so a concurrent delivery of the
+ * same event is a duplicate, and released again if processing fails.
+ */
+
+/** One event in a webhook batch; fields depend on the subscription type */
+export interface HubSpotWebhookEvent {
+  eventId: number | string;
+  subscriptionId?: number;
+  portalId?: number;
+  appId?: number;
+  occurredAt?: number;
+  attemptNumber?: number;
+  subscriptionType: string; // e.g. "deal.propertyChange" or "object.propertyChange"
+  objectTypeId?: string; // "object.*" subscriptions, e.g. "0-3"
+  objectId?: number | string;
+  propertyName?: string;
+  propertyValue?: string;
+  changeSource?: string;
+  // associationChange
+  associationType?: string; // e.g. "DEAL_TO_CONTACT"
+  fromObjectTypeId?: string;
+  toObjectTypeId?: string;
+  fromObjectId?: number | string;
+  toObjectId?: number | string;
+  associationRemoved?: boolean;
+  // merge
+  primaryObjectId?: number | string;
+  mergedObjectIds?: Array<number | string>;
+  newObjectId?: number | string;
+}
+
+export interface WebhookHttpRequest {
+  method: string;
+  uri: string; // Public URL HubSpot called (what it signed)
+  headers: Record<string, string | string[] | undefined>;
+  body: string; // Raw body
+}
+
+export interface WebhookHttpResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+export interface WebhookProcessStats {
+  received: number;
+  duplicates: number;
+  ignored: number; // Unsupported object or subscription types
+  fetched: Partial<Record<SyncObjectType, number>>; // Records re-read and ingested
+  deleted: number; // Tombstones ingested for deleted or merged-away IDs
+  notFound: number; // IDs HubSpot no longer returns
+}
+
+export interface HubSpotWebhookHandlerOptions {
+  secret?: string; // Default HUBSPOT_CLIENT_SECRET
+  connector?: HubSpotConnector; // Default a bearer connector on HUBSPOT_TOKEN
+  dedupTtlMs?: number;
+  sinkOptions?: IngestSinkOptions;
+  now?: () => number;
+}
+
+// HubSpot object type IDs used by "object.*" subscriptions
+const OBJECT_TYPE_IDS: Record<string, SyncObjectType> = {
+  "0-1": "contacts",
+  "0-2": "companies",
+  "0-3": "deals",
+  "0-5": "tickets",
+  "0-27": "tasks",
+  "0-46": "notes",
+  "0-47": "meetings",
+  "0-48": "calls",
+  "0-49": "emails",
+};
+
+// Legacy subscription prefixes ("deal.creation") and association type names ("DEAL_TO_CONTACT")
+const LEGACY_OBJECT_TYPES: Record<string, SyncObjectType> = {
+  contact: "contacts",
+  company: "companies",
+  deal: "deals",
+  ticket: "tickets",
+};
+
+const BATCH_READ_LIMIT = 100;
+
+const header = (headers: WebhookHttpRequest["headers"], name: string) => {
+  const value = headers[name] ?? headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+export class HubSpotWebhookHandler {
+  private readonly secret: string | undefined;
+  private readonly dedupTtlMs: number;
+  private readonly sinkOptions: IngestSinkOptions;
+  private readonly now: () => number;
+  private readonly seen = new Map<string, number>(); // eventId → expiry (epoch ms)
+  private connector?: HubSpotConnector;
+
+  constructor(options: HubSpotWebhookHandlerOptions = {}) {
+    this.secret = options.secret ?? process.env.HUBSPOT_CLIENT_SECRET;
+    this.connector = options.connector;
+    this.dedupTtlMs = options.dedupTtlMs ?? (parseInt(process.env.HUBSPOT_WEBHOOK_DEDUP_TTL_HOURS || "", 10) || 24) * 60 * 60 * 1000;
+    this.sinkOptions = options.sinkOptions ?? {};
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Verifies, parses and processes one webhook request */
+  async handle(request: WebhookHttpRequest): Promise<WebhookHttpResponse> {
+    if (!this.secret) {
+      return { status: 500, body: { error: "HUBSPOT_CLIENT_SECRET is not configured" } };
+    }
+
+    const check = verifyHubSpotSignatureV3(
+      {
+        method: request.method,
+        uri: request.uri,
+        body: request.body,
+        timestamp: header(request.headers, TIMESTAMP_HEADER) ?? "",
+        signature: header(request.headers, SIGNATURE_HEADER),
+      },
+      this.secret,
+      this.now(),
+    );
+    if (!check.valid) {
+      return { status: 401, body: { error: `Invalid HubSpot signature: ${check.reason}` } };
+    }
+
+    let events: HubSpotWebhookEvent[];
+    try {
+      const parsed = JSON.parse(request.body);
+      events = Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      return { status: 400, body: { error: "Body is not valid JSON" } };
+    }
+
+    try {
+      const stats = await this.process(events);
+      return { status: 200, body: { ...stats } };
+    } catch (error) {
+      console.error("💥 HubSpot webhook processing failed:", error);
+      return { status: 500, body: { error: error instanceof Error ? error.message : String(error) } };
+    }
+  }
+
+  /** Dedups events, re-reads the records they touched and ingests them */
+  async process(events: HubSpotWebhookEvent[]): Promise<WebhookProcessStats> {
+    const stats: WebhookProcessStats = { received: events.length, duplicates: 0, ignored: 0, fetched: {}, deleted: 0, notFound: 0 };
+    this.pruneSeen();
+
+    const fresh: HubSpotWebhookEvent[] = [];
+    const batchIds = new Set<string>();
+    const expiresAt = this.now() + this.dedupTtlMs;
+    for (const event of events) {
+      const id = String(event.eventId);
+      if (this.seen.has(id)) {
+        stats.duplicates++;
+        continue;
+      }
+      this.seen.set(id, expiresAt);
+      batchIds.add(id);
+      fresh.push(event);
+    }
+
+    try {
+      await this.ingestEvents(fresh, stats);
+    } catch (error) {
+      // Not ingested: let HubSpot's retry of these events through
+      batchIds.forEach((id) => this.seen.delete(id));
+      throw error;
+    }
+
+    console.log(
+      `🔔 HubSpot webhook: ${stats.received} events (${stats.duplicates} duplicate, ${stats.ignored} ignored, ` +
+        `${stats.deleted} deleted), fetched ${JSON.stringify(stats.fetched)}`
+    );
+    return stats;
+  }
+
+  /** Re-reads the records touched by `events` and ingests them, with tombstones for deleted ones */
+  private async ingestEvents(events: HubSpotWebhookEvent[], stats: WebhookProcessStats): Promise<void> {
+    const changed = new Map<SyncObjectType, Set<string>>();
+    const tombstones = new Map<SyncObjectType, Map<string, { archivedAt: string; mergedIntoId?: string }>>();
+    // `revives`: the event shows the record exists (creation, change, restore), undoing an earlier deletion
+    const touch = (objectType: SyncObjectType | undefined, id: number | string | undefined, revives = false) => {
+      if (!objectType || id === undefined) return;
+      if (revives) tombstones.get(objectType)?.delete(String(id));
+      else if (tombstones.get(objectType)?.has(String(id))) return;
+      if (!changed.has(objectType)) changed.set(objectType, new Set());
+      changed.get(objectType)!.add(String(id));
+    };
+    const bury = (objectType: SyncObjectType, id: number | string, occurredAt: number | undefined, mergedIntoId?: number | string) => {
+      changed.get(objectType)?.delete(String(id));
+      if (!tombstones.has(objectType)) tombstones.set(objectType, new Map());
+      tombstones.get(objectType)!.set(String(id), {
+        archivedAt: new Date(occurredAt ?? this.now()).toISOString(),
+        ...(mergedIntoId !== undefined ? { mergedIntoId: String(mergedIntoId) } : {}),
+      });
+    };
+
+    // Oldest first, so the last event on a record decides whether it is re-read or buried
+    const ordered = events.slice().sort((a, b) => (a.occurredAt ?? 0) - (b.occurredAt ?? 0));
+    for (const event of ordered) {
+      const [prefix, action] = event.subscriptionType.split(".");
+      const objectType = prefix === "object" ? OBJECT_TYPE_IDS[event.objectTypeId ?? ""] : LEGACY_OBJECT_TYPES[prefix];
+
+      switch (action) {
+        case "creation":
+        case "propertyChange":
+        case "restore":
+          if (objectType) touch(objectType, event.objectId, true);
+          else stats.ignored++;
+          break;
+        case "associationChange": {
+          // Both ends carry the association on their raw record
+          const [from, to] = (event.associationType ?? "").split("_TO_");
+          const fromType = OBJECT_TYPE_IDS[event.fromObjectTypeId ?? ""] ?? LEGACY_OBJECT_TYPES[from?.toLowerCase()];
+          const toType = OBJECT_TYPE_IDS[event.toObjectTypeId ?? ""] ?? LEGACY_OBJECT_TYPES[to?.toLowerCase()];
+          if (!fromType && !toType) stats.ignored++;
+          touch(fromType, event.fromObjectId);
+          touch(toType, event.toObjectId);
+          break;
+        }
+        case "merge": {
+          // The surviving record absorbs the merged ones, which HubSpot then deletes
+          if (!objectType) {
+            stats.ignored++;
+            break;
+          }
+          const survivorId = event.newObjectId ?? event.primaryObjectId ?? event.objectId;
+          touch(objectType, survivorId, true);
+          for (const mergedId of event.mergedObjectIds ?? []) {
+            if (String(mergedId) !== String(survivorId)) bury(objectType, mergedId, event.occurredAt, survivorId);
+          }
+          break;
+        }
+        case "deletion":
+          // Deleted records cannot be batch read; the event itself is the tombstone
+          if (objectType && event.objectId !== undefined) bury(objectType, event.objectId, event.occurredAt);
+          else stats.ignored++;
+          break;
+        default:
+          stats.ignored++;
+      }
+    }
+
+    const objectTypes = new Set<SyncObjectType>([...Array.from(changed.keys()), ...Array.from(tombstones.keys())]);
+    for (const objectType of Array.from(objectTypes)) {
+      const spec = OBJECT_SYNC_SPECS[objectType];
+      const sink = new MooseIngestSink<HubSpotObjectRawIngestion>(spec.ingestTable, this.sinkOptions);
+      const buried = tombstones.get(objectType) ?? new Map<string, { archivedAt: string; mergedIntoId?: string }>();
+      const ids = Array.from(changed.get(objectType) ?? []);
+
+      let fetched = 0;
+      if (ids.length > 0) {
+        const connector = await this.getConnector();
+        for (const idChunk of chunk(ids, BATCH_READ_LIMIT)) {
+          const { records, notFound } = await fetchRawRecords(connector, spec, idChunk);
+          for (const record of records) {
+            for (const raw of withMergeTombstones(spec, record)) await sink.add(raw);
+          }
+          fetched += records.length;
+          stats.notFound += notFound.length;
+        }
+      }
+      // Deleted records keep their last known state from the recycle bin; merged-away ones live on in the survivor
+      const deletedIds = Array.from(buried).filter(([, marker]) => !marker.mergedIntoId).map(([id]) => id);
+      const lastKnown = deletedIds.length ? await fetchDeletedRecords(await this.getConnector(), spec, deletedIds) : new Map<string, CrmRecord>();
+      for (const [id, marker] of Array.from(buried)) {
+        await sink.add(tombstoneIngestion(spec, id, marker, lastKnown.get(id)));
+      }
+      stats.deleted += buried.size;
+
+      const sinkStats = await sink.flush();
+      if (sinkStats.failed > 0) {
+        throw new Error(`${sinkStats.failed} ${objectType} could not be ingested into ${spec.ingestTable}`);
+      }
+      stats.fetched[objectType] = fetched;
+    }
+  }
+
+  private pruneSeen(): void {
+    const now = this.now();
+    this.seen.forEach((expiresAt, id) => {
+      if (expiresAt <= now) this.seen.delete(id);
+    });
+  }
+
+  private async getConnector(): Promise<HubSpotConnector> {
+    if (!this.connector) {
+      const token = process.env.HUBSPOT_TOKEN;
+      if (!token) {
+        throw new Error("HUBSPOT_TOKEN environment variable is required");
+      }
+      this.connector = createSyncConnector(token);
+      await this.connector.connect();
+    }
+    return this.connector;
+  }
+}
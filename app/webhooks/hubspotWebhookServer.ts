@@ -0,0 +1,76 @@
+import * as http from "http";
+import { HubSpotWebhookHandler } from "./hubspotWebhookHandler";
+
+/**
+ * HubSpot Webhook Server
+ *
+ * Standalone receiver for HubSpot webhook batches at
+ * `POST /webhooks/hubspot` (port HUBSPOT_WEBHOOK_PORT, default 4100).
+ *
+ * Signature verification needs the raw body and request headers, which Moose
+ * ingest and consumption routes do not expose, so the receiver runs next to
+ * Moose and feeds its ingest endpoints. HubSpot signs the public URL it
+ * called: set HUBSPOT_WEBHOOK_PUBLIC_URL (e.g. the tunnel origin) when
+ * running behind a proxy that rewrites the host.
+ *
+ *   npx tsx app/webhooks/hubspotWebhookServer.ts
+ */
+
+export const WEBHOOK_PATH = "/webhooks/hubspot";
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+/** The URL HubSpot called, as it signed it */
+function publicUri(req: http.IncomingMessage): string {
+  const base = process.env.HUBSPOT_WEBHOOK_PUBLIC_URL;
+  if (base) return `${base.replace(/\/+$/, "")}${req.url ?? ""}`;
+  const proto = String(req.headers["x-forwarded-proto"] ?? "http").split(",")[0].trim();
+  const host = req.headers["x-forwarded-host"] ?? req.headers.host ?? "localhost";
+  return `${proto}://${host}${req.url ?? ""}`;
+}
+
+export function createHubSpotWebhookServer(handler: HubSpotWebhookHandler = new HubSpotWebhookHandler()): http.Server {
+  return http.createServer(async (req, res) => {
+    const send = (status: number, body: Record<string, unknown>) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (pathname !== WEBHOOK_PATH) return send(404, { error: "Not found" });
+    if (req.method !== "POST") return send(405, { error: "Method not allowed" });
+
+    try {
+      const body = await readBody(req);
+      const result = await handler.handle({ method: req.method, uri: publicUri(req), headers: req.headers, body });
+      send(result.status, result.body);
+    } catch (error) {
+      send(400, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
+
+if (require.main === module) {
+  const port = parseInt(process.env.HUBSPOT_WEBHOOK_PORT || "", 10) || 4100;
+  createHubSpotWebhookServer().listen(port, () => {
+    console.log(`🔔 HubSpot webhook receiver listening on http://localhost:${port}${WEBHOOK_PATH}`);
+  });
+}
@@ -0,0 +1,47 @@
+import * as fs from "fs";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, signHubSpotRequestV3 } from "./hubspotSignature";
+
+/**
+ * Sends a fixture payload to the local webhook receiver, signed like HubSpot
+ * would sign it (HUBSPOT_CLIENT_SECRET, current timestamp).
+ *
+ *   npx tsx app/webhooks/sendWebhookFixture.ts app/webhooks/fixtures/deal-property-change.json
+ *
+ * Options: `--url <receiver url>` (default http://localhost:4100/webhooks/hubspot),
+ * `--bad-signature` to check that tampered requests are rejected.
+ */
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  let fixture: string | undefined;
+  let url = process.env.HUBSPOT_WEBHOOK_URL ?? "http://localhost:4100/webhooks/hubspot";
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--url") url = args[++i];
+    else if (!args[i].startsWith("--")) fixture = args[i];
+  }
+  const secret = process.env.HUBSPOT_CLIENT_SECRET;
+
+  if (!fixture) {
+    throw new Error("Usage: sendWebhookFixture.ts <fixture.json> [--url <url>] [--bad-signature]");
+  }
+  if (!secret) {
+    throw new Error("HUBSPOT_CLIENT_SECRET environment variable is required");
+  }
+
+  const body = fs.readFileSync(fixture, "utf8");
+  const timestamp = String(Date.now());
+  let signature = signHubSpotRequestV3({ method: "POST", uri: url, body, timestamp }, secret);
+  if (args.includes("--bad-signature")) signature = signature.split("").reverse().join("");
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", [SIGNATURE_HEADER]: signature, [TIMESTAMP_HEADER]: timestamp },
+    body,
+  });
+  console.log(`${response.status} ${await response.text()}`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});